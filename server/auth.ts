@@ -1,9 +1,14 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { User, IUser, IUserPublic } from './models/User';
 import { RefreshToken } from './models/RefreshToken';
 import mongoose from 'mongoose';
 import rateLimit from 'express-rate-limit';
+import QRCode from 'qrcode';
+import { mailTransport } from './mailer';
+import { parseUserAgent } from './userAgent';
+import { generateTotpSecret, totpUri, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from './totp';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -11,11 +16,28 @@ interface AuthenticatedRequest extends Request {
     username: string;
     email: string;
     avatar?: string;
+    sessionId?: string; // RefreshToken id of the session the access token belongs to
   };
 }
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-super-secret-refresh-key';
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+const VERIFICATION_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const PASSWORD_RESET_TTL = 30 * 60 * 1000; // 30 minutes
+
+// Second-factor lockout, kept apart from the password one so a correct password can't reset it
+const MAX_TWO_FACTOR_FAILURES = 5;
+const TWO_FACTOR_LOCK_TIME = 30 * 60 * 1000; // 30 minutes
+const MAX_CHALLENGE_ATTEMPTS = 3; // Wrong codes before a challenge token is spent
+
+// Emailed tokens are random; only their hash is stored so a database leak can't be replayed
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const createEmailToken = (ttl: number): { token: string; hash: string; expires: Date } => {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, hash: hashToken(token), expires: new Date(Date.now() + ttl) };
+};
 
 // Enhanced password validation
 const validatePassword = (password: string): { isValid: boolean; errors: string[] } => {
@@ -104,13 +126,15 @@ export const loginLimiter = rateLimit({
 });
 
 export class AuthService {
-  // Generate JWT tokens with enhanced payload
-  private generateTokens(user: { id: string; username: string; email: string; avatar?: string }) {
+  // Generate JWT tokens with enhanced payload. sid ties both tokens to their RefreshToken
+  // document, so a revoked session can be recognised while its access token is still valid.
+  private generateTokens(user: { id: string; username: string; email: string; avatar?: string }, sessionId: string) {
     const tokenPayload = {
       id: user.id,
       username: user.username,
       email: user.email,
       avatar: user.avatar,
+      sid: sessionId,
       iat: Math.floor(Date.now() / 1000),
       type: 'access'
     };
@@ -124,6 +148,7 @@ export class AuthService {
     const refreshToken = jwt.sign(
       { 
         id: user.id, 
+        sid: sessionId,
         type: 'refresh',
         iat: Math.floor(Date.now() / 1000)
       },
@@ -138,8 +163,94 @@ export class AuthService {
     return { accessToken, refreshToken };
   }
 
+  // Proof that the password step passed, traded for real tokens once the second factor checks out
+  private generateChallengeToken(userId: string, challengeId: string): string {
+    return jwt.sign({ id: userId, type: '2fa-challenge', cid: challengeId }, JWT_SECRET, {
+      expiresIn: '5m',
+      issuer: 'musicsync-server',
+      audience: 'musicsync-client'
+    });
+  }
+
+  // Issue tokens for a fully authenticated user and record the session
+  private async startSession(user: IUser, userAgent?: string, ipAddress?: string) {
+    user.lastLogin = new Date();
+    await user.save();
+
+    const refreshTokenDoc = new RefreshToken({
+      userId: user._id,
+      userAgent: userAgent || 'Unknown',
+      ipAddress: ipAddress || 'Unknown',
+      deviceInfo: parseUserAgent(userAgent)
+    });
+
+    const tokens = this.generateTokens({
+      id: user._id.toString(),
+      username: user.username,
+      email: user.email,
+      avatar: user.avatar
+    }, String(refreshTokenDoc._id));
+
+    refreshTokenDoc.token = tokens.refreshToken;
+    await refreshTokenDoc.save();
+
+    return {
+      user: {
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        avatar: user.avatar,
+        lastLogin: user.lastLogin,
+        isVerified: user.isVerified,
+        preferences: user.preferences,
+        createdAt: user.createdAt
+      },
+      tokens
+    };
+  }
+
+  private isTwoFactorLocked(user: IUser): boolean {
+    return !!(user.twoFactor?.lockUntil && user.twoFactor.lockUntil > new Date());
+  }
+
+  // Accept a TOTP code or spend a recovery code. The caller saves the user.
+  private checkSecondFactor(user: IUser, code: string): boolean {
+    const secret = user.twoFactor?.secret;
+    if (!secret || !code || typeof code !== 'string') return false;
+
+    const step = verifyTotp(secret, code, user.twoFactor.lastStep ?? -1);
+    if (step !== null) {
+      user.twoFactor.lastStep = step;
+      return true;
+    }
+
+    const hash = hashRecoveryCode(code);
+    if (user.twoFactor.recoveryCodes.includes(hash)) {
+      user.twoFactor.recoveryCodes = user.twoFactor.recoveryCodes.filter(stored => stored !== hash);
+      return true;
+    }
+
+    return false;
+  }
+
+  // Issue a fresh verification token and mail the link - any earlier link stops working
+  private async sendVerificationEmail(user: IUser): Promise<void> {
+    const { token, hash, expires } = createEmailToken(VERIFICATION_TTL);
+    user.verificationToken = hash;
+    user.verificationExpires = expires;
+    await user.save();
+
+    const link = `${APP_URL}/verify-email?token=${token}`;
+    await mailTransport.send({
+      to: user.email,
+      subject: 'Verify your MusicSync email address',
+      text: `Hi ${user.username},\n\nConfirm your email address to host public rooms and pick custom room codes:\n${link}\n\nThe link expires in 24 hours. If you didn't create a MusicSync account, you can ignore this email.`,
+      html: `<p>Hi ${user.username},</p><p>Confirm your email address to host public rooms and pick custom room codes:</p><p><a href="${link}">Verify my email</a></p><p>The link expires in 24 hours. If you didn't create a MusicSync account, you can ignore this email.</p>`
+    });
+  }
+
   // Enhanced register with better validation
-  async register(username: string, email: string, password: string): Promise<{ 
+  async register(username: string, email: string, password: string, userAgent?: string, ipAddress?: string): Promise<{ 
     success: boolean; 
     user?: any; 
     tokens?: any; 
@@ -229,18 +340,29 @@ export class AuthService {
         avatar: savedUser.avatar
       };
       
+      const refreshTokenDoc = new RefreshToken({
+        userId: savedUser._id,
+        userAgent: userAgent || 'Unknown',
+        ipAddress: ipAddress || 'Unknown',
+        deviceInfo: parseUserAgent(userAgent)
+      });
+
       console.log('🔐 Generating tokens...');
-      const tokens = this.generateTokens(userTokenData);
+      const tokens = this.generateTokens(userTokenData, String(refreshTokenDoc._id));
       
       console.log('💾 Saving refresh token...');
       // Save refresh token
-      const refreshTokenDoc = new RefreshToken({
-        token: tokens.refreshToken,
-        userId: savedUser._id
-      });
+      refreshTokenDoc.token = tokens.refreshToken;
       await refreshTokenDoc.save();
       console.log('✅ Refresh token saved');
 
+      // A mail outage shouldn't fail signup - the user can ask for another link
+      try {
+        await this.sendVerificationEmail(savedUser);
+      } catch (error) {
+        console.error('📧 Failed to send verification email:', error);
+      }
+
       const responseUser = {
         id: savedUser._id,
         username: savedUser.username,
@@ -248,6 +370,7 @@ export class AuthService {
         avatar: savedUser.avatar,
         createdAt: savedUser.createdAt,
         lastLogin: savedUser.lastLogin,
+        isVerified: savedUser.isVerified,
         preferences: savedUser.preferences
       };
 
@@ -284,6 +407,8 @@ export class AuthService {
     tokens?: any; 
     error?: string;
     requiresVerification?: boolean;
+    requiresTwoFactor?: boolean;
+    challengeToken?: string;
   }> {
     try {
       if (!emailOrUsername || !password) {
@@ -296,7 +421,7 @@ export class AuthService {
           { email: emailOrUsername.toLowerCase().trim() },
           { username: emailOrUsername.trim() }
         ]
-      });
+      }).select('+twoFactor');
 
       if (!user) {
         // Don't reveal whether user exists or not
@@ -316,41 +441,31 @@ export class AuthService {
         return { success: false, error: 'Invalid credentials' };
       }
 
-      // Update last login and login count
-      user.lastLogin = new Date();
-      await user.save();
+      // With 2FA on, the password alone only earns a challenge. Each new challenge
+      // replaces the last one, so only the latest sign-in can be answered.
+      if (user.preferences?.security?.twoFactorEnabled) {
+        if (this.isTwoFactorLocked(user)) {
+          return { success: false, error: 'Too many wrong verification codes. Please try again later.' };
+        }
+        if (user.twoFactor.lockUntil) {
+          user.twoFactor.failedAttempts = 0;
+          user.twoFactor.lockUntil = undefined;
+        }
 
-      // Generate tokens
-      const userTokenData = {
-        id: user._id.toString(),
-        username: user.username,
-        email: user.email,
-        avatar: user.avatar
-      };
-      const tokens = this.generateTokens(userTokenData);
-      
-      // Save refresh token with metadata
-      const refreshTokenDoc = new RefreshToken({
-        token: tokens.refreshToken,
-        userId: user._id,
-        userAgent: userAgent || 'Unknown',
-        ipAddress: ipAddress || 'Unknown'
-      });
-      await refreshTokenDoc.save();
+        const challengeId = crypto.randomBytes(16).toString('hex');
+        user.twoFactor.challengeId = challengeId;
+        user.twoFactor.challengeAttempts = 0;
+        await user.save();
 
-      return {
-        success: true,
-        user: {
-          id: user._id,
-          username: user.username,
-          email: user.email,
-          avatar: user.avatar,
-          lastLogin: user.lastLogin,
-          preferences: user.preferences,
-          createdAt: user.createdAt
-        },
-        tokens
-      };
+        return {
+          success: true,
+          requiresTwoFactor: true,
+          challengeToken: this.generateChallengeToken(user._id.toString(), challengeId)
+        };
+      }
+
+      const session = await this.startSession(user, userAgent, ipAddress);
+      return { success: true, ...session };
 
     } catch (error) {
       console.error('Login error:', error);
@@ -358,6 +473,180 @@ export class AuthService {
     }
   }
 
+  // Second login step: trade the challenge token and a code for full tokens
+  async completeTwoFactorLogin(challengeToken: string, code: string, userAgent?: string, ipAddress?: string): Promise<{
+    success: boolean;
+    user?: any;
+    tokens?: any;
+    error?: string;
+    requiresReauth?: boolean;
+  }> {
+    try {
+      let decoded: any;
+      try {
+        decoded = jwt.verify(challengeToken, JWT_SECRET, {
+          issuer: 'musicsync-server',
+          audience: 'musicsync-client'
+        });
+      } catch (jwtError) {
+        return { success: false, error: 'Your sign-in attempt expired. Please sign in again.', requiresReauth: true };
+      }
+
+      if (decoded.type !== '2fa-challenge') {
+        return { success: false, error: 'Invalid challenge token', requiresReauth: true };
+      }
+
+      const user = await User.findById(decoded.id).select('+twoFactor');
+      if (!user || !user.isActive || !user.preferences?.security?.twoFactorEnabled) {
+        return { success: false, error: 'Invalid challenge token', requiresReauth: true };
+      }
+
+      // Answered, spent or replaced by a newer sign-in
+      if (!decoded.cid || decoded.cid !== user.twoFactor.challengeId) {
+        return { success: false, error: 'Your sign-in attempt expired. Please sign in again.', requiresReauth: true };
+      }
+
+      if (user.isLocked || this.isTwoFactorLocked(user)) {
+        return { success: false, error: 'Too many failed attempts. Please try again later.', requiresReauth: true };
+      }
+
+      if (!this.checkSecondFactor(user, code)) {
+        const failedAttempts = (user.twoFactor.failedAttempts || 0) + 1;
+        const challengeAttempts = (user.twoFactor.challengeAttempts || 0) + 1;
+        user.twoFactor.failedAttempts = failedAttempts;
+        user.twoFactor.challengeAttempts = challengeAttempts;
+
+        if (failedAttempts >= MAX_TWO_FACTOR_FAILURES) {
+          user.twoFactor.lockUntil = new Date(Date.now() + TWO_FACTOR_LOCK_TIME);
+          user.twoFactor.challengeId = undefined;
+          await user.save();
+          return { success: false, error: 'Too many failed attempts. Please try again later.', requiresReauth: true };
+        }
+
+        if (challengeAttempts >= MAX_CHALLENGE_ATTEMPTS) {
+          user.twoFactor.challengeId = undefined;
+          await user.save();
+          return { success: false, error: 'Too many wrong codes. Please sign in again.', requiresReauth: true };
+        }
+
+        await user.save();
+        return { success: false, error: 'Invalid verification code' };
+      }
+
+      user.twoFactor.failedAttempts = 0;
+      user.twoFactor.lockUntil = undefined;
+      user.twoFactor.challengeId = undefined;
+      user.twoFactor.challengeAttempts = undefined;
+
+      const session = await this.startSession(user, userAgent, ipAddress);
+      return { success: true, ...session };
+
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      return { success: false, error: 'Login failed. Please try again.' };
+    }
+  }
+
+  // First enrollment step: a fresh secret to scan, not active until confirmed
+  async beginTwoFactorSetup(userId: string): Promise<{
+    success: boolean;
+    secret?: string;
+    otpauthUri?: string;
+    qrCode?: string;
+    error?: string;
+  }> {
+    try {
+      const user = await User.findById(userId).select('+twoFactor');
+      if (!user || !user.isActive) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (user.preferences?.security?.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is already enabled' };
+      }
+
+      const secret = generateTotpSecret();
+      user.twoFactor.pendingSecret = secret;
+      await user.save();
+
+      const otpauthUri = totpUri(secret, user.email);
+      const qrCode = await QRCode.toDataURL(otpauthUri);
+
+      return { success: true, secret, otpauthUri, qrCode };
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      return { success: false, error: 'Could not start two-factor setup' };
+    }
+  }
+
+  // A code from the new secret turns 2FA on; the recovery codes are only ever shown here
+  async confirmTwoFactorSetup(userId: string, code: string): Promise<{
+    success: boolean;
+    recoveryCodes?: string[];
+    error?: string;
+  }> {
+    try {
+      const user = await User.findById(userId).select('+twoFactor');
+      if (!user || !user.isActive) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const pendingSecret = user.twoFactor?.pendingSecret;
+      if (!pendingSecret) {
+        return { success: false, error: 'Start two-factor setup first' };
+      }
+
+      const step = typeof code === 'string' ? verifyTotp(pendingSecret, code) : null;
+      if (step === null) {
+        return { success: false, error: 'Invalid verification code' };
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      user.twoFactor.secret = pendingSecret;
+      user.twoFactor.pendingSecret = undefined;
+      user.twoFactor.lastStep = step;
+      user.twoFactor.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+      user.preferences.security.twoFactorEnabled = true;
+      await user.save();
+
+      return { success: true, recoveryCodes };
+    } catch (error) {
+      console.error('Two-factor confirm error:', error);
+      return { success: false, error: 'Could not enable two-factor authentication' };
+    }
+  }
+
+  // Turning 2FA off needs both the password and a current code
+  async disableTwoFactor(userId: string, password: string, code: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const user = await User.findById(userId).select('+twoFactor');
+      if (!user || !user.isActive) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (!user.preferences?.security?.twoFactorEnabled) {
+        return { success: false, error: 'Two-factor authentication is not enabled' };
+      }
+
+      if (!password || !(await user.comparePassword(password))) {
+        return { success: false, error: 'Incorrect password' };
+      }
+
+      if (!this.checkSecondFactor(user, code)) {
+        return { success: false, error: 'Invalid verification code' };
+      }
+
+      user.twoFactor = { recoveryCodes: [] };
+      user.preferences.security.twoFactorEnabled = false;
+      await user.save();
+
+      return { success: true };
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      return { success: false, error: 'Could not disable two-factor authentication' };
+    }
+  }
+
   // Enhanced refresh token with security checks
   async refreshToken(token: string, userAgent?: string, ipAddress?: string): Promise<{ 
     success: boolean; 
@@ -426,11 +715,6 @@ export class AuthService {
         };
       }
 
-      // Revoke old refresh token
-      refreshTokenDoc.isRevoked = true;
-      refreshTokenDoc.revokedAt = new Date();
-      await refreshTokenDoc.save();
-
       // Generate new tokens
       const userTokenData = {
         id: user._id.toString(),
@@ -438,16 +722,21 @@ export class AuthService {
         email: user.email,
         avatar: user.avatar
       };
-      const tokens = this.generateTokens(userTokenData);
-      
-      // Save new refresh token
-      const newRefreshTokenDoc = new RefreshToken({
-        token: tokens.refreshToken,
-        userId: user._id,
-        userAgent: userAgent || refreshTokenDoc.userAgent,
-        ipAddress: ipAddress || refreshTokenDoc.ipAddress
-      });
-      await newRefreshTokenDoc.save();
+      const tokens = this.generateTokens(userTokenData, String(refreshTokenDoc._id));
+
+      // Rotate in place - the old token stops working, but the session keeps its id
+      // (and its place in the device list) for as long as the device stays signed in
+      refreshTokenDoc.token = tokens.refreshToken;
+      refreshTokenDoc.expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      refreshTokenDoc.lastUsed = new Date();
+      if (userAgent) {
+        refreshTokenDoc.userAgent = userAgent;
+        refreshTokenDoc.deviceInfo = parseUserAgent(userAgent);
+      }
+      if (ipAddress) {
+        refreshTokenDoc.ipAddress = ipAddress;
+      }
+      await refreshTokenDoc.save();
 
       return { success: true, tokens };
 
@@ -461,25 +750,37 @@ export class AuthService {
     }
   }
 
+  // Revoke the matching live sessions; the ids let the caller close their sockets too
+  private async revokeSessions(filter: Record<string, any>, reason: string): Promise<string[]> {
+    const sessions = await RefreshToken.find({ ...filter, isRevoked: false }).select('_id');
+    const revokedSessionIds = sessions.map(session => String(session._id));
+
+    await RefreshToken.updateMany(
+      { _id: { $in: revokedSessionIds } },
+      {
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: reason
+      }
+    );
+
+    return revokedSessionIds;
+  }
+
   // Enhanced logout with session cleanup
   async logout(refreshToken?: string, allDevices: boolean = false, userId?: string): Promise<{ 
     success: boolean;
     message?: string;
+    revokedSessionIds?: string[];
   }> {
     try {
       if (allDevices && userId) {
         // Logout from all devices
-        await RefreshToken.updateMany(
-          { userId, isRevoked: false },
-          { 
-            isRevoked: true, 
-            revokedAt: new Date(),
-            revokedReason: 'User logout (all devices)'
-          }
-        );
+        const revokedSessionIds = await this.revokeSessions({ userId }, 'User logout (all devices)');
         return { 
           success: true, 
-          message: 'Logged out from all devices successfully' 
+          message: 'Logged out from all devices successfully',
+          revokedSessionIds
         };
       } else if (refreshToken) {
         // Logout from current device only
@@ -504,6 +805,135 @@ export class AuthService {
     }
   }
 
+  // Consume an emailed verification token
+  async verifyEmail(token: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!token || typeof token !== 'string') {
+        return { success: false, error: 'Verification token is required' };
+      }
+
+      const user = await User.findOne({
+        verificationToken: hashToken(token),
+        verificationExpires: { $gt: new Date() }
+      });
+
+      if (!user) {
+        return { success: false, error: 'This verification link is invalid or has expired' };
+      }
+
+      user.isVerified = true;
+      user.verificationToken = undefined;
+      user.verificationExpires = undefined;
+      await user.save();
+
+      return { success: true };
+    } catch (error) {
+      console.error('Verify email error:', error);
+      return { success: false, error: 'Email verification failed' };
+    }
+  }
+
+  async resendVerification(userId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const user = await User.findById(userId);
+      if (!user || !user.isActive) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (user.isVerified) {
+        return { success: false, error: 'Your email address is already verified' };
+      }
+
+      await this.sendVerificationEmail(user);
+      return { success: true };
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      return { success: false, error: 'Could not send the verification email' };
+    }
+  }
+
+  // Mail a reset link. The reply is the same whether or not the account exists.
+  async requestPasswordReset(email: string): Promise<{ success: boolean; message?: string; error?: string }> {
+    const message = 'If an account exists for that email, a reset link is on its way';
+
+    try {
+      if (!email || typeof email !== 'string') {
+        return { success: false, error: 'Email is required' };
+      }
+
+      const user = await User.findOne({ email: email.toLowerCase().trim() });
+      if (!user || !user.isActive) {
+        return { success: true, message };
+      }
+
+      const { token, hash, expires } = createEmailToken(PASSWORD_RESET_TTL);
+      user.passwordResetToken = hash;
+      user.passwordResetExpires = expires;
+      await user.save();
+
+      const link = `${APP_URL}/reset-password?token=${token}`;
+      await mailTransport.send({
+        to: user.email,
+        subject: 'Reset your MusicSync password',
+        text: `Hi ${user.username},\n\nSomeone asked to reset the password for your MusicSync account. Choose a new one here:\n${link}\n\nThe link expires in 30 minutes and can be used once. If this wasn't you, you can ignore this email - your password won't change.`,
+        html: `<p>Hi ${user.username},</p><p>Someone asked to reset the password for your MusicSync account.</p><p><a href="${link}">Choose a new password</a></p><p>The link expires in 30 minutes and can be used once. If this wasn't you, you can ignore this email - your password won't change.</p>`
+      });
+
+      return { success: true, message };
+    } catch (error) {
+      // A failure here only happens for real accounts, so it answers like any other request
+      console.error('Password reset request error:', error);
+      return { success: true, message };
+    }
+  }
+
+  // Set a new password from an emailed token and sign the account out everywhere
+  async resetPassword(token: string, newPassword: string): Promise<{
+    success: boolean;
+    error?: string;
+    validationErrors?: string[];
+    userId?: string;
+    revokedSessionIds?: string[];
+  }> {
+    try {
+      if (!token || typeof token !== 'string' || !newPassword) {
+        return { success: false, error: 'Reset token and new password are required' };
+      }
+
+      const passwordValidation = validatePassword(newPassword);
+      if (!passwordValidation.isValid) {
+        return {
+          success: false,
+          error: 'Password does not meet requirements',
+          validationErrors: passwordValidation.errors
+        };
+      }
+
+      const user = await User.findOne({
+        passwordResetToken: hashToken(token),
+        passwordResetExpires: { $gt: new Date() }
+      });
+
+      if (!user || !user.isActive) {
+        return { success: false, error: 'This reset link is invalid or has expired' };
+      }
+
+      user.hashedPassword = newPassword; // Hashed on save
+      user.passwordResetToken = undefined;
+      user.passwordResetExpires = undefined;
+      user.loginAttempts = 0;
+      user.lockUntil = undefined;
+      await user.save();
+
+      const revokedSessionIds = await this.revokeSessions({ userId: user._id }, 'Password change');
+
+      return { success: true, userId: user._id.toString(), revokedSessionIds };
+    } catch (error) {
+      console.error('Password reset error:', error);
+      return { success: false, error: 'Password reset failed. Please try again.' };
+    }
+  }
+
   // Enhanced token verification
   verifyToken(token: string): { 
     success: boolean; 
@@ -556,22 +986,23 @@ export class AuthService {
     }
   }
 
-  // Get user sessions
-  async getUserSessions(userId: string): Promise<any[]> {
+  // Get user sessions, flagging the one the request came from
+  async getUserSessions(userId: string, currentSessionId?: string): Promise<any[]> {
     try {
       const sessions = await RefreshToken.find({
         userId,
         isRevoked: false,
         expiresAt: { $gt: new Date() }
-      }).select('userAgent ipAddress createdAt lastUsed').sort({ createdAt: -1 });
+      }).select('userAgent ipAddress deviceInfo createdAt lastUsed').sort({ lastUsed: -1 });
 
       return sessions.map(session => ({
         id: session._id,
         userAgent: session.userAgent || 'Unknown',
         ipAddress: session.ipAddress || 'Unknown',
+        deviceInfo: session.deviceInfo?.browser ? session.deviceInfo : parseUserAgent(session.userAgent),
         createdAt: session.createdAt,
         lastUsed: session.lastUsed || session.createdAt,
-        isCurrent: false // We'll need to track this separately
+        isCurrent: String(session._id) === currentSessionId
       }));
     } catch (error) {
       console.error('Get user sessions error:', error);
@@ -606,6 +1037,32 @@ export class AuthService {
     }
   }
 
+  // Sign out every device but the current one; returns the ids that were revoked
+  async revokeOtherSessions(userId: string, currentSessionId: string): Promise<{
+    success: boolean;
+    revokedSessionIds?: string[];
+    error?: string;
+  }> {
+    try {
+      const revokedSessionIds = await this.revokeSessions({ userId, _id: { $ne: currentSessionId } }, 'User logout (all devices)');
+
+      return { success: true, revokedSessionIds };
+    } catch (error) {
+      console.error('Revoke other sessions error:', error);
+      return { success: false, error: 'Failed to sign out other sessions' };
+    }
+  }
+
+  // Access tokens outlive a revoked session by up to 30 minutes - this closes that gap.
+  // Tokens issued before sessions were tracked carry no id and are let through.
+  async isSessionActive(sessionId?: string): Promise<boolean> {
+    if (!sessionId) return true;
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) return false;
+
+    const session = await RefreshToken.exists({ _id: sessionId, isRevoked: false, expiresAt: { $gt: new Date() } });
+    return !!session;
+  }
+
   // Enhanced cleanup with better logging
   async cleanupExpiredTokens(): Promise<{ deleted: number; errors: any[] }> {
     try {
@@ -713,11 +1170,20 @@ export const authenticateToken = async (
     return;
   }
 
+  if (!(await authService.isSessionActive(result.user.sid))) {
+    res.status(401).json({
+      error: 'This session has been signed out',
+      code: 'SESSION_REVOKED'
+    });
+    return;
+  }
+
   req.user = {
     id: result.user.id,
     username: result.user.username,
     email: result.user.email,
-    avatar: result.user.avatar
+    avatar: result.user.avatar,
+    sessionId: result.user.sid
   };
   
   next();
@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  username: string;
+  avatar?: string;
+  text: string;
+  createdAt: number;
+}
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+export const MAX_CHAT_HISTORY = parseInt(process.env.CHAT_HISTORY_LIMIT || '100', 10);
+export const MAX_CHAT_MESSAGES_PER_WINDOW = 5;
+const CHAT_RATE_WINDOW = 10 * 1000;
+
+// Strip control characters and surrounding whitespace; null when nothing is left to send
+export const cleanChatText = (text: unknown): string | null => {
+  if (typeof text !== 'string') return null;
+
+  const cleaned = text.replace(/[\u0000-\u0009\u000B-\u001F\u007F]/g, '').trim();
+  return cleaned.length > 0 ? cleaned : null;
+};
+
+export const createChatMessage = (
+  author: { userId: string; username: string; avatar?: string },
+  text: string
+): ChatMessage => ({
+  id: randomUUID(),
+  userId: author.userId,
+  username: author.username,
+  avatar: author.avatar,
+  text,
+  createdAt: Date.now()
+});
+
+// Keep only the most recent messages
+export const appendChatMessage = (history: ChatMessage[], message: ChatMessage): ChatMessage[] => {
+  return [...history, message].slice(-MAX_CHAT_HISTORY);
+};
+
+// Sliding window per user; returns the updated timestamps, or null when over the limit
+export const recordChatSend = (sentAt: number[] | undefined, now: number = Date.now()): number[] | null => {
+  const recent = (sentAt || []).filter(timestamp => now - timestamp < CHAT_RATE_WINDOW);
+  if (recent.length >= MAX_CHAT_MESSAGES_PER_WINDOW) return null;
+  return [...recent, now];
+};
+
+// Convert persisted chat subdocuments back into plain messages
+export const hydrateChatMessages = (stored: any[] | undefined): ChatMessage[] => {
+  if (!Array.isArray(stored)) return [];
+
+  return stored.slice(-MAX_CHAT_HISTORY).map(message => ({
+    id: message.id,
+    userId: message.userId,
+    username: message.username,
+    avatar: message.avatar || undefined,
+    text: message.text,
+    createdAt: new Date(message.createdAt).getTime()
+  }));
+};
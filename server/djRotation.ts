@@ -0,0 +1,98 @@
+import { QueueTrack } from './queue';
+
+export interface RotationDj {
+  userId: string;
+  username: string;
+  avatar?: string;
+}
+
+export interface DjRotationState {
+  enabled: boolean;
+  djs: RotationDj[]; // Turn order
+  currentDjId?: string;
+  turnStartedAt?: number;
+  turnEndsAt?: number; // Pick deadline until a track is chosen, then the end of that track
+  track?: QueueTrack; // This turn's pick - one track per turn
+}
+
+export const MAX_ROTATION_SIZE = 20;
+
+// How long a DJ has to choose a track before the turn passes on
+export const DJ_PICK_TIMEOUT = parseInt(process.env.DJ_PICK_TIMEOUT_SECONDS || '60', 10) * 1000;
+
+// Upper bound on a turn when the track length is unknown or overstated
+export const DJ_MAX_TURN = parseInt(process.env.DJ_MAX_TURN_MINUTES || '15', 10) * 60 * 1000;
+
+// Slack for buffering and ads before a playing track counts as over
+const TRACK_END_GRACE = 30 * 1000;
+
+export const emptyDjRotation = (): DjRotationState => ({ enabled: false, djs: [] });
+
+// "3:45" or "1:02:03" from the search results, in milliseconds
+export const parseTrackDuration = (duration: string | undefined): number | null => {
+  if (!duration || !/^\d+(:\d{1,2}){0,2}$/.test(duration)) return null;
+  const seconds = duration.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return seconds > 0 ? seconds * 1000 : null;
+};
+
+export const joinRotation = (state: DjRotationState, dj: RotationDj): { state: DjRotationState; error?: string } => {
+  if (state.djs.some(existing => existing.userId === dj.userId)) return { state };
+  if (state.djs.length >= MAX_ROTATION_SIZE) {
+    return { state, error: `The rotation is full (max ${MAX_ROTATION_SIZE} DJs)` };
+  }
+  return { state: { ...state, djs: [...state.djs, dj] } };
+};
+
+export const leaveRotation = (state: DjRotationState, userId: string): DjRotationState => {
+  return { ...state, djs: state.djs.filter(dj => dj.userId !== userId) };
+};
+
+// Next DJ in order after the current one, skipping anyone who isn't in the room right now
+export const nextDj = (state: DjRotationState, isPresent: (userId: string) => boolean): RotationDj | undefined => {
+  const start = state.djs.findIndex(dj => dj.userId === state.currentDjId);
+
+  for (let step = 1; step <= state.djs.length; step++) {
+    const candidate = state.djs[(start + step) % state.djs.length];
+    if (isPresent(candidate.userId)) return candidate;
+  }
+  return undefined;
+};
+
+export const startTurn = (state: DjRotationState, dj: RotationDj | undefined, now: number = Date.now()): DjRotationState => {
+  if (!dj) {
+    return { ...state, currentDjId: undefined, turnStartedAt: undefined, turnEndsAt: undefined, track: undefined };
+  }
+  return { ...state, currentDjId: dj.userId, turnStartedAt: now, turnEndsAt: now + DJ_PICK_TIMEOUT, track: undefined };
+};
+
+export const recordPick = (state: DjRotationState, track: QueueTrack, now: number = Date.now()): DjRotationState => {
+  const length = parseTrackDuration(track.duration);
+  const turnLength = length ? Math.min(length + TRACK_END_GRACE, DJ_MAX_TURN) : DJ_MAX_TURN;
+  return { ...state, track, turnEndsAt: now + turnLength };
+};
+
+// Convert the persisted rotation back into plain objects
+export const hydrateDjRotation = (stored: any): DjRotationState => {
+  if (!stored) return emptyDjRotation();
+
+  const toTime = (value: any): number | undefined => value ? new Date(value).getTime() : undefined;
+
+  return {
+    enabled: !!stored.enabled,
+    djs: Array.isArray(stored.djs)
+      ? stored.djs.map((dj: any) => ({ userId: dj.userId, username: dj.username, avatar: dj.avatar || undefined }))
+      : [],
+    currentDjId: stored.currentDjId || undefined,
+    turnStartedAt: toTime(stored.turnStartedAt),
+    turnEndsAt: toTime(stored.turnEndsAt),
+    track: stored.track?.videoId
+      ? {
+          videoId: stored.track.videoId,
+          title: stored.track.title,
+          artist: stored.track.artist,
+          thumbnail: stored.track.thumbnail || '',
+          duration: stored.track.duration || ''
+        }
+      : undefined
+  };
+};
@@ -5,9 +5,94 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import compression from 'compression';
-import { authService, authenticateToken } from './auth';
+import { authService, authenticateToken, authLimiter, loginLimiter } from './auth';
 import { connectDatabase } from './database/connection';
-import { Room } from './models/Room';
+import { Room, IRoom } from './models/Room';
+import { User } from './models/User';
+import {
+  QueueItem,
+  QueueTrack,
+  sanitizeQueueTrack,
+  createQueueItem,
+  addToQueue,
+  removeFromQueue,
+  moveQueueItem,
+  shiftQueue,
+  hydrateQueue
+} from './queue';
+import {
+  SongRequest,
+  createSongRequest,
+  checkRequestLimits,
+  resolveSongRequest,
+  hydrateSongRequests
+} from './requests';
+import {
+  RoomRole,
+  RoomPermission,
+  hasPermission,
+  isAssignableRole,
+  outranks,
+  hydrateMemberRoles
+} from './permissions';
+import {
+  RoomBan,
+  MAX_BAN_DURATION_MINUTES,
+  cleanReason,
+  findActiveBan,
+  addBan,
+  describeBan,
+  hydrateBans
+} from './moderation';
+import { createInviteToken, verifyInviteToken } from './invites';
+import { allocateRoomCode, checkVanityCode } from './roomCodes';
+import {
+  ChatMessage,
+  MAX_CHAT_HISTORY,
+  MAX_CHAT_MESSAGE_LENGTH,
+  cleanChatText,
+  createChatMessage,
+  appendChatMessage,
+  recordChatSend,
+  hydrateChatMessages
+} from './chat';
+import {
+  TrackReactions,
+  isReactionType,
+  recordReactionSend,
+  addReaction,
+  totalReactionCounts,
+  hydrateTrackReactions
+} from './reactions';
+import { RosterEntry, createRosterEntry, sortRoster, isIdle } from './presence';
+import {
+  SkipVoteSettings,
+  SkipVoteTally,
+  mergeSkipVoteSettings,
+  requiredSkipVotes,
+  hydrateSkipVoteSettings
+} from './skipVotes';
+import {
+  DjRotationState,
+  emptyDjRotation,
+  joinRotation,
+  leaveRotation,
+  nextDj,
+  startTurn,
+  recordPick,
+  hydrateDjRotation
+} from './djRotation';
+import { LobbyEntry, MAX_ROOM_CAPACITY, MIN_ROOM_CAPACITY, enqueueLobbyEntry, lobbyPosition } from './lobby';
+import { PLAYBACK_PERSIST_INTERVAL, listenedSeconds, toStoredTrack, hydrateStoredTrack } from './playbackStore';
+import {
+  ReadyBarrier,
+  START_LEAD,
+  createReadyBarrier,
+  markReady,
+  dropFromBarrier,
+  isBarrierComplete,
+  readyBarrierStatus
+} from './readyBarrier';
 import jwt from 'jsonwebtoken';
 import mongoose from 'mongoose';
 
@@ -137,27 +222,103 @@ const io = new Server(server, {
 // Interfaces
 interface Room {
   roomCode: string;
-  hostId: string;
+  hostId: string; // Authenticated user id of the host, stable across reconnects
   hostUser?: { id: string; username: string; avatar?: string };
-  participants: Array<{ socketId: string; userId: string; username: string; avatar?: string }>;
+  participants: RoomParticipant[];
+  awayHost?: RoomParticipant; // Host seat held during the reconnect grace period
+  memberRoles: Record<string, RoomRole>; // Granted roles by user id, excluding the owner
   currentTrack?: PlaybackState | undefined;
+  playbackVersion: number; // Version of the latest currentTrack
+  trackInfo?: QueueTrack; // Metadata for currentTrack, when the loader sent it
+  trackCounted: boolean; // Whether currentTrack has counted towards stats.totalSongs
+  pendingStats: { songs: number; seconds: number }; // Not yet written to stats.totalSongs/totalTime
   createdAt: number;
   lastActivity: number;
   isPrivate: boolean;
-  password?: string;
+  requiresPassword: boolean; // Private room with a password set
+  queue: QueueItem[];
+  requests: SongRequest[];
+  bans: RoomBan[];
+  muted: Set<string>; // User ids barred from chat, reactions and song requests this session
+  lobby: LobbyEntry[]; // Newcomers waiting to be let in, oldest first
+  admitted: Set<string>; // User ids let through the lobby this session
+  seated: Set<string>; // User ids that have held a seat this session, connected or not
+  chat: ChatMessage[];
+  chatRate: Map<string, number[]>; // Recent send times by user id
+  trackReactions: TrackReactions[];
+  reactionRate: Map<string, number[]>; // Recent reaction times by user id
+  skipVotes?: { videoId: string; voters: Set<string> }; // Votes against the current track
+  djRotation: DjRotationState;
+  readyBarrier?: ReadyBarrier; // Track change held until everyone has buffered
+  settings: RoomSettings;
+}
+
+interface RoomParticipant {
+  socketId: string;
+  userId: string;
+  username: string;
+  avatar?: string;
+  role: RoomRole;
+  joinedAt: number;
+  showOnlineStatus: boolean; // From the user's privacy preferences when they joined
+}
+
+interface RoomSettings {
+  allowParticipantRequests: boolean;
+  maxParticipants: number;
+  autoPlay: boolean;
+  lobbyEnabled: boolean;
+  skipVoting: SkipVoteSettings;
 }
 
 interface PlaybackState {
   videoId: string;
   currentTime: number;
   isPlaying: boolean;
-  timestamp: number;
+  timestamp: number; // Server clock (ms) - clients convert via their estimated clock offset
+  playbackRate: number; // Seconds of track per second of wall clock
+  pauseAt?: number; // Server time of a scheduled pause; playback continues until then
+  updatedBy?: string; // User id of whoever issued the change
+  version: number; // Per-room, increases with every change so clients can drop stale updates
+}
+
+// YouTube's supported range; anything else falls back to the room's current rate
+const MIN_PLAYBACK_RATE = 0.25;
+const MAX_PLAYBACK_RATE = 2;
+
+function readPlaybackRate(rate: unknown, fallback: number): number {
+  if (typeof rate !== 'number' || !Number.isFinite(rate)) return fallback;
+  return Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+}
+
+// Scheduled play/pause commands can be set up to this far ahead
+const MAX_SCHEDULE_AHEAD = 60 * 60 * 1000;
+
+// undefined means "right away"; null means the time is too far out to accept
+function readScheduleTime(at: unknown, now: number): number | null | undefined {
+  if (typeof at !== 'number' || !Number.isFinite(at) || at <= now) return undefined;
+  return at - now > MAX_SCHEDULE_AHEAD ? null : at;
 }
 
 // Data storage
 const rooms = new Map<string, Room>();
 const userRooms = new Map<string, string>();
 const userLastActivity = new Map<string, number>();
+const hostGraceTimers = new Map<string, NodeJS.Timeout>();
+const reactionFlushTimers = new Map<string, NodeJS.Timeout>();
+const djTurnTimers = new Map<string, NodeJS.Timeout>();
+const readyBarrierTimers = new Map<string, NodeJS.Timeout>();
+const scheduledPauseTimers = new Map<string, NodeJS.Timeout>();
+const playbackPersistTimers = new Map<string, NodeJS.Timeout>();
+const rosterSnapshots = new Map<string, string>(); // Last roster sent per room, to skip no-op presence updates
+
+// Reactions arrive in bursts - aggregate in memory and write them out at most this often
+const REACTION_FLUSH_INTERVAL = 5000;
+
+// How long a disconnected host keeps the room before it is handed to someone else
+const HOST_RECONNECT_GRACE_PERIOD = parseInt(process.env.HOST_RECONNECT_GRACE_MS || '30000', 10);
+
+const MUTED_ERROR = 'A moderator has muted you in this room';
 
 // Utility functions
 const logProduction = (level: 'info' | 'error' | 'warn', message: string, data?: any): void => {
@@ -194,6 +355,41 @@ const validateRoomCode = (roomCode: string): boolean => {
          /^[A-Z0-9]+$/.test(roomCode);
 };
 
+const validateRoomPassword = (password: unknown): boolean => {
+  return typeof password === 'string' && password.length >= 4 && password.length <= 128;
+};
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  return (error as { code?: number })?.code === 11000;
+};
+
+// Rooms nobody came back to for 30 minutes give their code up
+const ROOM_CODE_RELEASE_AFTER = 30 * 60 * 1000;
+
+// A code is free when neither a live session nor a recently active database room holds it
+async function isRoomCodeTaken(roomCode: string): Promise<boolean> {
+  if (rooms.has(roomCode)) return true;
+
+  const dbRoom = await Room.findOne({ roomCode }).select('lastActivity');
+  if (!dbRoom) return false;
+
+  return Date.now() - new Date(dbRoom.lastActivity).getTime() <= ROOM_CODE_RELEASE_AFTER;
+}
+
+// Clear a released code's old database room so the new room can take it; the activity
+// filter keeps a room that came back to life since the check
+async function reclaimRoomCode(roomCode: string): Promise<void> {
+  if (rooms.has(roomCode)) return;
+
+  const result = await Room.deleteOne({
+    roomCode,
+    lastActivity: { $lt: new Date(Date.now() - ROOM_CODE_RELEASE_AFTER) }
+  });
+  if (result.deletedCount > 0) {
+    logProduction('info', `🧹 Cleaned up stale database room: ${roomCode}`);
+  }
+}
+
 const updateRoomActivity = (roomCode: string): void => {
   const room = rooms.get(roomCode);
   if (room) {
@@ -202,428 +398,2433 @@ const updateRoomActivity = (roomCode: string): void => {
 };
 
 // Helper functions
+function readRoomSettings(dbRoom: IRoom): RoomSettings {
+  return {
+    allowParticipantRequests: dbRoom.settings?.allowParticipantRequests ?? true,
+    maxParticipants: dbRoom.settings?.maxParticipants ?? 50,
+    autoPlay: dbRoom.settings?.autoPlay ?? true,
+    lobbyEnabled: dbRoom.settings?.lobbyEnabled ?? false,
+    skipVoting: hydrateSkipVoteSettings(dbRoom.settings?.skipVoting)
+  };
+}
+
+// Build the in-memory session for a room loaded from the database
+function hydrateMemoryRoom(dbRoom: IRoom): Room {
+  const stored = hydrateStoredTrack(dbRoom.currentTrack);
+
+  return {
+    roomCode: dbRoom.roomCode,
+    hostId: dbRoom.hostId,
+    hostUser: dbRoom.hostUser,
+    participants: [],
+    memberRoles: hydrateMemberRoles(dbRoom.memberRoles),
+    createdAt: new Date(dbRoom.createdAt).getTime(),
+    lastActivity: Date.now(),
+    isPrivate: dbRoom.isPrivate,
+    requiresPassword: dbRoom.requiresPassword(),
+    // Picks up where the last write left it - a playing track carries on through the downtime
+    currentTrack: stored ? { ...stored.state, version: 1 } : undefined,
+    playbackVersion: stored ? 1 : 0,
+    trackInfo: stored?.info,
+    trackCounted: !!stored,
+    pendingStats: { songs: 0, seconds: 0 },
+    queue: hydrateQueue(dbRoom.queue),
+    requests: hydrateSongRequests(dbRoom.requests),
+    bans: hydrateBans(dbRoom.bans),
+    muted: new Set(),
+    lobby: [],
+    admitted: new Set(),
+    seated: new Set(),
+    chat: hydrateChatMessages(dbRoom.chat),
+    chatRate: new Map(),
+    trackReactions: hydrateTrackReactions(dbRoom.stats?.trackReactions),
+    reactionRate: new Map(),
+    djRotation: hydrateDjRotation(dbRoom.djRotation),
+    settings: readRoomSettings(dbRoom)
+  };
+}
+
+// Members skip the password when they rejoin after a refresh or reconnect. A dropped
+// connection takes them off the participant lists, so the memory room remembers who was seated.
+function isRoomMember(dbRoom: IRoom, userId: string): boolean {
+  const room = rooms.get(dbRoom.roomCode);
+  return dbRoom.hostId === userId
+    || dbRoom.participants.some(p => p.userId === userId)
+    || !!room?.participants.some(p => p.userId === userId)
+    || !!room?.seated.has(userId);
+}
+
+function getRoleFor(room: Room, userId: string): RoomRole {
+  if (room.hostId === userId) return 'owner';
+  return room.memberRoles[userId] || 'listener';
+}
+
+const PERMISSION_ERRORS: Record<RoomPermission, string> = {
+  playback: 'You are not allowed to control playback',
+  queue: 'You are not allowed to manage the queue',
+  requests: 'You are not allowed to review requests',
+  moderate: 'You are not allowed to moderate this room',
+  settings: 'Only the room owner can change settings',
+  roles: 'Only the room owner can change roles'
+};
+
+// Central permission check - resolves the caller's room and participant entry
+function authorizeRoomAction(
+  socketId: string,
+  permission: RoomPermission
+): { roomCode: string; room: Room; participant: RoomParticipant } | { error: string } {
+  const roomCode = userRooms.get(socketId);
+  if (!roomCode) {
+    return { error: 'Not in a room' };
+  }
+
+  const room = rooms.get(roomCode);
+  if (!room) {
+    return { error: 'Room not found' };
+  }
+
+  const participant = room.participants.find(p => p.socketId === socketId);
+  if (!participant) {
+    return { error: PERMISSION_ERRORS[permission] };
+  }
+
+  // The DJ whose turn it is borrows playback control on top of their role
+  const allowed = hasPermission(participant.role, permission) ||
+    (permission === 'playback' && isCurrentDj(room, participant.userId));
+  if (!allowed) {
+    return { error: PERMISSION_ERRORS[permission] };
+  }
+
+  return { roomCode, room, participant };
+}
+
 function handleSyncEvent(socketId: string, data: any, isPlaying: boolean): void {
   try {
-    const roomCode = userRooms.get(socketId);
-    if (!roomCode) {
-      logProduction('warn', 'Sync event: User not in room');
+    const context = authorizeRoomAction(socketId, 'playback');
+    if ('error' in context) {
+      logProduction('warn', `Sync event rejected: ${context.error}`);
       return;
     }
 
-    const room = rooms.get(roomCode);
-    if (!room) {
-      logProduction('warn', 'Sync event: Room not found');
+    const { roomCode, room, participant } = context;
+
+    if (!data.videoId || typeof data.currentTime !== 'number') {
+      logProduction('warn', 'Invalid sync data received:', data);
       return;
     }
-    
-    if (room.hostId !== socketId) {
-      logProduction('warn', 'Sync event: Not authorized - not host');
+
+    // Borrowed DJ rights only cover the track picked this turn
+    if (!hasPermission(participant.role, 'playback') && data.videoId !== room.djRotation.track?.videoId) {
+      logProduction('warn', `Sync event rejected: ${participant.username} is not playing their own pick`);
       return;
     }
 
-    if (!data.videoId || typeof data.currentTime !== 'number') {
-      logProduction('warn', 'Invalid sync data received:', data);
+    const now = Date.now();
+    const at = readScheduleTime(data.at, now);
+    if (at === null) {
+      logProduction('warn', `Sync event rejected: scheduled more than ${MAX_SCHEDULE_AHEAD / 60000} minutes ahead`);
       return;
     }
 
-    const now = Date.now();
-    const playbackState: PlaybackState = {
+    const playbackState: Omit<PlaybackState, 'version'> = {
       videoId: data.videoId,
       currentTime: Math.max(0, data.currentTime),
       isPlaying,
-      timestamp: now
+      timestamp: now,
+      // Events without a rate keep whatever the room is already playing at
+      playbackRate: readPlaybackRate(data.playbackRate, room.currentTrack?.playbackRate ?? 1),
+      updatedBy: participant.userId
     };
 
-    room.currentTrack = playbackState;
+    // "Play at T" parks everyone at currentTime and starts at T; "pause at T" keeps
+    // playing until then. Pausing a room that is already paused just happens now.
+    if (at !== undefined) {
+      if (isPlaying) {
+        playbackState.timestamp = at;
+      } else if (room.currentTrack?.isPlaying && room.currentTrack.videoId === playbackState.videoId) {
+        playbackState.isPlaying = true;
+        playbackState.pauseAt = at;
+      }
+    }
+    clearScheduledPause(roomCode);
+
+    // An explicit play, pause or seek overrides a start that is still waiting on buffers
+    if (room.readyBarrier) {
+      cancelReadyBarrier(roomCode, room);
+    }
+
+    const trackChanged = room.currentTrack?.videoId !== playbackState.videoId;
+    const committed = commitPlaybackState(room, playbackState);
     updateRoomActivity(roomCode);
 
-    logProduction('info', `✅ Host sync: ${isPlaying ? 'PLAY' : 'PAUSE'} ${data.videoId} at ${data.currentTime.toFixed(1)}s to ${room.participants.length - 1} participants`);
+    const schedule = at !== undefined ? ` scheduled in ${((at - now) / 1000).toFixed(1)}s` : '';
+    logProduction('info', `✅ ${participant.role} sync v${committed.version}: ${isPlaying ? 'PLAY' : 'PAUSE'} ${data.videoId} at ${data.currentTime.toFixed(1)}s (${committed.playbackRate}x)${schedule} to ${room.participants.length - 1} participants`);
 
     // Broadcast immediately to participants
-    io.to(roomCode).emit('playback-sync', playbackState);
+    io.to(roomCode).emit('playback-sync', committed);
+
+    if (committed.pauseAt !== undefined) {
+      schedulePause(roomCode, committed);
+    }
+
+    // Votes belong to a single track - a new one starts from zero
+    if (trackChanged && room.settings.skipVoting.enabled) {
+      io.to(roomCode).emit('skip-votes-updated', { roomCode, tally: currentSkipTally(room) });
+    }
     
   } catch (error) {
     logProduction('error', 'handleSyncEvent error:', error);
   }
 }
 
-function leaveRoom(socketId: string, roomCode: string): void {
-  const room = rooms.get(roomCode);
-  if (!room) return;
+// Settle a scheduled pause once its time has come: everyone stops where the track was at pauseAt
+function schedulePause(roomCode: string, state: PlaybackState): void {
+  const timer = setTimeout(() => {
+    scheduledPauseTimers.delete(roomCode);
 
-  // Fix: Filter by comparing socketId property of participant objects
-  room.participants = room.participants.filter(participant => participant.socketId !== socketId);
-  updateRoomActivity(roomCode);
+    const room = rooms.get(roomCode);
+    // Replaced by a newer command in the meantime
+    if (!room || room.currentTrack !== state) return;
 
-  io.to(roomCode).emit('user-left', {
-    userId: socketId,
-    roomCode,
-    participantCount: room.participants.length
+    const paused = commitPlaybackState(room, projectPlaybackState(state, Date.now()));
+    io.to(roomCode).emit('playback-sync', paused);
+    logProduction('info', `⏸️ Scheduled pause reached in room ${roomCode} at ${paused.currentTime.toFixed(1)}s`);
+  }, Math.max(0, (state.pauseAt ?? 0) - Date.now()));
+
+  scheduledPauseTimers.set(roomCode, timer);
+}
+
+function clearScheduledPause(roomCode: string): void {
+  const timer = scheduledPauseTimers.get(roomCode);
+  if (!timer) return;
+
+  clearTimeout(timer);
+  scheduledPauseTimers.delete(roomCode);
+}
+
+// Every change to the room's playback state gets the next version, so clients can
+// tell a stale or repeated update from a missed one. Also keeps the listening stats
+// and schedules a write so a restart resumes the same song.
+function commitPlaybackState(room: Room, state: Omit<PlaybackState, 'version'>): PlaybackState {
+  const now = Date.now();
+  const previous = room.currentTrack;
+
+  if (previous) {
+    room.pendingStats.seconds += listenedSeconds(previous, now);
+  }
+
+  // A new track counts as a song once it actually starts playing
+  if (state.videoId !== previous?.videoId) {
+    room.trackCounted = false;
+    if (room.trackInfo?.videoId !== state.videoId) room.trackInfo = undefined;
+  }
+  if (state.isPlaying && !room.trackCounted) {
+    room.trackCounted = true;
+    room.pendingStats.songs += 1;
+  }
+
+  room.playbackVersion += 1;
+  room.currentTrack = { ...state, version: room.playbackVersion };
+  schedulePlaybackPersist(room.roomCode);
+  return room.currentTrack;
+}
+
+function schedulePlaybackPersist(roomCode: string): void {
+  if (playbackPersistTimers.has(roomCode)) return;
+
+  const timer = setTimeout(() => {
+    playbackPersistTimers.delete(roomCode);
+
+    const room = rooms.get(roomCode);
+    if (room) persistPlayback(roomCode, room);
+  }, PLAYBACK_PERSIST_INTERVAL);
+
+  playbackPersistTimers.set(roomCode, timer);
+}
+
+// Write the current track and the stats gathered since the last write
+function persistPlayback(roomCode: string, room: Room): Promise<void> {
+  const timer = playbackPersistTimers.get(roomCode);
+  if (timer) {
+    clearTimeout(timer);
+    playbackPersistTimers.delete(roomCode);
+  }
+
+  const seconds = Math.floor(room.pendingStats.seconds);
+  const songs = room.pendingStats.songs;
+  room.pendingStats = { songs: 0, seconds: room.pendingStats.seconds - seconds };
+
+  const update: Record<string, any> = { $inc: { 'stats.totalSongs': songs, 'stats.totalTime': seconds } };
+  if (room.currentTrack) {
+    update.$set = { currentTrack: toStoredTrack(room.currentTrack, room.trackInfo) };
+  }
+
+  return Room.updateOne({ roomCode }, update).then(() => undefined, error => {
+    logProduction('error', `Failed to persist playback for room ${roomCode}:`, error);
   });
+}
 
-  if (room.hostId === socketId) {
-    if (room.participants.length > 0) {
-      // Fix: Use socketId property of the first participant
-      room.hostId = room.participants[0].socketId;
-      io.to(roomCode).emit('host-changed', {
-        newHostId: room.hostId,
-        roomCode
-      });
-      logProduction('info', `Host transferred in room ${roomCode}`);
-    } else {
-      // Clean up both memory and database
-      rooms.delete(roomCode);
-      
-      // Clean up database room async (don't wait for it)
-      Room.deleteOne({ roomCode }).catch(error => {
-        logProduction('error', `Failed to delete room ${roomCode} from database:`, error);
-      });
-      
-      logProduction('info', `Room deleted: ${roomCode}`);
-    }
-  } else if (room.participants.length === 0) {
-    // Clean up empty room
-    rooms.delete(roomCode);
-    
-    // Clean up database room async
-    Room.deleteOne({ roomCode }).catch(error => {
-      logProduction('error', `Failed to delete empty room ${roomCode} from database:`, error);
-    });
-    
-    logProduction('info', `Empty room deleted: ${roomCode}`);
+// Write whatever is still waiting on a throttle timer before the process exits
+const flushPlayback = () => Promise.all([...rooms].map(([roomCode, room]) => persistPlayback(roomCode, room)));
+
+// Join/restore acks: playback and the queue only live in memory between writes, so the
+// database copy is overlaid with the live state - projected to now for late joiners
+function liveRoomData(dbRoom: IRoom, room: Room) {
+  return {
+    ...dbRoom.toObject(),
+    hostId: room.hostId,
+    currentTrack: room.currentTrack ? projectPlaybackState(room.currentTrack, Date.now()) : null,
+    playbackVersion: room.playbackVersion,
+    queue: room.queue
+  };
+}
+
+// Extrapolate a stored playback state to the given server time
+function projectPlaybackState(state: PlaybackState, now: number): PlaybackState {
+  // A scheduled start hasn't happened yet - pass it on so clients wait for it too
+  if (state.timestamp > now) return state;
+
+  // Past a scheduled pause the track stands still where it was at pauseAt
+  const { pauseAt, ...rest } = state;
+  if (pauseAt !== undefined && state.isPlaying && pauseAt <= now) {
+    return {
+      ...rest,
+      currentTime: state.currentTime + Math.max(0, (pauseAt - state.timestamp) / 1000) * state.playbackRate,
+      isPlaying: false,
+      timestamp: now
+    };
   }
 
-  userRooms.delete(socketId);
+  const elapsed = state.isPlaying ? Math.max(0, (now - state.timestamp) / 1000) * state.playbackRate : 0;
+  return {
+    ...state,
+    currentTime: state.currentTime + elapsed,
+    timestamp: now
+  };
 }
 
-// Cleanup inactive rooms
-setInterval(async () => {
+// Apply a queue change in memory, persist it and broadcast it to the room
+function commitQueue(roomCode: string, room: Room, queue: QueueItem[]): void {
+  room.queue = queue;
+  updateRoomActivity(roomCode);
+
+  io.to(roomCode).emit('queue-updated', { roomCode, queue });
+
+  Room.updateOne({ roomCode }, { queue, lastActivity: new Date() }).catch(error => {
+    logProduction('error', `Failed to persist queue for room ${roomCode}:`, error);
+  });
+}
+
+// Load the next queued track for everyone in the room
+function advanceQueue(roomCode: string, room: Room): QueueItem | undefined {
+  const { queue, next } = shiftQueue(room.queue);
+  if (!next) return undefined;
+
   const now = Date.now();
-  const inactivityTimeout = 2 * 60 * 60 * 1000; // 2 hours
-  const emptyRoomTimeout = 30 * 60 * 1000; // 30 minutes
+  room.trackInfo = next;
+  const { version } = commitPlaybackState(room, {
+    videoId: next.videoId,
+    currentTime: 0,
+    isPlaying: false,
+    timestamp: now,
+    playbackRate: room.currentTrack?.playbackRate ?? 1
+  });
 
-  // Clean up memory rooms
-  for (const [roomCode, room] of rooms.entries()) {
-    const shouldDelete = 
-      (room.participants.length === 0 && now - room.lastActivity > emptyRoomTimeout) ||
-      (now - room.lastActivity > inactivityTimeout);
+  commitQueue(roomCode, room, queue);
 
-    if (shouldDelete) {
-      rooms.delete(roomCode);
-      logProduction('info', `🧹 Cleaned up memory room: ${roomCode}`);
-    }
+  const readyBy = startReadyBarrier(roomCode, room, next.videoId);
+  io.to(roomCode).emit('video-load-sync', {
+    videoId: next.videoId,
+    track: next,
+    timestamp: now,
+    readyBy,
+    version
+  });
+  io.to(roomCode).emit('skip-votes-updated', { roomCode, tally: currentSkipTally(room) });
+
+  logProduction('info', `⏭️ Room ${roomCode} advanced to ${next.videoId} (${queue.length} left in queue)`);
+  return next;
+}
+
+// Playback-holders see who is still buffering; null once the track has started
+function emitReadyBarrier(roomCode: string, room: Room): void {
+  const status = room.readyBarrier ? readyBarrierStatus(room.readyBarrier, room.participants) : null;
+
+  room.participants
+    .filter(p => hasPermission(p.role, 'playback') || isCurrentDj(room, p.userId))
+    .forEach(p => io.to(p.socketId).emit('ready-barrier-updated', { roomCode, barrier: status }));
+}
+
+function clearReadyBarrierTimer(roomCode: string): void {
+  const timer = readyBarrierTimers.get(roomCode);
+  if (!timer) return;
+
+  clearTimeout(timer);
+  readyBarrierTimers.delete(roomCode);
+}
+
+// Everyone cues the new track and reports back once it has buffered; the track
+// starts when the last player is ready or the timeout leaves stragglers behind.
+// Returns the deadline so clients know a scheduled start is coming.
+function startReadyBarrier(roomCode: string, room: Room, videoId: string): number {
+  clearReadyBarrierTimer(roomCode);
+
+  const barrier = createReadyBarrier(videoId, room.participants.map(p => p.userId));
+  room.readyBarrier = barrier;
+
+  const timer = setTimeout(() => {
+    readyBarrierTimers.delete(roomCode);
+
+    const current = rooms.get(roomCode);
+    if (!current || current.readyBarrier?.startedAt !== barrier.startedAt) return;
+    releaseReadyBarrier(roomCode, current);
+  }, barrier.deadline - barrier.startedAt);
+  readyBarrierTimers.set(roomCode, timer);
+
+  emitReadyBarrier(roomCode, room);
+  logProduction('info', `⏳ Room ${roomCode} waiting for ${barrier.waiting.length} players to buffer ${videoId}`);
+  return barrier.deadline;
+}
+
+// Schedule the start slightly ahead in server time so every player begins together
+function releaseReadyBarrier(roomCode: string, room: Room): void {
+  const barrier = room.readyBarrier;
+  if (!barrier) return;
+
+  clearReadyBarrierTimer(roomCode);
+  room.readyBarrier = undefined;
+
+  const startAt = Date.now() + START_LEAD;
+  const state = commitPlaybackState(room, {
+    videoId: barrier.videoId,
+    currentTime: 0,
+    isPlaying: true,
+    timestamp: startAt,
+    playbackRate: room.currentTrack?.playbackRate ?? 1
+  });
+  updateRoomActivity(roomCode);
+
+  io.to(roomCode).emit('playback-sync', state);
+  emitReadyBarrier(roomCode, room);
+
+  if (barrier.waiting.length > 0) {
+    logProduction('warn', `⌛ Room ${roomCode} started ${barrier.videoId} without ${barrier.waiting.length} buffering players`);
+  } else {
+    logProduction('info', `🚦 Room ${roomCode} starting ${barrier.videoId} in ${START_LEAD}ms`);
   }
+}
 
-  // Clean up stale database rooms
-  try {
-    const cutoffTime = new Date(now - inactivityTimeout);
-    const result = await Room.deleteMany({
-      lastActivity: { $lt: cutoffTime }
+function cancelReadyBarrier(roomCode: string, room: Room): void {
+  clearReadyBarrierTimer(roomCode);
+  room.readyBarrier = undefined;
+  emitReadyBarrier(roomCode, room);
+}
+
+// Idle listeners don't count towards the skip threshold, so an away host can't block a vote
+function currentSkipTally(room: Room, now: number = Date.now()): SkipVoteTally | null {
+  if (!room.settings.skipVoting.enabled || !room.currentTrack) return null;
+
+  const videoId = room.currentTrack.videoId;
+  const voters = room.skipVotes?.videoId === videoId
+    ? [...room.skipVotes.voters].filter(userId => room.participants.some(p => p.userId === userId))
+    : [];
+  const present = room.participants.filter(p => !isIdle(userLastActivity.get(p.socketId), now)).length;
+
+  return {
+    videoId,
+    votes: voters.length,
+    required: requiredSkipVotes(room.settings.skipVoting, Math.max(present, voters.length)),
+    voters
+  };
+}
+
+// Broadcast the live tally and move on once the room has voted the track out
+function evaluateSkipVotes(roomCode: string, room: Room): void {
+  const tally = currentSkipTally(room);
+  io.to(roomCode).emit('skip-votes-updated', { roomCode, tally });
+  if (!tally || tally.votes === 0 || tally.votes < tally.required) return;
+
+  room.skipVotes = undefined;
+  logProduction('info', `🗳️ Room ${roomCode} voted to skip ${tally.videoId} (${tally.votes}/${tally.required})`);
+  io.to(roomCode).emit('skip-vote-passed', { roomCode, videoId: tally.videoId, votes: tally.votes });
+
+  // In a DJ rotation the vote ends the turn; the next DJ picks what comes after
+  const rotating = room.djRotation.enabled;
+  if (rotating && room.djRotation.currentDjId) {
+    advanceDjTurn(roomCode, room);
+  }
+
+  if ((rotating || !advanceQueue(roomCode, room)) && room.currentTrack) {
+    // Nothing queued to skip to - stop the track instead
+    const state = commitPlaybackState(room, {
+      ...projectPlaybackState(room.currentTrack, Date.now()),
+      isPlaying: false,
+      pauseAt: undefined,
+      updatedBy: undefined
     });
-    
-    if (result.deletedCount > 0) {
-      logProduction('info', `🧹 Cleaned up ${result.deletedCount} stale database rooms`);
-    }
-  } catch (error) {
-    logProduction('error', 'Database cleanup error:', error);
+    io.to(roomCode).emit('playback-sync', state);
   }
-}, 10 * 60 * 1000); // Check every 10 minutes
 
-// Socket connection handling
-io.on('connection', (socket) => {
-  userLastActivity.set(socket.id, Date.now());
-  logProduction('info', `👤 User connected: ${socket.id}`);
+  io.to(roomCode).emit('skip-votes-updated', { roomCode, tally: currentSkipTally(room) });
+}
 
-  // Activity tracking middleware
-  socket.use((_, next) => {
-    userLastActivity.set(socket.id, Date.now());
-    next();
+function isCurrentDj(room: Room, userId: string): boolean {
+  return room.djRotation.enabled && room.djRotation.currentDjId === userId;
+}
+
+function clearDjTurnTimer(roomCode: string): void {
+  const timer = djTurnTimers.get(roomCode);
+  if (!timer) return;
+
+  clearTimeout(timer);
+  djTurnTimers.delete(roomCode);
+}
+
+// Pass the turn on when the DJ doesn't pick in time, or their track should be over
+function scheduleDjTurnTimeout(roomCode: string, room: Room): void {
+  clearDjTurnTimer(roomCode);
+
+  const { enabled, currentDjId, turnEndsAt } = room.djRotation;
+  if (!enabled || !currentDjId || !turnEndsAt) return;
+
+  const timer = setTimeout(() => {
+    djTurnTimers.delete(roomCode);
+
+    const current = rooms.get(roomCode);
+    if (!current || current.djRotation.currentDjId !== currentDjId) return;
+
+    logProduction('info', `⏱️ DJ turn for ${currentDjId} timed out in room ${roomCode}`);
+    advanceDjTurn(roomCode, current);
+  }, Math.max(0, turnEndsAt - Date.now()));
+
+  djTurnTimers.set(roomCode, timer);
+}
+
+// Apply a rotation change, broadcast and persist it, and re-arm the turn timer
+function commitDjRotation(roomCode: string, room: Room, rotation: DjRotationState): void {
+  room.djRotation = rotation;
+  updateRoomActivity(roomCode);
+  scheduleDjTurnTimeout(roomCode, room);
+
+  io.to(roomCode).emit('dj-rotation-updated', { roomCode, rotation });
+
+  Room.updateOne({ roomCode }, { djRotation: rotation }).catch(error => {
+    logProduction('error', `Failed to persist DJ rotation for room ${roomCode}:`, error);
   });
+}
 
-  // Room restoration handler for reconnections
-  socket.on('restore-room', async (data, callback) => {
-    try {
-      const { roomCode } = data;
-      const user = socket.data.user;
+// Hand the decks to the next DJ who is in the room; skip excludes someone on their way out
+function advanceDjTurn(roomCode: string, room: Room, skip?: string): void {
+  const isPresent = (userId: string) => userId !== skip && room.participants.some(p => p.userId === userId);
+  const next = nextDj(room.djRotation, isPresent);
+  commitDjRotation(roomCode, room, startTurn(room.djRotation, next));
 
-      if (!validateRoomCode(roomCode)) {
-        callback({ success: false, error: 'Invalid room code format' });
-        return;
-      }
+  logProduction('info', next
+    ? `🎧 ${next.username} is up next in room ${roomCode}`
+    : `🎧 No DJs available in room ${roomCode} - rotation is waiting`);
+}
 
-      const dbRoom = await Room.findOne({ roomCode });
-      if (!dbRoom) {
-        callback({ success: false, error: 'Room not found' });
-        return;
-      }
+// Start the rotation again once a DJ is around and nobody holds the turn
+function resumeDjRotation(roomCode: string, room: Room): void {
+  const { enabled, currentDjId, djs } = room.djRotation;
+  if (!enabled || currentDjId || djs.length === 0) return;
+  if (!djs.some(dj => room.participants.some(p => p.userId === dj.userId))) return;
 
-      // Restore room to memory if not present
-      let memoryRoom = rooms.get(roomCode);
-      if (!memoryRoom) {
-        memoryRoom = {
-          roomCode,
-          hostId: dbRoom.hostId,
-          hostUser: dbRoom.hostUser,
-          participants: [],
-          createdAt: new Date(dbRoom.createdAt).getTime(),
-          lastActivity: Date.now(),
-          isPrivate: dbRoom.isPrivate,
-          password: dbRoom.password,
-          currentTrack: undefined
-        };
-        rooms.set(roomCode, memoryRoom);
-        logProduction('info', `🔄 Restored room ${roomCode} to memory from database`);
-      }
+  advanceDjTurn(roomCode, room);
+}
 
-      // Update user's participation
-      const existingParticipant = memoryRoom.participants.find(p => p.userId === user.id);
-      if (!existingParticipant) {
-        memoryRoom.participants.push({
-          socketId: socket.id,
-          userId: user.id,
-          username: user.username,
-          avatar: user.avatar
-        });
-      } else {
-        // Update socket ID for existing participant
-        existingParticipant.socketId = socket.id;
-      }
+// Reviewers also see the pending inbox, everyone sees their own requests
+function getVisibleRequests(room: Room, participant: RoomParticipant): SongRequest[] {
+  if (hasPermission(participant.role, 'requests')) {
+    return room.requests.filter(request =>
+      request.status === 'pending' || request.requestedBy.userId === participant.userId
+    );
+  }
+  return room.requests.filter(request => request.requestedBy.userId === participant.userId);
+}
 
-      userRooms.set(socket.id, roomCode);
-      socket.join(roomCode);
-      memoryRoom.lastActivity = Date.now();
+function emitRequestsTo(roomCode: string, room: Room, participant: RoomParticipant): void {
+  io.to(participant.socketId).emit('requests-updated', {
+    roomCode,
+    requests: getVisibleRequests(room, participant)
+  });
+}
 
-      logProduction('info', `🔄 ${user.username} restored connection to room: ${roomCode}`);
-      callback({ 
-        success: true, 
-        room: { 
-          ...dbRoom.toObject(), 
-          password: undefined,
-          currentTrack: memoryRoom.currentTrack 
-        } 
-      });
+// Apply a request change in memory, persist it and push each participant their view
+function commitRequests(roomCode: string, room: Room, requests: SongRequest[]): void {
+  room.requests = requests;
+  updateRoomActivity(roomCode);
+
+  room.participants.forEach(participant => emitRequestsTo(roomCode, room, participant));
+
+  Room.updateOne({ roomCode }, { requests, lastActivity: new Date() }).catch(error => {
+    logProduction('error', `Failed to persist requests for room ${roomCode}:`, error);
+  });
+}
+
+// Tell the requester their request was approved or rejected
+function notifyRequester(roomCode: string, room: Room, request: SongRequest): void {
+  const requester = room.participants.find(p => p.userId === request.requestedBy.userId);
+  if (requester) {
+    io.to(requester.socketId).emit('request-status', { roomCode, request });
+  }
+}
+
+// Broadcast everyone's role so clients can gate controls and render role badges
+function emitRoles(roomCode: string, room: Room): void {
+  io.to(roomCode).emit('roles-updated', {
+    roomCode,
+    members: room.participants.map(p => ({
+      userId: p.userId,
+      username: p.username,
+      avatar: p.avatar,
+      role: p.role
+    }))
+  });
+}
+
+// Respect the privacy preference; anyone we can't look up is shown as usual
+async function loadShowOnlineStatus(userId: string): Promise<boolean> {
+  try {
+    const account = await User.findById(userId).select('preferences.privacy.showOnlineStatus');
+    return account?.preferences?.privacy?.showOnlineStatus !== false;
+  } catch (error) {
+    logProduction('warn', `Could not load privacy preferences for ${userId}:`, error);
+    return true;
+  }
+}
+
+// A host back from the grace period keeps their original place in the list
+function rejoinTime(room: Room, userId: string): number {
+  return room.awayHost?.userId === userId ? room.awayHost.joinedAt : Date.now();
+}
+
+function buildRoster(room: Room, now: number = Date.now()): RosterEntry[] {
+  const roster = room.participants.map(p => createRosterEntry(p, 'connected', userLastActivity.get(p.socketId), now));
+
+  const awayHost = room.awayHost;
+  if (awayHost && !room.participants.some(p => p.userId === awayHost.userId)) {
+    roster.push(createRosterEntry(awayHost, 'reconnecting', undefined, now));
+  }
+
+  return sortRoster(roster);
+}
+
+// Full roster with presence; onlyIfChanged is for the periodic idle check
+function emitParticipants(roomCode: string, room: Room, options: { onlyIfChanged?: boolean } = {}): void {
+  const participants = buildRoster(room);
+  const snapshot = JSON.stringify(participants);
+  if (options.onlyIfChanged && rosterSnapshots.get(roomCode) === snapshot) return;
+
+  rosterSnapshots.set(roomCode, snapshot);
+  io.to(roomCode).emit('participants-updated', { roomCode, participants });
+}
+
+function persistRoles(roomCode: string, room: Room): void {
+  const memberRoles = Object.entries(room.memberRoles).map(([userId, role]) => ({ userId, role }));
+
+  Room.updateOne({ roomCode }, { memberRoles }).catch(error => {
+    logProduction('error', `Failed to persist roles for room ${roomCode}:`, error);
+  });
+}
+
+// Bans are visible to everyone who can moderate
+function emitBans(roomCode: string, room: Room): void {
+  const now = Date.now();
+  const bans = room.bans.filter(ban => !ban.expiresAt || ban.expiresAt > now);
+
+  room.participants
+    .filter(p => hasPermission(p.role, 'moderate'))
+    .forEach(p => io.to(p.socketId).emit('bans-updated', { roomCode, bans }));
+}
+
+// Everyone hears who is muted so clients can grey out their own controls
+function emitMutes(roomCode: string, room: Room): void {
+  io.to(roomCode).emit('mutes-updated', { roomCode, userIds: [...room.muted] });
+}
+
+function commitBans(roomCode: string, room: Room, bans: RoomBan[]): void {
+  room.bans = bans;
+  emitBans(roomCode, room);
+
+  Room.updateOne({ roomCode }, { bans }).catch(error => {
+    logProduction('error', `Failed to persist bans for room ${roomCode}:`, error);
+  });
+}
+
+// Turn away banned users on join and restore; the memory room has the freshest ban list
+function rejectBannedUser(socketId: string, roomCode: string, dbRoom: IRoom, userId: string, callback: (response: any) => void): boolean {
+  const bans = rooms.get(roomCode)?.bans ?? hydrateBans(dbRoom.bans);
+  const ban = findActiveBan(bans, userId);
+  if (!ban) return false;
+
+  const message = describeBan(ban);
+  io.to(socketId).emit('room-error', { error: message, roomCode, removal: 'banned' });
+  callback({ success: false, error: message });
+  return true;
+}
+
+// Force a participant out of the room and tell them why
+function removeParticipant(roomCode: string, room: Room, target: RoomParticipant, removal: 'kicked' | 'banned', message: string): void {
+  io.to(target.socketId).emit('room-error', { error: message, roomCode, removal });
+  room.seated.delete(target.userId);
+
+  leaveRoom(target.socketId, roomCode);
+  io.sockets.sockets.get(target.socketId)?.leave(roomCode);
+
+  Room.updateOne({ roomCode }, { $pull: { participants: { userId: target.userId } } }).catch(error => {
+    logProduction('error', `Failed to remove ${target.username} from room ${roomCode} in database:`, error);
+  });
+}
+
+// Decide whether a newcomer may take a seat right away. Anyone seated earlier this
+// session counts as a member, so a dropped connection never sends them to the lobby.
+function checkAdmission(room: Room, dbRoom: IRoom, userId: string): 'full' | 'lobby' | null {
+  if (isRoomMember(dbRoom, userId)) return null;
+  if (room.participants.length >= room.settings.maxParticipants) return 'full';
+  if (room.settings.lobbyEnabled && !room.admitted.has(userId) && !room.memberRoles[userId]) return 'lobby';
+  return null;
+}
+
+// Moderators see the waiting line; everyone waiting hears their place in it
+function emitLobby(roomCode: string, room: Room): void {
+  const lobby = room.lobby.map(({ userId, username, avatar, requestedAt }) => ({ userId, username, avatar, requestedAt }));
+
+  room.participants
+    .filter(p => hasPermission(p.role, 'moderate'))
+    .forEach(p => io.to(p.socketId).emit('lobby-updated', { roomCode, lobby }));
+
+  room.lobby.forEach((entry, index) => {
+    io.to(entry.socketId).emit('lobby-status', { roomCode, status: 'waiting', position: index + 1 });
+  });
+}
+
+// Let waiting users through - their clients retry the join once they hear back
+function admitFromLobby(roomCode: string, room: Room, userIds: string[]): LobbyEntry[] {
+  const admitted = room.lobby.filter(entry => userIds.includes(entry.userId));
+  room.lobby = room.lobby.filter(entry => !userIds.includes(entry.userId));
+
+  admitted.forEach(entry => {
+    room.admitted.add(entry.userId);
+    io.to(entry.socketId).emit('lobby-status', { roomCode, status: 'admitted' });
+  });
+  emitLobby(roomCode, room);
+
+  return admitted;
+}
+
+// Drop a socket from any waiting line it is in
+function leaveLobbies(socketId: string): void {
+  rooms.forEach((room, roomCode) => {
+    if (!room.lobby.some(entry => entry.socketId === socketId)) return;
+
+    room.lobby = room.lobby.filter(entry => entry.socketId !== socketId);
+    emitLobby(roomCode, room);
+  });
+}
+
+// Hosts and co-hosts get the per-track breakdown
+function emitReactionStats(roomCode: string, room: Room): void {
+  const stats = { roomCode, tracks: room.trackReactions, totals: totalReactionCounts(room.trackReactions) };
+
+  room.participants
+    .filter(p => hasPermission(p.role, 'playback'))
+    .forEach(p => io.to(p.socketId).emit('reaction-stats', stats));
+}
+
+function scheduleReactionFlush(roomCode: string): void {
+  if (reactionFlushTimers.has(roomCode)) return;
+
+  const timer = setTimeout(() => {
+    reactionFlushTimers.delete(roomCode);
+
+    const room = rooms.get(roomCode);
+    if (!room) return;
+
+    emitReactionStats(roomCode, room);
+    Room.updateOne({ roomCode }, {
+      $set: {
+        'stats.reactions': totalReactionCounts(room.trackReactions),
+        'stats.trackReactions': room.trackReactions
+      }
+    }).catch(error => {
+      logProduction('error', `Failed to persist reactions for room ${roomCode}:`, error);
+    });
+  }, REACTION_FLUSH_INTERVAL);
+
+  reactionFlushTimers.set(roomCode, timer);
+}
+
+// Drop a room from memory: stop its timers and turn away anyone still waiting to get in
+function teardownRoom(roomCode: string): void {
+  clearHostGrace(roomCode);
+  clearDjTurnTimer(roomCode);
+  clearReadyBarrierTimer(roomCode);
+  clearScheduledPause(roomCode);
+  const persistTimer = playbackPersistTimers.get(roomCode);
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    playbackPersistTimers.delete(roomCode);
+  }
+  const reactionTimer = reactionFlushTimers.get(roomCode);
+  if (reactionTimer) {
+    clearTimeout(reactionTimer);
+    reactionFlushTimers.delete(roomCode);
+  }
+
+  rooms.get(roomCode)?.lobby.forEach(entry => {
+    io.to(entry.socketId).emit('lobby-status', { roomCode, status: 'denied', reason: 'The room has closed' });
+  });
+  rooms.delete(roomCode);
+  rosterSnapshots.delete(roomCode);
+}
+
+// Remove a room from memory and the database
+function deleteRoom(roomCode: string): void {
+  teardownRoom(roomCode);
+
+  // Clean up database room async (don't wait for it)
+  Room.deleteOne({ roomCode }).catch(error => {
+    logProduction('error', `Failed to delete room ${roomCode} from database:`, error);
+  });
+
+  logProduction('info', `Room deleted: ${roomCode}`);
+}
+
+// Hand the room to the longest-present participant, or close it if nobody is left
+function transferHost(roomCode: string, room: Room): void {
+  clearHostGrace(roomCode);
+
+  // Co-hosts are first in line
+  const nextHost = room.participants.find(p => p.role === 'cohost') || room.participants[0];
+  if (!nextHost) {
+    deleteRoom(roomCode);
+    return;
+  }
+
+  room.hostId = nextHost.userId;
+  room.hostUser = { id: nextHost.userId, username: nextHost.username, avatar: nextHost.avatar };
+  nextHost.role = 'owner';
+  delete room.memberRoles[nextHost.userId];
+
+  io.to(roomCode).emit('host-changed', {
+    newHostId: room.hostId,
+    roomCode
+  });
+  room.awayHost = undefined;
+  emitRoles(roomCode, room);
+  emitParticipants(roomCode, room);
+  emitRequestsTo(roomCode, room, nextHost);
+  emitBans(roomCode, room);
+  emitLobby(roomCode, room);
+  emitReactionStats(roomCode, room);
+
+  Room.updateOne({ roomCode }, { hostId: room.hostId, hostUser: room.hostUser }).catch(error => {
+    logProduction('error', `Failed to persist host change for room ${roomCode}:`, error);
+  });
+  persistRoles(roomCode, room);
+
+  logProduction('info', `Host transferred in room ${roomCode} to ${nextHost.username}`);
+}
+
+// Keep the host seat open while the host reconnects
+function startHostGrace(roomCode: string): void {
+  clearHostGrace(roomCode);
+
+  const timer = setTimeout(() => {
+    hostGraceTimers.delete(roomCode);
+
+    const room = rooms.get(roomCode);
+    if (!room) return;
+
+    // Host came back on another socket in the meantime
+    if (room.participants.some(p => p.userId === room.hostId)) return;
+
+    logProduction('info', `⌛ Host did not return to room ${roomCode} within ${HOST_RECONNECT_GRACE_PERIOD}ms`);
+    transferHost(roomCode, room);
+  }, HOST_RECONNECT_GRACE_PERIOD);
+
+  hostGraceTimers.set(roomCode, timer);
+  logProduction('info', `⏳ Holding host seat in room ${roomCode} for ${HOST_RECONNECT_GRACE_PERIOD}ms`);
+}
+
+function clearHostGrace(roomCode: string): boolean {
+  const timer = hostGraceTimers.get(roomCode);
+  if (!timer) return false;
+
+  clearTimeout(timer);
+  hostGraceTimers.delete(roomCode);
+  return true;
+}
+
+// allowHostGrace is set for dropped connections, where the host is likely to come back
+function leaveRoom(socketId: string, roomCode: string, options: { allowHostGrace?: boolean } = {}): void {
+  const room = rooms.get(roomCode);
+  if (!room) return;
+
+  const leaving = room.participants.find(participant => participant.socketId === socketId);
+
+  // Fix: Filter by comparing socketId property of participant objects
+  room.participants = room.participants.filter(participant => participant.socketId !== socketId);
+  updateRoomActivity(roomCode);
+  userRooms.delete(socketId);
+
+  // A stale socket of someone who already rejoined has no participant entry - nothing to announce
+  if (leaving) {
+    io.to(roomCode).emit('user-left', {
+      userId: leaving.userId,
+      user: { id: leaving.userId, username: leaving.username, avatar: leaving.avatar },
+      roomCode,
+      participantCount: room.participants.length
+    });
+  }
+
+  const hostLeft = !!leaving && leaving.userId === room.hostId &&
+    !room.participants.some(participant => participant.userId === room.hostId);
+
+  if (hostLeft) {
+    if (options.allowHostGrace) {
+      room.awayHost = leaving;
+      startHostGrace(roomCode);
+      emitParticipants(roomCode, room);
+    } else {
+      transferHost(roomCode, room);
+    }
+  } else if (room.participants.length === 0 && !hostGraceTimers.has(roomCode)) {
+    // Clean up empty room
+    deleteRoom(roomCode);
+  } else {
+    emitRoles(roomCode, room);
+    emitParticipants(roomCode, room);
+  }
+
+  // Fewer listeners can be enough to carry a vote that was already underway
+  if (rooms.has(roomCode) && room.skipVotes) {
+    evaluateSkipVotes(roomCode, room);
+  }
+
+  if (rooms.has(roomCode) && leaving) {
+    leaveDjRotation(roomCode, room, leaving.userId, { keepPlace: options.allowHostGrace });
+  }
+
+  // Don't keep everyone waiting on a player that is gone
+  const stillConnected = !!leaving && room.participants.some(p => p.userId === leaving.userId);
+  if (rooms.has(roomCode) && leaving && !stillConnected && room.readyBarrier) {
+    room.readyBarrier = dropFromBarrier(room.readyBarrier, leaving.userId);
+    if (isBarrierComplete(room.readyBarrier)) {
+      releaseReadyBarrier(roomCode, room);
+    } else {
+      emitReadyBarrier(roomCode, room);
+    }
+  }
+}
+
+// Leaving the room gives up a turn that hasn't produced a track yet; dropped
+// connections keep their place in the order so a reconnect doesn't send them to the back
+function leaveDjRotation(roomCode: string, room: Room, userId: string, options: { keepPlace?: boolean } = {}): void {
+  const rotation = room.djRotation;
+  if (!rotation.djs.some(dj => dj.userId === userId)) return;
+
+  const stillHere = room.participants.some(p => p.userId === userId);
+  if (stillHere && options.keepPlace) return;
+
+  const ownsTurn = isCurrentDj(room, userId) && (!options.keepPlace || !rotation.track);
+  if (ownsTurn) {
+    advanceDjTurn(roomCode, room, userId);
+  }
+
+  if (!options.keepPlace) {
+    commitDjRotation(roomCode, room, leaveRotation(room.djRotation, userId));
+  }
+}
+
+// Authoritative playback heartbeats so participants can correct drift between host actions
+const PLAYBACK_HEARTBEAT_INTERVAL = 5000;
+
+setInterval(() => {
+  const now = Date.now();
+
+  for (const [roomCode, room] of rooms.entries()) {
+    // Nobody to correct if the host is alone or nothing is loaded
+    if (!room.currentTrack || room.participants.length < 2) continue;
+
+    // Players are buffering for a start that hasn't been scheduled yet
+    if (room.readyBarrier) continue;
+
+    io.to(roomCode).emit('playback-heartbeat', projectPlaybackState(room.currentTrack, now));
+  }
+}, PLAYBACK_HEARTBEAT_INTERVAL);
+
+// Idle/active flips without any room event, so re-check presence now and then
+const PRESENCE_CHECK_INTERVAL = 30 * 1000;
+
+setInterval(() => {
+  for (const [roomCode, room] of rooms.entries()) {
+    if (room.participants.length === 0) continue;
+    emitParticipants(roomCode, room, { onlyIfChanged: true });
+  }
+}, PRESENCE_CHECK_INTERVAL);
+
+// Cleanup inactive rooms
+setInterval(async () => {
+  const now = Date.now();
+  const inactivityTimeout = 2 * 60 * 60 * 1000; // 2 hours
+  const emptyRoomTimeout = 30 * 60 * 1000; // 30 minutes
+
+  // Clean up memory rooms
+  for (const [roomCode, room] of rooms.entries()) {
+    const shouldDelete = 
+      (room.participants.length === 0 && now - room.lastActivity > emptyRoomTimeout) ||
+      (now - room.lastActivity > inactivityTimeout);
+
+    if (shouldDelete) {
+      // The database copy stays until its own cutoff below, so keep it current
+      persistPlayback(roomCode, room);
+      teardownRoom(roomCode);
+      logProduction('info', `🧹 Cleaned up memory room: ${roomCode}`);
+    }
+  }
+
+  // Clean up stale database rooms
+  try {
+    const cutoffTime = new Date(now - inactivityTimeout);
+    const result = await Room.deleteMany({
+      lastActivity: { $lt: cutoffTime }
+    });
+    
+    if (result.deletedCount > 0) {
+      logProduction('info', `🧹 Cleaned up ${result.deletedCount} stale database rooms`);
+    }
+  } catch (error) {
+    logProduction('error', 'Database cleanup error:', error);
+  }
+}, 10 * 60 * 1000); // Check every 10 minutes
+
+// Socket connection handling
+io.on('connection', (socket) => {
+  userLastActivity.set(socket.id, Date.now());
+  logProduction('info', `👤 User connected: ${socket.id}`);
+
+  // Activity tracking middleware - clock sync pings run on a timer, so they don't count
+  socket.use(([eventName], next) => {
+    if (eventName !== 'ping') {
+      userLastActivity.set(socket.id, Date.now());
+    }
+    next();
+  });
+
+  // Clock sync handler - echoes server receive/send times for NTP-style offset estimation
+  socket.on('ping', (data, callback) => {
+    const serverReceiveTime = Date.now();
+    if (typeof callback !== 'function') return;
+
+    callback({
+      clientTime: typeof data?.clientTime === 'number' ? data.clientTime : undefined,
+      serverReceiveTime,
+      serverSendTime: Date.now()
+    });
+  });
+
+  // Room restoration handler for reconnections
+  socket.on('restore-room', async (data, callback) => {
+    try {
+      const { roomCode } = data;
+      const user = socket.data.user;
+
+      if (!validateRoomCode(roomCode)) {
+        callback({ success: false, error: 'Invalid room code format' });
+        return;
+      }
+
+      const dbRoom = await Room.findOne({ roomCode });
+      if (!dbRoom) {
+        callback({ success: false, error: 'Room not found' });
+        return;
+      }
+
+      if (rejectBannedUser(socket.id, roomCode, dbRoom, user.id, callback)) return;
+
+      if (dbRoom.requiresPassword() && !isRoomMember(dbRoom, user.id)) {
+        callback({ success: false, error: 'This room requires a password' });
+        return;
+      }
+
+      // Restore room to memory if not present
+      let memoryRoom = rooms.get(roomCode);
+      if (!memoryRoom) {
+        memoryRoom = hydrateMemoryRoom(dbRoom);
+        rooms.set(roomCode, memoryRoom);
+        scheduleDjTurnTimeout(roomCode, memoryRoom);
+        logProduction('info', `🔄 Restored room ${roomCode} to memory from database`);
+      }
+
+      // Restoring is for people already inside - newcomers go through join-room
+      const admission = checkAdmission(memoryRoom, dbRoom, user.id);
+      if (admission) {
+        callback({ success: false, error: admission === 'full' ? 'This room is full' : 'Join the room to ask the host to let you in' });
+        return;
+      }
+
+      // Update user's participation
+      let participant = memoryRoom.participants.find(p => p.userId === user.id);
+      if (!participant) {
+        const showOnlineStatus = await loadShowOnlineStatus(user.id);
+        participant = {
+          socketId: socket.id,
+          userId: user.id,
+          username: user.username,
+          avatar: user.avatar,
+          role: getRoleFor(memoryRoom, user.id),
+          joinedAt: rejoinTime(memoryRoom, user.id),
+          showOnlineStatus
+        };
+        memoryRoom.participants.push(participant);
+        memoryRoom.seated.add(user.id);
+      } else {
+        // Update socket ID for existing participant
+        participant.socketId = socket.id;
+      }
+
+      // Returning host reclaims the room before the grace period runs out
+      const isHost = memoryRoom.hostId === user.id;
+      if (isHost && clearHostGrace(roomCode)) {
+        memoryRoom.awayHost = undefined;
+        logProduction('info', `👑 Host ${user.username} reclaimed room ${roomCode}`);
+      }
+
+      userRooms.set(socket.id, roomCode);
+      socket.join(roomCode);
+      memoryRoom.lastActivity = Date.now();
+      socket.emit('queue-updated', { roomCode, queue: memoryRoom.queue });
+      socket.emit('room-settings-updated', { roomCode, settings: memoryRoom.settings });
+      socket.emit('chat-history', { roomCode, messages: memoryRoom.chat });
+      socket.emit('mutes-updated', { roomCode, userIds: [...memoryRoom.muted] });
+      socket.emit('skip-votes-updated', { roomCode, tally: currentSkipTally(memoryRoom) });
+      socket.emit('dj-rotation-updated', { roomCode, rotation: memoryRoom.djRotation });
+      resumeDjRotation(roomCode, memoryRoom);
+      emitRequestsTo(roomCode, memoryRoom, participant);
+      emitRoles(roomCode, memoryRoom);
+      emitParticipants(roomCode, memoryRoom);
+      emitBans(roomCode, memoryRoom);
+      emitLobby(roomCode, memoryRoom);
+      emitReactionStats(roomCode, memoryRoom);
+
+      logProduction('info', `🔄 ${user.username} restored connection to room: ${roomCode}`);
+      callback({ 
+        success: true, 
+        isHost,
+        role: participant.role,
+        room: liveRoomData(dbRoom, memoryRoom)
+      });
+
+    } catch (error) {
+      logProduction('error', 'Restore room error:', error);
+      callback({ success: false, error: 'Server error' });
+    }
+  });
+
+  // Create room handler
+  socket.on('create-room', async (data, callback) => {
+    try {
+      const { isPrivate, password } = data || {};
+      const vanityCode = typeof data?.vanityCode === 'string' && data.vanityCode.trim()
+        ? data.vanityCode.trim().toUpperCase()
+        : undefined;
+      const user = socket.data.user;
+
+      if (password && !validateRoomPassword(password)) {
+        callback({ success: false, error: 'Room password must be between 4 and 128 characters' });
+        return;
+      }
+
+      const account = await User.findById(user.id).select('isVerified');
+      const verified = !!account?.isVerified;
+
+      // Public rooms need a verified email - unverified hosts get a private room instead
+      if (isPrivate === false && !verified) {
+        callback({ success: false, error: 'Verify your email address to host public rooms' });
+        return;
+      }
+      const roomIsPrivate = !!isPrivate || !verified;
+
+      if (vanityCode) {
+        const vanityError = checkVanityCode(vanityCode);
+        if (vanityError) {
+          callback({ success: false, error: vanityError });
+          return;
+        }
+
+        if (!verified) {
+          callback({ success: false, error: 'Custom room codes are available to verified accounts' });
+          return;
+        }
+
+        if (await isRoomCodeTaken(vanityCode)) {
+          callback({ success: false, error: 'That room code is already taken' });
+          return;
+        }
+      }
+
+      // Another host can claim the same code between the check and the insert - the unique index catches it
+      let dbRoom: IRoom | null = null;
+      for (let attempt = 0; attempt < 3 && !dbRoom; attempt++) {
+        const code = vanityCode ?? await allocateRoomCode(isRoomCodeTaken);
+        await reclaimRoomCode(code);
+
+        const candidate = new Room({
+          roomCode: code,
+          hostId: user.id,
+          hostUser: { id: user.id, username: user.username, avatar: user.avatar },
+          participants: [{ socketId: socket.id, userId: user.id, username: user.username, avatar: user.avatar, role: 'owner' }],
+          isPrivate: roomIsPrivate,
+          hashedPassword: password || undefined // Hashed on save
+        });
+
+        try {
+          await candidate.save();
+          dbRoom = candidate;
+        } catch (error) {
+          if (!isDuplicateKeyError(error)) throw error;
+          if (vanityCode) {
+            callback({ success: false, error: 'That room code is already taken' });
+            return;
+          }
+          logProduction('warn', `⚠️ Room code ${candidate.roomCode} was claimed concurrently, retrying`);
+        }
+      }
+
+      if (!dbRoom) {
+        callback({ success: false, error: 'Could not allocate a room code, please try again' });
+        return;
+      }
+
+      const roomCode = dbRoom.roomCode;
+
+      // Create room in memory for active session management
+      const memoryRoom: Room = {
+        roomCode,
+        hostId: user.id,
+        hostUser: { id: user.id, username: user.username, avatar: user.avatar },
+        participants: [{
+          socketId: socket.id,
+          userId: user.id,
+          username: user.username,
+          avatar: user.avatar,
+          role: 'owner',
+          joinedAt: Date.now(),
+          showOnlineStatus: await loadShowOnlineStatus(user.id)
+        }],
+        memberRoles: {},
+        createdAt: new Date(dbRoom.createdAt).getTime(),
+        lastActivity: Date.now(),
+        isPrivate: roomIsPrivate,
+        requiresPassword: dbRoom.requiresPassword(),
+        playbackVersion: 0,
+        trackCounted: false,
+        pendingStats: { songs: 0, seconds: 0 },
+        queue: [],
+        requests: [],
+        bans: [],
+        muted: new Set(),
+        lobby: [],
+        admitted: new Set(),
+        seated: new Set([user.id]),
+        chat: [],
+        chatRate: new Map(),
+        trackReactions: [],
+        reactionRate: new Map(),
+        djRotation: emptyDjRotation(),
+        settings: readRoomSettings(dbRoom)
+      };
+
+      rooms.set(roomCode, memoryRoom);
+      socket.join(roomCode);
+      userRooms.set(socket.id, roomCode);
+      emitRoles(roomCode, memoryRoom);
+      emitParticipants(roomCode, memoryRoom);
+
+      logProduction('info', `🏠 Room created: ${roomCode} by ${user.username} (${user.id})`);
+      callback({ success: true, isHost: true, role: 'owner', room: dbRoom.toObject() });
+
+    } catch (error) {
+      logProduction('error', 'Create room error:', error);
+      callback({ success: false, error: 'Server error' });
+    }
+  });
+
+  // Updated room joining with database
+  socket.on('join-room', async (data, callback) => {
+    try {
+      const { roomCode, password, inviteToken } = data;
+      const user = socket.data.user;
+
+      if (!validateRoomCode(roomCode)) {
+        callback({ success: false, error: 'Invalid room code format' });
+        return;
+      }
+
+      const dbRoom = await Room.findOne({ roomCode });
+      if (!dbRoom) {
+        callback({ success: false, error: 'Room not found' });
+        return;
+      }
+
+      if (rejectBannedUser(socket.id, roomCode, dbRoom, user.id, callback)) return;
+
+      // Private rooms need the password unless the user holds a valid invite
+      if (dbRoom.requiresPassword() && !isRoomMember(dbRoom, user.id)) {
+        const invited = verifyInviteToken(inviteToken, roomCode, new Date(dbRoom.createdAt).getTime());
+        if (!invited && !(await dbRoom.comparePassword(password))) {
+          callback({ success: false, error: password ? 'Incorrect room password' : 'This room requires a password' });
+          return;
+        }
+      }
+
+      // Get or create memory room
+      let memoryRoom = rooms.get(roomCode);
+      if (!memoryRoom) {
+        // Restore room to memory from database
+        memoryRoom = hydrateMemoryRoom(dbRoom);
+        rooms.set(roomCode, memoryRoom);
+        scheduleDjTurnTimeout(roomCode, memoryRoom);
+        logProduction('info', `🔄 Restored room ${roomCode} to memory`);
+      }
+
+      const admission = checkAdmission(memoryRoom, dbRoom, user.id);
+      if (admission === 'full') {
+        callback({ success: false, error: 'This room is full' });
+        return;
+      }
+
+      // Lobby mode - hold newcomers until a moderator lets them in
+      if (admission === 'lobby') {
+        const { lobby, error } = enqueueLobbyEntry(memoryRoom.lobby, {
+          socketId: socket.id,
+          userId: user.id,
+          username: user.username,
+          avatar: user.avatar,
+          requestedAt: Date.now()
+        });
+        if (error) {
+          callback({ success: false, error });
+          return;
+        }
+
+        memoryRoom.lobby = lobby;
+        emitLobby(roomCode, memoryRoom);
+
+        logProduction('info', `🚪 ${user.username} is waiting to join room ${roomCode}`);
+        callback({ success: false, waiting: true, position: lobbyPosition(lobby, user.id), error: 'Waiting for the host to let you in' });
+        return;
+      }
+
+      // Check if user already in room (memory)
+      let participant = memoryRoom.participants.find(p => p.userId === user.id);
+      if (!participant) {
+        const showOnlineStatus = await loadShowOnlineStatus(user.id);
+        participant = {
+          socketId: socket.id, 
+          userId: user.id, 
+          username: user.username, 
+          avatar: user.avatar,
+          role: getRoleFor(memoryRoom, user.id),
+          joinedAt: rejoinTime(memoryRoom, user.id),
+          showOnlineStatus
+        };
+        memoryRoom.participants.push(participant);
+        memoryRoom.seated.add(user.id);
+      } else {
+        // Rejoining from a new connection
+        participant.socketId = socket.id;
+      }
+
+      const isHost = memoryRoom.hostId === user.id;
+      if (isHost && clearHostGrace(roomCode)) {
+        memoryRoom.awayHost = undefined;
+        logProduction('info', `👑 Host ${user.username} reclaimed room ${roomCode}`);
+      }
+
+      // Update database
+      const existingDbParticipant = dbRoom.participants.find(p => p.userId === user.id);
+      if (!existingDbParticipant) {
+        dbRoom.participants.push({ 
+          socketId: socket.id, 
+          userId: user.id, 
+          username: user.username, 
+          avatar: user.avatar,
+          role: participant.role,
+          joinedAt: new Date()
+        });
+        
+        // Update peak participants
+        if (dbRoom.participants.length > dbRoom.stats.peakParticipants) {
+          dbRoom.stats.peakParticipants = dbRoom.participants.length;
+        }
+      } else {
+        existingDbParticipant.socketId = socket.id;
+      }
+
+      dbRoom.lastActivity = new Date();
+      await dbRoom.save();
+
+      memoryRoom.lastActivity = Date.now();
+      userRooms.set(socket.id, roomCode);
+      socket.join(roomCode);
+      socket.emit('queue-updated', { roomCode, queue: memoryRoom.queue });
+      socket.emit('room-settings-updated', { roomCode, settings: memoryRoom.settings });
+      socket.emit('chat-history', { roomCode, messages: memoryRoom.chat });
+      socket.emit('mutes-updated', { roomCode, userIds: [...memoryRoom.muted] });
+      socket.emit('skip-votes-updated', { roomCode, tally: currentSkipTally(memoryRoom) });
+      socket.emit('dj-rotation-updated', { roomCode, rotation: memoryRoom.djRotation });
+      resumeDjRotation(roomCode, memoryRoom);
+      emitRequestsTo(roomCode, memoryRoom, participant);
+      emitRoles(roomCode, memoryRoom);
+      emitParticipants(roomCode, memoryRoom);
+      emitBans(roomCode, memoryRoom);
+      emitLobby(roomCode, memoryRoom);
+      emitReactionStats(roomCode, memoryRoom);
+
+      // Notify other participants
+      socket.to(roomCode).emit('user-joined', {
+        userId: user.id,
+        user: { id: user.id, username: user.username, avatar: user.avatar },
+        roomCode,
+        participantCount: memoryRoom.participants.length
+      });
+
+      logProduction('info', `👥 ${user.username} joined room: ${roomCode} (${memoryRoom.participants.length} total)`);
+      callback({ success: true, isHost, role: participant.role, room: liveRoomData(dbRoom, memoryRoom) });
+
+    } catch (error) {
+      logProduction('error', 'Join room error:', error);
+      callback({ success: false, error: 'Server error' });
+    }
+  });
+
+  // Leave room handler
+  socket.on('leave-room', () => {
+    leaveLobbies(socket.id);
+
+    const roomCode = userRooms.get(socket.id);
+    if (roomCode) {
+      leaveRoom(socket.id, roomCode);
+      socket.leave(roomCode);
+      logProduction('info', `👋 User left room: ${roomCode}`);
+    }
+  });
+
+  // Sync event handlers
+  socket.on('sync-play', (data) => {
+    handleSyncEvent(socket.id, data, true);
+  });
+
+  socket.on('sync-pause', (data) => {
+    handleSyncEvent(socket.id, data, false);
+  });
+
+  socket.on('sync-seek', (data) => {
+    handleSyncEvent(socket.id, data, data.isPlaying);
+  });
+
+  // A rate change without a usable rate or play state would clobber the room's playback
+  socket.on('sync-rate', (data) => {
+    if (typeof data?.isPlaying !== 'boolean' || typeof data.playbackRate !== 'number' || !Number.isFinite(data.playbackRate)) {
+      logProduction('warn', 'Invalid sync-rate data received:', data);
+      return;
+    }
+    handleSyncEvent(socket.id, data, data.isPlaying);
+  });
+
+  // Video load sync handler
+  socket.on('sync-video-load', (data: { videoId: string; track?: QueueTrack }) => {
+    logProduction('info', `📹 Video load request from ${socket.id}, video: ${data.videoId}`);
+
+    const context = authorizeRoomAction(socket.id, 'playback');
+    if ('error' in context) {
+      logProduction('warn', `❌ Video load sync rejected: ${context.error}`);
+      return;
+    }
+
+    const { roomCode, room, participant } = context;
+
+    // DJs on their turn load tracks through dj-pick
+    if (!hasPermission(participant.role, 'playback')) {
+      logProduction('warn', `❌ Video load sync rejected: ${participant.username} should pick through the DJ rotation`);
+      return;
+    }
+
+    if (typeof data?.videoId !== 'string' || !data.videoId) {
+      logProduction('warn', '❌ Video load sync rejected: missing video id');
+      return;
+    }
+
+    logProduction('info', `✅ Broadcasting video load: ${data.videoId} to ${room.participants.length - 1} participants`);
+
+    // Metadata is optional - older clients only send the id
+    const info = sanitizeQueueTrack(data.track);
+    room.trackInfo = info?.videoId === data.videoId ? info : undefined;
+
+    const now = Date.now();
+    const { version } = commitPlaybackState(room, {
+      videoId: data.videoId,
+      currentTime: 0,
+      isPlaying: false,
+      timestamp: now,
+      playbackRate: room.currentTrack?.playbackRate ?? 1,
+      updatedBy: participant.userId
+    });
+    const readyBy = startReadyBarrier(roomCode, room, data.videoId);
+
+    // The sender is already cueing it, but still needs the version to stay in step
+    io.to(roomCode).emit('video-load-sync', { 
+      videoId: data.videoId,
+      timestamp: now,
+      readyBy,
+      version
+    });
+    io.to(roomCode).emit('skip-votes-updated', { roomCode, tally: currentSkipTally(room) });
+    
+    logProduction('info', `📡 Video load broadcast completed for room ${roomCode}`);
+  });
+
+  // Clients that notice a gap in playback versions ask for the whole current state
+  socket.on('request-playback-state', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (!room) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    respond({
+      success: true,
+      state: room.currentTrack ? projectPlaybackState(room.currentTrack, Date.now()) : null,
+      version: room.playbackVersion
+    });
+  });
+
+  // A player finished buffering the track the room is waiting on
+  socket.on('track-ready', (data: { videoId: string }) => {
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    const participant = room?.participants.find(p => p.socketId === socket.id);
+    if (!roomCode || !room || !participant || !room.readyBarrier) return;
+
+    // Late acks for a track that already started or was replaced
+    if (data?.videoId !== room.readyBarrier.videoId) return;
+
+    room.readyBarrier = markReady(room.readyBarrier, participant.userId);
+    if (isBarrierComplete(room.readyBarrier)) {
+      releaseReadyBarrier(roomCode, room);
+    } else {
+      emitReadyBarrier(roomCode, room);
+    }
+  });
+
+  // Queue handlers
+  socket.on('queue-add', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'queue');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const track = sanitizeQueueTrack(data?.track);
+    if (!track) {
+      respond({ success: false, error: 'Invalid track' });
+      return;
+    }
+
+    const user = socket.data.user;
+    const result = addToQueue(context.room.queue, createQueueItem(track, { userId: user.id, username: user.username }));
+    if (result.error) {
+      respond({ success: false, error: result.error });
+      return;
+    }
+
+    commitQueue(context.roomCode, context.room, result.queue);
+    logProduction('info', `➕ Queued ${track.videoId} in room ${context.roomCode}`);
+    respond({ success: true, queue: result.queue });
+  });
+
+  socket.on('queue-remove', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'queue');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const result = removeFromQueue(context.room.queue, data?.itemId);
+    if (result.error) {
+      respond({ success: false, error: result.error });
+      return;
+    }
+
+    commitQueue(context.roomCode, context.room, result.queue);
+    respond({ success: true, queue: result.queue });
+  });
+
+  socket.on('queue-reorder', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'queue');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const result = moveQueueItem(context.room.queue, data?.itemId, data?.toIndex);
+    if (result.error) {
+      respond({ success: false, error: result.error });
+      return;
+    }
+
+    commitQueue(context.roomCode, context.room, result.queue);
+    respond({ success: true, queue: result.queue });
+  });
+
+  socket.on('queue-clear', (_data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'queue');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    commitQueue(context.roomCode, context.room, []);
+    respond({ success: true, queue: [] });
+  });
+
+  socket.on('queue-play-next', (_data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'queue');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const next = advanceQueue(context.roomCode, context.room);
+    if (!next) {
+      respond({ success: false, error: 'Queue is empty' });
+      return;
+    }
+
+    respond({ success: true, track: next });
+  });
+
+  // Host reports the current track finished - advance only if the room has autoplay on
+  socket.on('queue-track-ended', (data) => {
+    const context = authorizeRoomAction(socket.id, 'playback');
+    if ('error' in context) return;
+
+    const { roomCode, room } = context;
+
+    // The DJ's pick finished - their turn is over
+    if (room.djRotation.enabled) {
+      if (room.djRotation.track && room.djRotation.track.videoId === data?.videoId) {
+        advanceDjTurn(roomCode, room);
+      }
+      return;
+    }
+
+    if (!room.settings.autoPlay) return;
+
+    // Ignore duplicate or stale reports for a track that is no longer current
+    if (room.currentTrack && data?.videoId && room.currentTrack.videoId !== data.videoId) return;
+
+    advanceQueue(roomCode, room);
+  });
+
+  // Song request handlers
+  socket.on('request-submit', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (!roomCode || !room) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    const participant = room.participants.find(p => p.socketId === socket.id);
+    if (hasPermission(participant?.role, 'queue')) {
+      respond({ success: false, error: 'You can add songs to the queue directly' });
+      return;
+    }
+
+    if (room.muted.has(socket.data.user.id)) {
+      respond({ success: false, error: MUTED_ERROR });
+      return;
+    }
+
+    if (!room.settings.allowParticipantRequests) {
+      respond({ success: false, error: 'The host is not accepting requests right now' });
+      return;
+    }
+
+    const track = sanitizeQueueTrack(data?.track);
+    if (!track) {
+      respond({ success: false, error: 'Invalid track' });
+      return;
+    }
+
+    const user = socket.data.user;
+    const limitError = checkRequestLimits(room.requests, user.id, track.videoId);
+    if (limitError) {
+      respond({ success: false, error: limitError });
+      return;
+    }
+
+    const request = createSongRequest(track, { userId: user.id, username: user.username });
+    commitRequests(roomCode, room, [...room.requests, request]);
+
+    logProduction('info', `🙋 ${user.username} requested ${track.videoId} in room ${roomCode}`);
+    respond({ success: true, request });
+  });
+
+  socket.on('request-approve', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'requests');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const { roomCode, room } = context;
+    const pending = room.requests.find(request => request.id === data?.requestId && request.status === 'pending');
+    if (!pending) {
+      respond({ success: false, error: 'Request not found' });
+      return;
+    }
+
+    // Queue first so a full queue leaves the request pending
+    const { videoId, title, artist, thumbnail, duration } = pending;
+    const queued = addToQueue(room.queue, createQueueItem({ videoId, title, artist, thumbnail, duration }, pending.requestedBy));
+    if (queued.error) {
+      respond({ success: false, error: queued.error });
+      return;
+    }
+
+    const result = resolveSongRequest(room.requests, pending.id, 'approved');
+    if (result.error || !result.request) {
+      respond({ success: false, error: result.error });
+      return;
+    }
+
+    commitQueue(roomCode, room, queued.queue);
+    commitRequests(roomCode, room, result.requests);
+    notifyRequester(roomCode, room, result.request);
+
+    logProduction('info', `✅ Approved request ${pending.videoId} from ${pending.requestedBy.username} in room ${roomCode}`);
+    respond({ success: true, request: result.request });
+  });
+
+  socket.on('request-reject', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'requests');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const { roomCode, room } = context;
+    const reason = typeof data?.reason === 'string' ? data.reason : undefined;
+    const result = resolveSongRequest(room.requests, data?.requestId, 'rejected', reason);
+    if (result.error || !result.request) {
+      respond({ success: false, error: result.error });
+      return;
+    }
+
+    commitRequests(roomCode, room, result.requests);
+    notifyRequester(roomCode, room, result.request);
+
+    logProduction('info', `🚫 Rejected request ${result.request.videoId} from ${result.request.requestedBy.username} in room ${roomCode}`);
+    respond({ success: true, request: result.request });
+  });
+
+  // Host updates room settings
+  socket.on('update-room-settings', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'settings');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const { roomCode, room } = context;
+    const updates: Partial<RoomSettings> = {};
+    if (typeof data?.allowParticipantRequests === 'boolean') {
+      updates.allowParticipantRequests = data.allowParticipantRequests;
+    }
+    if (typeof data?.autoPlay === 'boolean') {
+      updates.autoPlay = data.autoPlay;
+    }
+    if (typeof data?.lobbyEnabled === 'boolean') {
+      updates.lobbyEnabled = data.lobbyEnabled;
+    }
+    if (data?.skipVoting !== undefined) {
+      const { settings: skipVoting, error } = mergeSkipVoteSettings(room.settings.skipVoting, data.skipVoting);
+      if (!skipVoting) {
+        respond({ success: false, error });
+        return;
+      }
+      updates.skipVoting = skipVoting;
+    }
+    if (data?.maxParticipants !== undefined) {
+      const capacity = data.maxParticipants;
+      if (!Number.isInteger(capacity) || capacity < MIN_ROOM_CAPACITY || capacity > MAX_ROOM_CAPACITY) {
+        respond({ success: false, error: `Room capacity must be between ${MIN_ROOM_CAPACITY} and ${MAX_ROOM_CAPACITY}` });
+        return;
+      }
+      updates.maxParticipants = capacity;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      respond({ success: false, error: 'No valid settings provided' });
+      return;
+    }
+
+    room.settings = { ...room.settings, ...updates };
+    updateRoomActivity(roomCode);
+    io.to(roomCode).emit('room-settings-updated', { roomCode, settings: room.settings });
+
+    // Turning the lobby off opens the door for everyone still waiting; turning it on
+    // keeps the door open for everyone already inside, connected or reconnecting
+    if (updates.lobbyEnabled === false && room.lobby.length > 0) {
+      admitFromLobby(roomCode, room, room.lobby.map(entry => entry.userId));
+    } else if (updates.lobbyEnabled) {
+      room.seated.forEach(userId => room.admitted.add(userId));
+    }
+
+    // A lower threshold may already be met; turning voting off discards the votes
+    if (updates.skipVoting) {
+      if (!updates.skipVoting.enabled) room.skipVotes = undefined;
+      evaluateSkipVotes(roomCode, room);
+    }
+
+    const dbUpdates = Object.fromEntries(
+      Object.entries(updates).map(([key, value]) => [`settings.${key}`, value])
+    );
+    Room.updateOne({ roomCode }, { $set: { ...dbUpdates, lastActivity: new Date() } }).catch(error => {
+      logProduction('error', `Failed to persist settings for room ${roomCode}:`, error);
+    });
+
+    logProduction('info', `⚙️ Room ${roomCode} settings updated:`, updates);
+    respond({ success: true, settings: room.settings });
+  });
+
+  // Lock the room behind a password, or open it back up with an empty one
+  socket.on('set-room-password', async (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'settings');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const { roomCode, room } = context;
+    const password = data?.password || undefined;
+    if (password && !validateRoomPassword(password)) {
+      respond({ success: false, error: 'Room password must be between 4 and 128 characters' });
+      return;
+    }
+
+    try {
+      const dbRoom = await Room.findOne({ roomCode });
+      if (!dbRoom) {
+        respond({ success: false, error: 'Room not found' });
+        return;
+      }
+
+      // Dropping the password only makes the room public when the host is verified
+      const host = await User.findById(room.hostId).select('isVerified');
+      dbRoom.isPrivate = !!password || !host?.isVerified;
+      dbRoom.hashedPassword = password;
+      await dbRoom.save();
+
+      room.isPrivate = dbRoom.isPrivate;
+      room.requiresPassword = dbRoom.requiresPassword();
+      updateRoomActivity(roomCode);
+
+      logProduction('info', `🔒 Room ${roomCode} password ${password ? 'set' : 'removed'}`);
+      respond({ success: true, requiresPassword: room.requiresPassword });
+    } catch (error) {
+      logProduction('error', `Failed to update password for room ${roomCode}:`, error);
+      respond({ success: false, error: 'Server error' });
+    }
+  });
+
+  // Owner promotes or demotes a participant
+  socket.on('set-role', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'roles');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const { roomCode, room } = context;
+    const role = data?.role;
+    if (!isAssignableRole(role)) {
+      respond({ success: false, error: 'Invalid role' });
+      return;
+    }
+
+    const target = room.participants.find(p => p.userId === data?.userId);
+    if (!target) {
+      respond({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    if (target.userId === room.hostId) {
+      respond({ success: false, error: "The owner's role cannot be changed" });
+      return;
+    }
+
+    target.role = role;
+    if (role === 'listener') {
+      delete room.memberRoles[target.userId];
+    } else {
+      room.memberRoles[target.userId] = role;
+    }
+    updateRoomActivity(roomCode);
+
+    io.to(roomCode).emit('role-changed', {
+      roomCode,
+      userId: target.userId,
+      username: target.username,
+      role
+    });
+    emitRoles(roomCode, room);
+    emitParticipants(roomCode, room);
+    emitRequestsTo(roomCode, room, target);
+    emitBans(roomCode, room);
+    emitLobby(roomCode, room);
+    emitReactionStats(roomCode, room);
+    persistRoles(roomCode, room);
+
+    Room.updateOne(
+      { roomCode, 'participants.userId': target.userId },
+      { $set: { 'participants.$.role': role } }
+    ).catch(error => {
+      logProduction('error', `Failed to persist participant role in room ${roomCode}:`, error);
+    });
+
+    logProduction('info', `🎭 ${target.username} is now ${role} in room ${roomCode}`);
+    respond({ success: true, userId: target.userId, role });
+  });
+
+  // Chat
+  socket.on('chat-message', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (!roomCode || !room) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    const participant = room.participants.find(p => p.socketId === socket.id);
+    if (!participant) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    if (room.muted.has(participant.userId)) {
+      respond({ success: false, error: MUTED_ERROR });
+      return;
+    }
+
+    const text = cleanChatText(data?.text);
+    if (!text) {
+      respond({ success: false, error: 'Message cannot be empty' });
+      return;
+    }
+    if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+      respond({ success: false, error: `Messages are limited to ${MAX_CHAT_MESSAGE_LENGTH} characters` });
+      return;
+    }
+
+    const sentAt = recordChatSend(room.chatRate.get(participant.userId));
+    if (!sentAt) {
+      respond({ success: false, error: 'You are sending messages too quickly' });
+      return;
+    }
+    room.chatRate.set(participant.userId, sentAt);
+
+    const user = socket.data.user;
+    const message = createChatMessage({ userId: user.id, username: user.username, avatar: user.avatar }, text);
+    room.chat = appendChatMessage(room.chat, message);
+    updateRoomActivity(roomCode);
+    io.to(roomCode).emit('chat-message', { roomCode, message });
+
+    Room.updateOne(
+      { roomCode },
+      { $push: { chat: { $each: [message], $slice: -MAX_CHAT_HISTORY } } }
+    ).catch(error => {
+      logProduction('error', `Failed to persist chat message for room ${roomCode}:`, error);
+    });
+
+    respond({ success: true, message });
+  });
+
+  // DJ rotation - the owner switches the mode on, participants opt in and take turns
+  socket.on('dj-rotation-set', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'settings');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    if (typeof data?.enabled !== 'boolean') {
+      respond({ success: false, error: 'Invalid DJ rotation setting' });
+      return;
+    }
+
+    const { roomCode, room } = context;
+    if (data.enabled) {
+      commitDjRotation(roomCode, room, { ...room.djRotation, enabled: true });
+      resumeDjRotation(roomCode, room);
+    } else {
+      commitDjRotation(roomCode, room, { ...startTurn(room.djRotation, undefined), enabled: false });
+    }
+
+    logProduction('info', `🎧 DJ rotation ${data.enabled ? 'enabled' : 'disabled'} in room ${roomCode}`);
+    respond({ success: true, rotation: room.djRotation });
+  });
+
+  socket.on('dj-rotation-join', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    const participant = room?.participants.find(p => p.socketId === socket.id);
+    if (!roomCode || !room || !participant) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    if (!room.djRotation.enabled) {
+      respond({ success: false, error: 'DJ rotation is not running in this room' });
+      return;
+    }
+
+    const { state, error } = joinRotation(room.djRotation, {
+      userId: participant.userId,
+      username: participant.username,
+      avatar: participant.avatar
+    });
+    if (error) {
+      respond({ success: false, error });
+      return;
+    }
+
+    commitDjRotation(roomCode, room, state);
+    resumeDjRotation(roomCode, room);
+
+    logProduction('info', `🎧 ${participant.username} joined the DJ rotation in room ${roomCode}`);
+    respond({ success: true, rotation: room.djRotation });
+  });
+
+  socket.on('dj-rotation-leave', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    const participant = room?.participants.find(p => p.socketId === socket.id);
+    if (!roomCode || !room || !participant) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    leaveDjRotation(roomCode, room, participant.userId);
+    respond({ success: true, rotation: room.djRotation });
+  });
+
+  // The DJ on turn chooses their one track; it starts for everyone straight away
+  socket.on('dj-pick', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    const participant = room?.participants.find(p => p.socketId === socket.id);
+    if (!roomCode || !room || !participant) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    if (!isCurrentDj(room, participant.userId)) {
+      respond({ success: false, error: "It's not your turn" });
+      return;
+    }
+
+    if (room.djRotation.track) {
+      respond({ success: false, error: 'You already picked a track this turn' });
+      return;
+    }
+
+    const track = sanitizeQueueTrack(data?.track);
+    if (!track) {
+      respond({ success: false, error: 'Invalid track' });
+      return;
+    }
+
+    const now = Date.now();
+    const item = createQueueItem(track, { userId: participant.userId, username: participant.username });
+    room.trackInfo = track;
+    const { version } = commitPlaybackState(room, {
+      videoId: track.videoId,
+      currentTime: 0,
+      isPlaying: false,
+      timestamp: now,
+      playbackRate: room.currentTrack?.playbackRate ?? 1,
+      updatedBy: participant.userId
+    });
+    commitDjRotation(roomCode, room, recordPick(room.djRotation, track, now));
+
+    const readyBy = startReadyBarrier(roomCode, room, track.videoId);
+    io.to(roomCode).emit('video-load-sync', {
+      videoId: track.videoId,
+      track: item,
+      timestamp: now,
+      readyBy,
+      version
+    });
+    io.to(roomCode).emit('skip-votes-updated', { roomCode, tally: currentSkipTally(room) });
+
+    logProduction('info', `🎧 ${participant.username} picked ${track.videoId} in room ${roomCode}`);
+    respond({ success: true, track: item });
+  });
+
+  // The DJ can hand over early; hosts can move a stalled turn along
+  socket.on('dj-skip-turn', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'playback');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const { roomCode, room } = context;
+    if (!room.djRotation.enabled || !room.djRotation.currentDjId) {
+      respond({ success: false, error: 'Nobody is on the decks' });
+      return;
+    }
+
+    advanceDjTurn(roomCode, room);
+    respond({ success: true, rotation: room.djRotation });
+  });
+
+  // Democracy mode - anyone in the room can vote the current track out
+  socket.on('skip-vote', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    const participant = room?.participants.find(p => p.socketId === socket.id);
+    if (!roomCode || !room || !participant) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    if (!room.settings.skipVoting.enabled) {
+      respond({ success: false, error: 'Skip voting is turned off in this room' });
+      return;
+    }
+
+    if (!room.currentTrack) {
+      respond({ success: false, error: 'Nothing is playing' });
+      return;
+    }
+
+    // Votes for a track that has already changed are dropped
+    const videoId = room.currentTrack.videoId;
+    if (data?.videoId && data.videoId !== videoId) {
+      respond({ success: false, error: 'That track is no longer playing' });
+      return;
+    }
+
+    if (room.skipVotes?.videoId !== videoId) {
+      room.skipVotes = { videoId, voters: new Set() };
+    }
+
+    // vote: false takes a vote back
+    if (data?.vote === false) {
+      room.skipVotes.voters.delete(participant.userId);
+    } else {
+      room.skipVotes.voters.add(participant.userId);
+    }
+    updateRoomActivity(roomCode);
+
+    evaluateSkipVotes(roomCode, room);
+    respond({ success: true });
+  });
+
+  // Reactions land on the current track at the room's playback position
+  socket.on('send-reaction', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const roomCode = userRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    const participant = room?.participants.find(p => p.socketId === socket.id);
+    if (!roomCode || !room || !participant) {
+      respond({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    if (room.muted.has(participant.userId)) {
+      respond({ success: false, error: MUTED_ERROR });
+      return;
+    }
+
+    const type = data?.type;
+    if (!isReactionType(type)) {
+      respond({ success: false, error: 'Unknown reaction' });
+      return;
+    }
+
+    if (!room.currentTrack) {
+      respond({ success: false, error: 'Nothing is playing' });
+      return;
+    }
 
-    } catch (error) {
-      logProduction('error', 'Restore room error:', error);
-      callback({ success: false, error: 'Server error' });
+    const sentAt = recordReactionSend(room.reactionRate.get(participant.userId));
+    if (!sentAt) {
+      respond({ success: false, error: 'Slow down a little' });
+      return;
     }
-  });
+    room.reactionRate.set(participant.userId, sentAt);
 
-  // Create room handler
-  socket.on('create-room', async (data, callback) => {
-    try {
-      const { roomCode, isPrivate, password } = data;
-      const user = socket.data.user;
+    const now = Date.now();
+    const { videoId, currentTime: position } = projectPlaybackState(room.currentTrack, now);
+    room.trackReactions = addReaction(room.trackReactions, videoId, position, type);
+
+    io.to(roomCode).emit('reaction', {
+      roomCode,
+      type,
+      userId: participant.userId,
+      username: participant.username,
+      videoId,
+      position,
+      sentAt: now
+    });
+    scheduleReactionFlush(roomCode);
 
-      if (!validateRoomCode(roomCode)) {
-        callback({ success: false, error: 'Invalid room code format' });
-        return;
-      }
+    respond({ success: true });
+  });
 
-      // Check if room already exists in database OR in-memory
-      const existingDbRoom = await Room.findOne({ roomCode });
-      const existingMemoryRoom = rooms.get(roomCode);
-      
-      if (existingDbRoom || existingMemoryRoom) {
-        // Try to clean up stale database room if no active participants
-        if (existingDbRoom && !existingMemoryRoom) {
-          const timeSinceLastActivity = Date.now() - new Date(existingDbRoom.lastActivity).getTime();
-          if (timeSinceLastActivity > 30 * 60 * 1000) { // 30 minutes
-            await Room.deleteOne({ roomCode });
-            logProduction('info', `🧹 Cleaned up stale database room: ${roomCode}`);
-          } else {
-            callback({ success: false, error: 'Room already exists' });
-            return;
-          }
-        } else {
-          callback({ success: false, error: 'Room already exists' });
-          return;
-        }
-      }
+  // Invite links let friends skip the room password
+  socket.on('create-invite', (_data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
 
-      // Create room in database
-      const dbRoom = new Room({
-        roomCode,
-        hostId: socket.id,
-        hostUser: { id: user.id, username: user.username, avatar: user.avatar },
-        participants: [{ socketId: socket.id, userId: user.id, username: user.username, avatar: user.avatar }],
-        isPrivate: isPrivate || false,
-        password: password || undefined
-      });
+    const { roomCode, room, participant } = context;
+    const invite = createInviteToken(roomCode, room.createdAt, participant.userId);
 
-      await dbRoom.save();
+    logProduction('info', `✉️ ${participant.username} created an invite for room ${roomCode}`);
+    respond({ success: true, ...invite });
+  });
 
-      // Create room in memory for active session management
-      const memoryRoom: Room = {
-        roomCode,
-        hostId: socket.id,
-        hostUser: { id: user.id, username: user.username, avatar: user.avatar },
-        participants: [{ socketId: socket.id, userId: user.id, username: user.username, avatar: user.avatar }],
-        createdAt: Date.now(),
-        lastActivity: Date.now(),
-        isPrivate: isPrivate || false,
-        password: password || undefined
-      };
+  // Lobby handlers
+  socket.on('lobby-admit', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
 
-      rooms.set(roomCode, memoryRoom);
-      socket.join(roomCode);
-      userRooms.set(socket.id, roomCode);
+    const { roomCode, room, participant } = context;
+    const admitted = admitFromLobby(roomCode, room, [data?.userId]);
+    if (admitted.length === 0) {
+      respond({ success: false, error: 'That user is no longer waiting' });
+      return;
+    }
 
-      logProduction('info', `🏠 Room created: ${roomCode} by ${user.username} (${user.id})`);
-      callback({ success: true, room: { ...dbRoom.toObject(), password: undefined } });
+    logProduction('info', `🚪 ${participant.username} admitted ${admitted[0].username} to room ${roomCode}`);
+    respond({ success: true });
+  });
 
-    } catch (error) {
-      logProduction('error', 'Create room error:', error);
-      callback({ success: false, error: 'Server error' });
+  socket.on('lobby-admit-all', (_data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
     }
+
+    const { roomCode, room, participant } = context;
+    const admitted = admitFromLobby(roomCode, room, room.lobby.map(entry => entry.userId));
+
+    logProduction('info', `🚪 ${participant.username} admitted ${admitted.length} waiting users to room ${roomCode}`);
+    respond({ success: true, admitted: admitted.length });
   });
 
-  // Updated room joining with database
-  socket.on('join-room', async (data, callback) => {
-    try {
-      const { roomCode, password } = data;
-      const user = socket.data.user;
+  socket.on('lobby-deny', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
 
-      if (!validateRoomCode(roomCode)) {
-        callback({ success: false, error: 'Invalid room code format' });
-        return;
-      }
+    const { roomCode, room, participant } = context;
+    const entry = room.lobby.find(waiting => waiting.userId === data?.userId);
+    if (!entry) {
+      respond({ success: false, error: 'That user is no longer waiting' });
+      return;
+    }
 
-      const dbRoom = await Room.findOne({ roomCode });
-      if (!dbRoom) {
-        callback({ success: false, error: 'Room not found' });
-        return;
-      }
+    const reason = cleanReason(data?.reason);
+    room.lobby = room.lobby.filter(waiting => waiting.userId !== entry.userId);
+    io.to(entry.socketId).emit('lobby-status', {
+      roomCode,
+      status: 'denied',
+      reason: `The host did not let you in${reason ? `: ${reason}` : ''}`
+    });
+    emitLobby(roomCode, room);
 
-      // Check password for private rooms
-      if (dbRoom.isPrivate && dbRoom.password && dbRoom.password !== password) {
-        callback({ success: false, error: 'Incorrect room password' });
-        return;
-      }
+    logProduction('info', `🚪 ${participant.username} turned ${entry.username} away from room ${roomCode}`);
+    respond({ success: true });
+  });
 
-      // Get or create memory room
-      let memoryRoom = rooms.get(roomCode);
-      if (!memoryRoom) {
-        // Restore room to memory from database
-        memoryRoom = {
-          roomCode,
-          hostId: dbRoom.hostId,
-          hostUser: dbRoom.hostUser,
-          participants: [],
-          createdAt: new Date(dbRoom.createdAt).getTime(),
-          lastActivity: Date.now(),
-          isPrivate: dbRoom.isPrivate,
-          password: dbRoom.password,
-          currentTrack: undefined
-        };
-        rooms.set(roomCode, memoryRoom);
-        logProduction('info', `🔄 Restored room ${roomCode} to memory`);
-      }
+  // Moderation handlers
+  socket.on('kick-participant', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
 
-      // Check if user already in room (memory)
-      const existingMemoryParticipant = memoryRoom.participants.find(p => p.userId === user.id);
-      if (!existingMemoryParticipant) {
-        memoryRoom.participants.push({ 
-          socketId: socket.id, 
-          userId: user.id, 
-          username: user.username, 
-          avatar: user.avatar
-        });
-      }
+    const { roomCode, room, participant } = context;
+    const target = room.participants.find(p => p.userId === data?.userId);
+    if (!target) {
+      respond({ success: false, error: 'Participant not found' });
+      return;
+    }
 
-      // Update database
-      const existingDbParticipant = dbRoom.participants.find(p => p.userId === user.id);
-      if (!existingDbParticipant) {
-        dbRoom.participants.push({ 
-          socketId: socket.id, 
-          userId: user.id, 
-          username: user.username, 
-          avatar: user.avatar,
-          joinedAt: new Date()
-        });
-        
-        // Update peak participants
-        if (dbRoom.participants.length > dbRoom.stats.peakParticipants) {
-          dbRoom.stats.peakParticipants = dbRoom.participants.length;
-        }
-      }
+    if (!outranks(participant.role, target.role)) {
+      respond({ success: false, error: 'You cannot remove this participant' });
+      return;
+    }
 
-      dbRoom.lastActivity = new Date();
-      await dbRoom.save();
+    const reason = cleanReason(data?.reason);
+    removeParticipant(roomCode, room, target, 'kicked', `You were removed from the room${reason ? `: ${reason}` : ''}`);
 
-      memoryRoom.lastActivity = Date.now();
-      userRooms.set(socket.id, roomCode);
-      socket.join(roomCode);
+    logProduction('info', `👢 ${participant.username} kicked ${target.username} from room ${roomCode}`);
+    respond({ success: true });
+  });
 
-      // Notify other participants
-      socket.to(roomCode).emit('user-joined', {
-        user: { id: user.id, username: user.username, avatar: user.avatar },
-        roomCode,
-        participantCount: memoryRoom.participants.length
-      });
+  socket.on('ban-participant', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
 
-      logProduction('info', `👥 ${user.username} joined room: ${roomCode} (${memoryRoom.participants.length} total)`);
-      callback({ success: true, room: { ...dbRoom.toObject(), password: undefined } });
+    const { roomCode, room, participant } = context;
+    const target = room.participants.find(p => p.userId === data?.userId);
+    if (!target) {
+      respond({ success: false, error: 'Participant not found' });
+      return;
+    }
 
-    } catch (error) {
-      logProduction('error', 'Join room error:', error);
-      callback({ success: false, error: 'Server error' });
+    if (!outranks(participant.role, target.role)) {
+      respond({ success: false, error: 'You cannot ban this participant' });
+      return;
     }
-  });
 
-  // Leave room handler
-  socket.on('leave-room', () => {
-    const roomCode = userRooms.get(socket.id);
-    if (roomCode) {
-      leaveRoom(socket.id, roomCode);
-      socket.leave(roomCode);
-      logProduction('info', `👋 User left room: ${roomCode}`);
+    const duration = data?.durationMinutes;
+    if (duration !== undefined && (typeof duration !== 'number' || duration <= 0 || duration > MAX_BAN_DURATION_MINUTES)) {
+      respond({ success: false, error: `Ban duration must be between 1 and ${MAX_BAN_DURATION_MINUTES} minutes` });
+      return;
     }
-  });
 
-  // Sync event handlers
-  socket.on('sync-play', (data) => {
-    handleSyncEvent(socket.id, data, true);
-  });
+    const now = Date.now();
+    const ban: RoomBan = {
+      userId: target.userId,
+      username: target.username,
+      bannedBy: participant.userId,
+      reason: cleanReason(data?.reason),
+      createdAt: now,
+      expiresAt: duration ? now + duration * 60 * 1000 : undefined
+    };
 
-  socket.on('sync-pause', (data) => {
-    handleSyncEvent(socket.id, data, false);
+    commitBans(roomCode, room, addBan(room.bans, ban, now));
+    removeParticipant(roomCode, room, target, 'banned', describeBan(ban));
+
+    logProduction('info', `🔨 ${participant.username} banned ${target.username} from room ${roomCode}${duration ? ` for ${duration} minutes` : ''}`);
+    respond({ success: true, ban });
   });
 
-  socket.on('sync-seek', (data) => {
-    handleSyncEvent(socket.id, data, data.isPlaying);
+  // Muted participants stay in the room but lose chat, reactions and song requests
+  socket.on('mute-user', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
+      return;
+    }
+
+    const { roomCode, room, participant } = context;
+    const target = room.participants.find(p => p.userId === data?.userId);
+    if (!target) {
+      respond({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    if (!outranks(participant.role, target.role)) {
+      respond({ success: false, error: 'You cannot mute this participant' });
+      return;
+    }
+
+    room.muted.add(target.userId);
+    emitMutes(roomCode, room);
+
+    logProduction('info', `🔇 ${participant.username} muted ${target.username} in room ${roomCode}`);
+    respond({ success: true });
   });
 
-  // Video load sync handler
-  socket.on('sync-video-load', (data: { videoId: string }) => {
-    const roomCode = userRooms.get(socket.id);
-    logProduction('info', `📹 Video load request from ${socket.id}, room: ${roomCode}, video: ${data.videoId}`);
-    
-    if (!roomCode) {
-      logProduction('warn', '❌ Video load sync: User not in room');
+  socket.on('unmute-user', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
       return;
     }
 
-    const room = rooms.get(roomCode);
-    if (!room) {
-      logProduction('warn', '❌ Video load sync: Room not found');
+    const { roomCode, room, participant } = context;
+    if (!room.muted.delete(data?.userId)) {
+      respond({ success: false, error: 'Participant is not muted' });
       return;
     }
-    
-    if (room.hostId !== socket.id) {
-      logProduction('warn', '❌ Video load sync: Not authorized - not host');
+
+    emitMutes(roomCode, room);
+
+    logProduction('info', `🔈 ${participant.username} unmuted ${data.userId} in room ${roomCode}`);
+    respond({ success: true });
+  });
+
+  socket.on('unban-participant', (data, callback) => {
+    const respond = typeof callback === 'function' ? callback : () => {};
+    const context = authorizeRoomAction(socket.id, 'moderate');
+    if ('error' in context) {
+      respond({ success: false, error: context.error });
       return;
     }
 
-    logProduction('info', `✅ Broadcasting video load: ${data.videoId} to ${room.participants.length - 1} participants`);
+    const { roomCode, room } = context;
+    if (!room.bans.some(ban => ban.userId === data?.userId)) {
+      respond({ success: false, error: 'Ban not found' });
+      return;
+    }
 
-    // Broadcast video load to participants
-    socket.to(roomCode).emit('video-load-sync', { 
-      videoId: data.videoId,
-      timestamp: Date.now()
-    });
-    
-    logProduction('info', `📡 Video load broadcast completed for room ${roomCode}`);
+    commitBans(roomCode, room, room.bans.filter(ban => ban.userId !== data.userId));
+    logProduction('info', `🕊️ Lifted ban on ${data.userId} in room ${roomCode}`);
+    respond({ success: true });
   });
 
   // Disconnect handler
@@ -632,6 +2833,7 @@ io.on('connection', (socket) => {
     const roomCode = userRooms.get(socket.id);
     
     logProduction('info', `👤 User disconnected: ${user?.username || 'unknown'} (${socket.id}) - ${reason}`);
+    leaveLobbies(socket.id);
     
     if (roomCode) {
       try {
@@ -644,12 +2846,12 @@ io.on('connection', (socket) => {
           }
         );
         
-        leaveRoom(socket.id, roomCode);
+        leaveRoom(socket.id, roomCode, { allowHostGrace: true });
         logProduction('info', `🧹 Cleaned up user from room ${roomCode} in database`);
       } catch (error) {
         logProduction('error', `Failed to clean up user from room ${roomCode}:`, error);
         // Still call leaveRoom for memory cleanup
-        leaveRoom(socket.id, roomCode);
+        leaveRoom(socket.id, roomCode, { allowHostGrace: true });
       }
     }
     
@@ -767,6 +2969,7 @@ app.get('/api/rooms/:roomCode', async (req: Request, res: Response): Promise<voi
           roomCode: memoryRoom.roomCode,
           participantCount: memoryRoom.participants.length,
           isActive: true,
+          requiresPassword: memoryRoom.requiresPassword,
           createdAt: memoryRoom.createdAt,
           lastActivity: memoryRoom.lastActivity
         }
@@ -793,6 +2996,7 @@ app.get('/api/rooms/:roomCode', async (req: Request, res: Response): Promise<voi
           roomCode: dbRoom.roomCode,
           participantCount: 0, // No active participants
           isActive: false,
+          requiresPassword: dbRoom.requiresPassword(),
           createdAt: new Date(dbRoom.createdAt).getTime(),
           lastActivity: new Date(dbRoom.lastActivity).getTime()
         }
@@ -846,7 +3050,7 @@ app.post('/api/auth/register', async (req: Request, res: Response): Promise<void
       return;
     }
 
-    const result = await authService.register(username, email, password);
+    const result = await authService.register(username, email, password, req.get('User-Agent'), req.ip);
     console.log('📊 Registration result:', { success: result.success, error: result.error });
     
     if (result.success) {
@@ -865,14 +3069,14 @@ app.post('/api/auth/register', async (req: Request, res: Response): Promise<void
   }
 });
 
-app.post('/api/auth/login', async (req: Request, res: Response): Promise<void> => {
+app.post('/api/auth/login', loginLimiter, async (req: Request, res: Response): Promise<void> => {
   try {
     console.log('🔐 Login attempt:', { 
       emailOrUsername: req.body.emailOrUsername,
       hasPassword: !!req.body.password 
     });
 
-    const { emailOrUsername, password, userAgent, ipAddress } = req.body;
+    const { emailOrUsername, password, userAgent } = req.body;
     
     if (!emailOrUsername || !password) {
       res.status(400).json({ 
@@ -886,7 +3090,7 @@ app.post('/api/auth/login', async (req: Request, res: Response): Promise<void> =
       emailOrUsername, 
       password, 
       userAgent || req.get('User-Agent'), 
-      ipAddress || req.ip
+      req.ip // The client can't know its public address - never trust one from the body
     );
     
     console.log('📊 Login result:', { success: result.success, error: result.error });
@@ -907,9 +3111,32 @@ app.post('/api/auth/login', async (req: Request, res: Response): Promise<void> =
   }
 });
 
+// Second login step for accounts with two-factor authentication
+app.post('/api/auth/2fa/verify', authLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code, userAgent } = req.body;
+
+    if (!challengeToken || !code) {
+      res.status(400).json({ success: false, error: 'Challenge token and code are required' });
+      return;
+    }
+
+    const result = await authService.completeTwoFactorLogin(
+      challengeToken,
+      code,
+      userAgent || req.get('User-Agent'),
+      req.ip
+    );
+    res.status(result.success ? 200 : 401).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/2fa/verify error:', error);
+    res.status(500).json({ success: false, error: 'Server error during two-factor verification' });
+  }
+});
+
 app.post('/api/auth/refresh', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { refreshToken, userAgent, ipAddress } = req.body;
+    const { refreshToken, userAgent } = req.body;
     
     if (!refreshToken) {
       res.status(400).json({ 
@@ -922,7 +3149,7 @@ app.post('/api/auth/refresh', async (req: Request, res: Response): Promise<void>
     const result = await authService.refreshToken(
       refreshToken,
       userAgent || req.get('User-Agent'),
-      ipAddress || req.ip
+      req.ip
     );
     
     if (result.success) {
@@ -942,7 +3169,10 @@ app.post('/api/auth/refresh', async (req: Request, res: Response): Promise<void>
 app.post('/api/auth/logout', async (req: Request, res: Response): Promise<void> => {
   try {
     const { refreshToken, allDevices, userId } = req.body;
-    const result = await authService.logout(refreshToken, allDevices, userId);
+    const { revokedSessionIds, ...result } = await authService.logout(refreshToken, allDevices, userId);
+    if (revokedSessionIds) {
+      disconnectSessions(userId, revokedSessionIds);
+    }
     res.json(result);
   } catch (error: any) {
     console.error('💥 Logout server error:', error);
@@ -985,11 +3215,147 @@ app.get('/api/auth/me', authenticateToken, async (req: any, res: Response): Prom
   }
 });
 
+app.post('/api/auth/2fa/setup', authLimiter, authenticateToken, async (req: any, res: Response): Promise<void> => {
+  try {
+    const result = await authService.beginTwoFactorSetup(req.user.id);
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/2fa/setup error:', error);
+    res.status(500).json({ success: false, error: 'Server error during two-factor setup' });
+  }
+});
+
+app.post('/api/auth/2fa/confirm', authLimiter, authenticateToken, async (req: any, res: Response): Promise<void> => {
+  try {
+    const result = await authService.confirmTwoFactorSetup(req.user.id, req.body.code);
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/2fa/confirm error:', error);
+    res.status(500).json({ success: false, error: 'Server error during two-factor setup' });
+  }
+});
+
+app.post('/api/auth/2fa/disable', authLimiter, authenticateToken, async (req: any, res: Response): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+    const result = await authService.disableTwoFactor(req.user.id, password, code);
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/2fa/disable error:', error);
+    res.status(500).json({ success: false, error: 'Server error while disabling two-factor authentication' });
+  }
+});
+
+// Close the live sockets of revoked sessions; the client signs out instead of reconnecting
+function disconnectSessions(userId: string, sessionIds: string[], message: string = 'This device was signed out from another session'): void {
+  for (const socket of io.sockets.sockets.values()) {
+    const socketUser = socket.data.user;
+    if (socketUser?.id !== userId || !sessionIds.includes(socketUser.sid)) continue;
+
+    socket.emit('session-revoked', { message });
+    socket.disconnect(true);
+  }
+}
+
+app.get('/api/auth/sessions', authenticateToken, async (req: any, res: Response): Promise<void> => {
+  try {
+    const sessions = await authService.getUserSessions(req.user.id, req.user.sessionId);
+    res.json({ success: true, sessions });
+  } catch (error) {
+    logProduction('error', '/api/auth/sessions error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// Sign out every other device
+app.post('/api/auth/sessions/revoke-others', authenticateToken, async (req: any, res: Response): Promise<void> => {
+  try {
+    // Tokens from before sessions were tracked can't tell which device is "this one"
+    if (!req.user.sessionId) {
+      res.status(401).json({ success: false, error: 'Please sign in again to sign out your other devices', requiresReauth: true });
+      return;
+    }
+
+    const result = await authService.revokeOtherSessions(req.user.id, req.user.sessionId);
+    if (result.success) {
+      disconnectSessions(req.user.id, result.revokedSessionIds || []);
+      logProduction('info', `🔒 ${req.user.username} signed out ${result.revokedSessionIds?.length || 0} other session(s)`);
+    }
+    res.status(result.success ? 200 : 500).json({ success: result.success, revoked: result.revokedSessionIds?.length || 0, error: result.error });
+  } catch (error) {
+    logProduction('error', '/api/auth/sessions/revoke-others error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+app.delete('/api/auth/sessions/:id', authenticateToken, async (req: any, res: Response): Promise<void> => {
+  try {
+    const sessionId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      res.status(400).json({ success: false, error: 'Invalid session id' });
+      return;
+    }
+
+    const result = await authService.revokeSession(req.user.id, sessionId);
+    if (result.success) {
+      disconnectSessions(req.user.id, [sessionId]);
+    }
+    res.status(result.success ? 200 : 404).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/sessions/:id error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+app.post('/api/auth/verify-email', authLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await authService.verifyEmail(req.body.token);
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/verify-email error:', error);
+    res.status(500).json({ success: false, error: 'Server error during email verification' });
+  }
+});
+
+app.post('/api/auth/forgot-password', authLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await authService.requestPasswordReset(req.body.email);
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/forgot-password error:', error);
+    res.status(500).json({ success: false, error: 'Server error while requesting a password reset' });
+  }
+});
+
+app.post('/api/auth/reset-password', authLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+    const { userId, revokedSessionIds, ...result } = await authService.resetPassword(token, password);
+    if (userId && revokedSessionIds) {
+      disconnectSessions(userId, revokedSessionIds, 'Your password was changed. Please sign in again.');
+    }
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/reset-password error:', error);
+    res.status(500).json({ success: false, error: 'Server error during password reset' });
+  }
+});
+
+app.post('/api/auth/resend-verification', authLimiter, authenticateToken, async (req: any, res: Response): Promise<void> => {
+  try {
+    const result = await authService.resendVerification(req.user.id);
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logProduction('error', '/api/auth/resend-verification error:', error);
+    res.status(500).json({ success: false, error: 'Server error while sending the verification email' });
+  }
+});
+
 // Update socket authentication
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
 
 // Socket.IO authentication middleware
-io.use((socket, next) => {
+io.use(async (socket, next) => {
   const token = socket.handshake.auth.token;
   
   if (!token) {
@@ -999,6 +3365,13 @@ io.use((socket, next) => {
 
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+    // Only access tokens - a 2FA challenge token must not stand in for a finished login
+    if (decoded.type !== 'access') {
+      throw new Error('Invalid token type');
+    }
+    if (!(await authService.isSessionActive(decoded.sid))) {
+      throw new Error('Session revoked');
+    }
     socket.data.user = decoded;
     logProduction('info', `✅ Socket authenticated: ${decoded.username} (${decoded.id})`);
     next();
@@ -1063,16 +3436,18 @@ app.use('*', (req: Request, res: Response): void => {
   res.status(404).json({ error: 'Not found' });
 });
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logProduction('info', 'SIGTERM received, shutting down gracefully');
+  await flushPlayback();
   server.close(() => {
     logProduction('info', 'Process terminated');
     process.exit(0);
   });
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   logProduction('info', 'SIGINT received, shutting down gracefully');
+  await flushPlayback();
   server.close(() => {
     logProduction('info', 'Process terminated');
     process.exit(0);
@@ -0,0 +1,49 @@
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
+
+const DEFAULT_INVITE_TTL_HOURS = 24;
+const configuredInviteTtl = parseInt(process.env.ROOM_INVITE_TTL_HOURS || '', 10);
+
+// A typo or zero here would mint links that are already expired
+export const ROOM_INVITE_TTL_HOURS = Number.isFinite(configuredInviteTtl) && configuredInviteTtl > 0
+  ? configuredInviteTtl
+  : DEFAULT_INVITE_TTL_HOURS;
+
+interface InviteClaims {
+  type: 'room-invite';
+  roomCode: string;
+  roomCreatedAt: number;
+  invitedBy: string;
+}
+
+// Invites are pinned to the room's creation time so a recycled room code can't reuse old links
+export const createInviteToken = (
+  roomCode: string,
+  roomCreatedAt: number,
+  invitedBy: string
+): { token: string; expiresAt: number } => {
+  const claims: InviteClaims = { type: 'room-invite', roomCode, roomCreatedAt, invitedBy };
+  const token = jwt.sign(claims, JWT_SECRET, {
+    expiresIn: `${ROOM_INVITE_TTL_HOURS}h`,
+    issuer: 'musicsync-server',
+    audience: 'musicsync-invite'
+  });
+
+  return { token, expiresAt: Date.now() + ROOM_INVITE_TTL_HOURS * 60 * 60 * 1000 };
+};
+
+export const verifyInviteToken = (token: unknown, roomCode: string, roomCreatedAt: number): boolean => {
+  if (typeof token !== 'string' || !token) return false;
+
+  try {
+    const claims = jwt.verify(token, JWT_SECRET, {
+      issuer: 'musicsync-server',
+      audience: 'musicsync-invite'
+    }) as InviteClaims;
+
+    return claims.type === 'room-invite' && claims.roomCode === roomCode && claims.roomCreatedAt === roomCreatedAt;
+  } catch {
+    return false;
+  }
+};
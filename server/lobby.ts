@@ -0,0 +1,33 @@
+export interface LobbyEntry {
+  socketId: string;
+  userId: string;
+  username: string;
+  avatar?: string;
+  requestedAt: number;
+}
+
+export const MAX_LOBBY_SIZE = 100;
+
+// Hard ceiling for settings.maxParticipants, whatever the host asks for
+export const MAX_ROOM_CAPACITY = 200;
+export const MIN_ROOM_CAPACITY = 2;
+
+// Add someone to the waiting line; asking again keeps their place but follows their new socket
+export const enqueueLobbyEntry = (lobby: LobbyEntry[], entry: LobbyEntry): { lobby: LobbyEntry[]; error?: string } => {
+  const existing = lobby.find(waiting => waiting.userId === entry.userId);
+  if (existing) {
+    return {
+      lobby: lobby.map(waiting => waiting.userId === entry.userId ? { ...entry, requestedAt: existing.requestedAt } : waiting)
+    };
+  }
+
+  if (lobby.length >= MAX_LOBBY_SIZE) {
+    return { lobby, error: 'The waiting room is full, please try again later' };
+  }
+
+  return { lobby: [...lobby, entry] };
+};
+
+export const lobbyPosition = (lobby: LobbyEntry[], userId: string): number => {
+  return lobby.findIndex(waiting => waiting.userId === userId) + 1;
+};
@@ -0,0 +1,78 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'MusicSync <no-reply@musicsync.app>';
+
+export class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Writes each message to its own JSON file - handy for local development and tests that read the link back
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`);
+    await fs.writeFile(file, JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+// Production logs land in shared places, so one-time tokens in links are blanked out there.
+// In development the link is the only way to finish verification or a reset, so it stays whole.
+const redactTokens = (text: string): string => text.replace(/([?&]token=)[^\s&]+/g, '$1[redacted]');
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    const text = process.env.NODE_ENV === 'production' ? redactTokens(message.text) : message.text;
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${text}`);
+  }
+}
+
+// MAIL_TRANSPORT picks the implementation; without one, SMTP is used when a host is configured
+export const createMailTransport = (): MailTransport => {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  // Deployments from before mail existed still start, but nobody can verify an email or reset a password
+  if (process.env.NODE_ENV === 'production') {
+    if (!process.env.MAIL_TRANSPORT && !process.env.SMTP_HOST) {
+      console.warn('⚠️ Mail is not configured: set SMTP_HOST (or MAIL_TRANSPORT). Emails are only logged, with their links redacted.');
+    } else if (kind === 'smtp' && !process.env.SMTP_HOST) {
+      console.warn('⚠️ MAIL_TRANSPORT is smtp but SMTP_HOST is not set - mail will be sent to localhost.');
+    }
+  }
+
+  switch (kind) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+    default:
+      return new ConsoleTransport();
+  }
+};
+
+export const mailTransport = createMailTransport();
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import bcrypt from 'bcryptjs';
 
 export interface IRoom extends Document {
   roomCode: string;
@@ -13,8 +14,21 @@ export interface IRoom extends Document {
     userId: string;
     username: string;
     avatar?: string;
+    role: 'owner' | 'cohost' | 'dj' | 'moderator' | 'listener';
     joinedAt: Date;
   }>;
+  memberRoles: Array<{
+    userId: string;
+    role: 'cohost' | 'dj' | 'moderator' | 'listener';
+  }>;
+  bans: Array<{
+    userId: string;
+    username: string;
+    bannedBy: string;
+    reason?: string;
+    createdAt: Date;
+    expiresAt?: Date;
+  }>;
   currentTrack?: {
     videoId: string;
     title: string;
@@ -24,21 +38,107 @@ export interface IRoom extends Document {
     currentTime: number;
     isPlaying: boolean;
     timestamp: number;
+    playbackRate: number;
+    pauseAt?: number;
+  };
+  queue: Array<{
+    id: string;
+    videoId: string;
+    title: string;
+    artist: string;
+    thumbnail: string;
+    duration: string;
+    addedBy: {
+      userId: string;
+      username: string;
+    };
+    addedAt: Date;
+  }>;
+  requests: Array<{
+    id: string;
+    videoId: string;
+    title: string;
+    artist: string;
+    thumbnail: string;
+    duration: string;
+    requestedBy: {
+      userId: string;
+      username: string;
+    };
+    status: 'pending' | 'approved' | 'rejected';
+    reason?: string;
+    createdAt: Date;
+    resolvedAt?: Date;
+  }>;
+  chat: Array<{
+    id: string;
+    userId: string;
+    username: string;
+    avatar?: string;
+    text: string;
+    createdAt: Date;
+  }>;
+  djRotation: {
+    enabled: boolean;
+    djs: Array<{
+      userId: string;
+      username: string;
+      avatar?: string;
+    }>;
+    currentDjId?: string;
+    turnStartedAt?: Date;
+    turnEndsAt?: Date;
+    track?: {
+      videoId: string;
+      title: string;
+      artist: string;
+      thumbnail: string;
+      duration: string;
+    };
   };
   createdAt: Date;
   lastActivity: Date;
   isPrivate: boolean;
-  password?: string;
+  hashedPassword?: string;
   settings: {
     allowParticipantRequests: boolean;
     maxParticipants: number;
     autoPlay: boolean;
+    lobbyEnabled: boolean;
+    skipVoting: {
+      enabled: boolean;
+      mode: 'percent' | 'count';
+      threshold: number;
+    };
   };
   stats: {
     totalSongs: number;
     totalTime: number;
     peakParticipants: number;
+    reactions: {
+      fire: number;
+      heart: number;
+      dance: number;
+    };
+    trackReactions: Array<{
+      videoId: string;
+      counts: {
+        fire: number;
+        heart: number;
+        dance: number;
+      };
+      moments: Array<{
+        at: number;
+        fire: number;
+        heart: number;
+        dance: number;
+      }>;
+    }>;
   };
+
+  // Methods
+  requiresPassword(): boolean;
+  comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
 const RoomSchema: Schema = new Schema({
@@ -63,8 +163,32 @@ const RoomSchema: Schema = new Schema({
     userId: { type: String, required: true },
     username: { type: String, required: true },
     avatar: String,
+    role: {
+      type: String,
+      enum: ['owner', 'cohost', 'dj', 'moderator', 'listener'],
+      default: 'listener'
+    },
     joinedAt: { type: Date, default: Date.now }
   }],
+  // Roles granted by the owner, kept so they survive reconnects
+  memberRoles: [{
+    _id: false,
+    userId: { type: String, required: true },
+    role: {
+      type: String,
+      enum: ['cohost', 'dj', 'moderator', 'listener'],
+      required: true
+    }
+  }],
+  bans: [{
+    _id: false,
+    userId: { type: String, required: true },
+    username: String,
+    bannedBy: String,
+    reason: String,
+    createdAt: { type: Date, default: Date.now },
+    expiresAt: Date
+  }],
   currentTrack: {
     videoId: String,
     title: String,
@@ -73,7 +197,74 @@ const RoomSchema: Schema = new Schema({
     duration: String,
     currentTime: { type: Number, default: 0 },
     isPlaying: { type: Boolean, default: false },
-    timestamp: { type: Number, default: Date.now }
+    timestamp: { type: Number, default: Date.now },
+    playbackRate: { type: Number, default: 1 },
+    pauseAt: Number
+  },
+  queue: [{
+    _id: false,
+    id: { type: String, required: true },
+    videoId: { type: String, required: true },
+    title: String,
+    artist: String,
+    thumbnail: String,
+    duration: String,
+    addedBy: {
+      userId: String,
+      username: String
+    },
+    addedAt: { type: Date, default: Date.now }
+  }],
+  requests: [{
+    _id: false,
+    id: { type: String, required: true },
+    videoId: { type: String, required: true },
+    title: String,
+    artist: String,
+    thumbnail: String,
+    duration: String,
+    requestedBy: {
+      userId: String,
+      username: String
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending'
+    },
+    reason: String,
+    createdAt: { type: Date, default: Date.now },
+    resolvedAt: Date
+  }],
+  // Most recent chat messages, trimmed on every write
+  chat: [{
+    _id: false,
+    id: { type: String, required: true },
+    userId: { type: String, required: true },
+    username: { type: String, required: true },
+    avatar: String,
+    text: { type: String, required: true, maxlength: 500 },
+    createdAt: { type: Date, default: Date.now }
+  }],
+  // DJ rotation mode - opted-in DJs take turns picking one track each
+  djRotation: {
+    enabled: { type: Boolean, default: false },
+    djs: [{
+      _id: false,
+      userId: { type: String, required: true },
+      username: { type: String, required: true },
+      avatar: String
+    }],
+    currentDjId: String,
+    turnStartedAt: Date,
+    turnEndsAt: Date,
+    track: {
+      videoId: String,
+      title: String,
+      artist: String,
+      thumbnail: String,
+      duration: String
+    }
   },
   createdAt: {
     type: Date,
@@ -87,21 +278,85 @@ const RoomSchema: Schema = new Schema({
     type: Boolean,
     default: false
   },
-  password: String,
+  hashedPassword: String,
   settings: {
     allowParticipantRequests: { type: Boolean, default: true },
     maxParticipants: { type: Number, default: 50 },
-    autoPlay: { type: Boolean, default: true }
+    autoPlay: { type: Boolean, default: true },
+    lobbyEnabled: { type: Boolean, default: false },
+    // Listeners vote the current track out when the host isn't around to skip it
+    skipVoting: {
+      enabled: { type: Boolean, default: false },
+      mode: { type: String, enum: ['percent', 'count'], default: 'percent' },
+      threshold: { type: Number, default: 50 }
+    }
   },
   stats: {
     totalSongs: { type: Number, default: 0 },
     totalTime: { type: Number, default: 0 },
-    peakParticipants: { type: Number, default: 1 }
+    peakParticipants: { type: Number, default: 1 },
+    reactions: {
+      fire: { type: Number, default: 0 },
+      heart: { type: Number, default: 0 },
+      dance: { type: Number, default: 0 }
+    },
+    // Reactions per track, bucketed by position so hosts can see which moments landed
+    trackReactions: [{
+      _id: false,
+      videoId: { type: String, required: true },
+      counts: {
+        fire: { type: Number, default: 0 },
+        heart: { type: Number, default: 0 },
+        dance: { type: Number, default: 0 }
+      },
+      moments: [{
+        _id: false,
+        at: { type: Number, required: true },
+        fire: { type: Number, default: 0 },
+        heart: { type: Number, default: 0 },
+        dance: { type: Number, default: 0 }
+      }]
+    }]
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  // Never hand the password hash to clients
+  toObject: {
+    transform: function(doc: IRoom, ret: any) {
+      delete ret.hashedPassword;
+      return ret;
+    }
+  },
+  toJSON: {
+    transform: function(doc: IRoom, ret: any) {
+      delete ret.hashedPassword;
+      return ret;
+    }
+  }
 });
 
+// Hash the room password before saving
+RoomSchema.pre<IRoom>('save', async function(next) {
+  if (!this.isModified('hashedPassword') || !this.hashedPassword) return next();
+
+  try {
+    const salt = await bcrypt.genSalt(12);
+    this.hashedPassword = await bcrypt.hash(this.hashedPassword, salt);
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+RoomSchema.methods.requiresPassword = function(this: IRoom): boolean {
+  return this.isPrivate && !!this.hashedPassword;
+};
+
+RoomSchema.methods.comparePassword = async function(this: IRoom, candidatePassword: string): Promise<boolean> {
+  if (!this.hashedPassword || typeof candidatePassword !== 'string') return false;
+  return bcrypt.compare(candidatePassword, this.hashedPassword);
+};
+
 // Auto-delete rooms after 24 hours of inactivity
 RoomSchema.index({ lastActivity: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
 // ❌ Remove this duplicate - already created by unique: true above
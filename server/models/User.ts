@@ -11,11 +11,22 @@ export interface IUser extends Document {
   lastLogin: Date;
   isActive: boolean;
   isVerified: boolean;
-  verificationToken?: string;
+  verificationToken?: string; // SHA-256 of the emailed token
+  verificationExpires?: Date;
   passwordResetToken?: string;
   passwordResetExpires?: Date;
   loginAttempts: number;
   lockUntil?: Date;
+  twoFactor: {
+    secret?: string; // Base32 TOTP secret, set once enrollment is confirmed
+    pendingSecret?: string; // Secret shown during enrollment, until a code confirms it
+    lastStep?: number; // Time step of the last accepted code, so it can't be replayed
+    recoveryCodes: string[]; // SHA-256 hashes of the unused recovery codes
+    failedAttempts?: number; // Wrong codes since the last good one - the password step leaves it alone
+    lockUntil?: Date;
+    challengeId?: string; // Id of the one sign-in challenge that may still be answered
+    challengeAttempts?: number; // Wrong codes sent against that challenge
+  };
   preferences: {
     theme: 'dark' | 'light';
     autoJoinRooms: boolean;
@@ -121,12 +132,15 @@ const UserSchema: Schema = new Schema({
   },
   isVerified: {
     type: Boolean,
-    default: false // In production, you might want email verification
+    default: false
   },
   verificationToken: {
     type: String,
     sparse: true
   },
+  verificationExpires: {
+    type: Date
+  },
   passwordResetToken: {
     type: String,
     sparse: true
@@ -141,6 +155,22 @@ const UserSchema: Schema = new Schema({
   lockUntil: {
     type: Date
   },
+  // Never selected by default - load with .select('+twoFactor') where it's needed
+  twoFactor: {
+    type: {
+      _id: false,
+      secret: String,
+      pendingSecret: String,
+      lastStep: Number,
+      recoveryCodes: { type: [String], default: [] },
+      failedAttempts: Number,
+      lockUntil: Date,
+      challengeId: String,
+      challengeAttempts: Number
+    },
+    select: false,
+    default: () => ({ recoveryCodes: [] })
+  },
   lastLogin: {
     type: Date,
     default: Date.now
@@ -0,0 +1,48 @@
+export interface RoomBan {
+  userId: string;
+  username: string;
+  bannedBy: string;
+  reason?: string;
+  createdAt: number;
+  expiresAt?: number; // Permanent when omitted
+}
+
+// Longest timed ban the client can request - one week
+export const MAX_BAN_DURATION_MINUTES = 7 * 24 * 60;
+
+export const cleanReason = (reason: unknown): string | undefined => {
+  if (typeof reason !== 'string') return undefined;
+  return reason.trim().substring(0, 200) || undefined;
+};
+
+export const findActiveBan = (bans: RoomBan[], userId: string, now: number = Date.now()): RoomBan | undefined => {
+  return bans.find(ban => ban.userId === userId && (!ban.expiresAt || ban.expiresAt > now));
+};
+
+// Replace any earlier ban for the same user and drop expired ones
+export const addBan = (bans: RoomBan[], ban: RoomBan, now: number = Date.now()): RoomBan[] => {
+  return [
+    ...bans.filter(existing => existing.userId !== ban.userId && (!existing.expiresAt || existing.expiresAt > now)),
+    ban
+  ];
+};
+
+export const describeBan = (ban: RoomBan): string => {
+  const until = ban.expiresAt ? ` until ${new Date(ban.expiresAt).toISOString()}` : '';
+  const reason = ban.reason ? `: ${ban.reason}` : '';
+  return `You are banned from this room${until}${reason}`;
+};
+
+// Convert persisted ban subdocuments back into plain bans
+export const hydrateBans = (stored: any[] | undefined): RoomBan[] => {
+  if (!Array.isArray(stored)) return [];
+
+  return stored.map(ban => ({
+    userId: ban.userId,
+    username: ban.username,
+    bannedBy: ban.bannedBy,
+    reason: ban.reason || undefined,
+    createdAt: new Date(ban.createdAt).getTime(),
+    expiresAt: ban.expiresAt ? new Date(ban.expiresAt).getTime() : undefined
+  }));
+};
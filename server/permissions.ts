@@ -0,0 +1,53 @@
+export type RoomRole = 'owner' | 'cohost' | 'dj' | 'moderator' | 'listener';
+
+export type RoomPermission =
+  | 'playback'  // play, pause, seek and load videos
+  | 'queue'     // add, remove, reorder and skip queued tracks
+  | 'requests'  // approve or reject participant song requests
+  | 'moderate'  // act on other participants
+  | 'settings'  // change room settings
+  | 'roles';    // promote and demote participants
+
+export const ROOM_ROLES: RoomRole[] = ['owner', 'cohost', 'dj', 'moderator', 'listener'];
+
+const ROLE_PERMISSIONS: Record<RoomRole, RoomPermission[]> = {
+  owner: ['playback', 'queue', 'requests', 'moderate', 'settings', 'roles'],
+  cohost: ['playback', 'queue', 'requests', 'moderate'],
+  dj: ['queue'],
+  moderator: ['requests', 'moderate'],
+  listener: []
+};
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  owner: 4,
+  cohost: 3,
+  moderator: 2,
+  dj: 1,
+  listener: 0
+};
+
+// Moderation only flows downwards - nobody can act on a peer or a superior
+export const outranks = (actor: RoomRole, target: RoomRole): boolean => {
+  return ROLE_RANK[actor] > ROLE_RANK[target];
+};
+
+export const hasPermission = (role: RoomRole | undefined, permission: RoomPermission): boolean => {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+};
+
+// Roles the owner can hand out - ownership itself only moves through host transfer
+export const isAssignableRole = (role: unknown): role is Exclude<RoomRole, 'owner'> => {
+  return typeof role === 'string' && role !== 'owner' && (ROOM_ROLES as string[]).includes(role);
+};
+
+// Convert persisted role assignments back into a lookup by user id
+export const hydrateMemberRoles = (stored: any[] | undefined): Record<string, RoomRole> => {
+  if (!Array.isArray(stored)) return {};
+
+  return stored.reduce<Record<string, RoomRole>>((roles, entry) => {
+    if (entry?.userId && isAssignableRole(entry.role)) {
+      roles[entry.userId] = entry.role;
+    }
+    return roles;
+  }, {});
+};
@@ -0,0 +1,57 @@
+import { QueueTrack } from './queue';
+
+// The parts of a room's playback state that survive a restart (the version is per process)
+export interface StoredPlayback {
+  videoId: string;
+  currentTime: number;
+  isPlaying: boolean;
+  timestamp: number;
+  playbackRate: number;
+  pauseAt?: number;
+}
+
+export type StoredTrack = StoredPlayback & Omit<QueueTrack, 'videoId'>;
+
+// Playback changes arrive in bursts (seeks, rate nudges) - write the latest state at most this often
+export const PLAYBACK_PERSIST_INTERVAL = parseInt(process.env.PLAYBACK_PERSIST_INTERVAL_MS || '5000', 10);
+
+// Wall-clock seconds a state spent playing between its timestamp and now, stopping at a scheduled pause
+export const listenedSeconds = (state: { isPlaying: boolean; timestamp: number; pauseAt?: number }, now: number): number => {
+  if (!state.isPlaying) return 0;
+  const end = state.pauseAt !== undefined ? Math.min(now, state.pauseAt) : now;
+  return Math.max(0, (end - state.timestamp) / 1000);
+};
+
+export const toStoredTrack = (state: StoredPlayback, info?: QueueTrack): StoredTrack => ({
+  videoId: state.videoId,
+  title: info?.title || '',
+  artist: info?.artist || '',
+  thumbnail: info?.thumbnail || '',
+  duration: info?.duration || '',
+  currentTime: state.currentTime,
+  isPlaying: state.isPlaying,
+  timestamp: state.timestamp,
+  playbackRate: state.playbackRate,
+  pauseAt: state.pauseAt
+});
+
+// Convert a persisted currentTrack back into playback state plus its metadata.
+// Timestamps are wall-clock, so a playing track carries on from where it would be by now.
+export const hydrateStoredTrack = (stored: any): { state: StoredPlayback; info?: QueueTrack } | undefined => {
+  if (!stored?.videoId) return undefined;
+
+  const state: StoredPlayback = {
+    videoId: stored.videoId,
+    currentTime: stored.currentTime || 0,
+    isPlaying: !!stored.isPlaying,
+    timestamp: stored.timestamp || Date.now(),
+    playbackRate: stored.playbackRate || 1,
+    pauseAt: stored.pauseAt || undefined
+  };
+
+  const info = stored.title
+    ? { videoId: stored.videoId, title: stored.title, artist: stored.artist || '', thumbnail: stored.thumbnail || '', duration: stored.duration || '' }
+    : undefined;
+
+  return { state, info };
+};
@@ -0,0 +1,54 @@
+import { RoomRole } from './permissions';
+
+export type ConnectionState = 'connected' | 'reconnecting';
+
+// 'hidden' for people who turned off preferences.privacy.showOnlineStatus
+export type PresenceStatus = 'active' | 'idle' | 'hidden';
+
+export interface RosterEntry {
+  userId: string;
+  username: string;
+  avatar?: string;
+  role: RoomRole;
+  connection: ConnectionState;
+  presence: PresenceStatus;
+  joinedAt: number;
+}
+
+// No socket traffic for this long counts as idle
+export const IDLE_AFTER = parseInt(process.env.PRESENCE_IDLE_AFTER_MS || String(5 * 60 * 1000), 10);
+
+export const isIdle = (lastActivity: number | undefined, now: number = Date.now()): boolean => {
+  return lastActivity === undefined || now - lastActivity >= IDLE_AFTER;
+};
+
+export const createRosterEntry = (
+  member: { userId: string; username: string; avatar?: string; role: RoomRole; joinedAt: number; showOnlineStatus: boolean },
+  connection: ConnectionState,
+  lastActivity: number | undefined,
+  now: number = Date.now()
+): RosterEntry => {
+  const base = {
+    userId: member.userId,
+    username: member.username,
+    avatar: member.avatar,
+    role: member.role,
+    joinedAt: member.joinedAt
+  };
+
+  // Hidden users are listed, but give nothing away about their connection or activity
+  if (!member.showOnlineStatus) {
+    return { ...base, connection: 'connected', presence: 'hidden' };
+  }
+
+  return { ...base, connection, presence: connection === 'connected' && !isIdle(lastActivity, now) ? 'active' : 'idle' };
+};
+
+// Owner first, then by join time
+export const sortRoster = (roster: RosterEntry[]): RosterEntry[] => {
+  return [...roster].sort((a, b) => {
+    if (a.role === 'owner' && b.role !== 'owner') return -1;
+    if (b.role === 'owner' && a.role !== 'owner') return 1;
+    return a.joinedAt - b.joinedAt;
+  });
+};
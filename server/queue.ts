@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+
+export interface QueueTrack {
+  videoId: string;
+  title: string;
+  artist: string;
+  thumbnail: string;
+  duration: string;
+}
+
+export interface QueueItem extends QueueTrack {
+  id: string;
+  addedBy: {
+    userId: string;
+    username: string;
+  };
+  addedAt: number;
+}
+
+export const MAX_QUEUE_LENGTH = 100;
+
+const YOUTUBE_VIDEO_ID = /^[a-zA-Z0-9_-]{11}$/;
+
+const cleanString = (value: unknown, maxLength: number, fallback: string = ''): string => {
+  if (typeof value !== 'string') return fallback;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.substring(0, maxLength) : fallback;
+};
+
+// Validate and normalize client-provided track metadata
+export const sanitizeQueueTrack = (data: any): QueueTrack | null => {
+  if (!data || typeof data.videoId !== 'string' || !YOUTUBE_VIDEO_ID.test(data.videoId)) {
+    return null;
+  }
+
+  return {
+    videoId: data.videoId,
+    title: cleanString(data.title, 200, 'Unknown Title'),
+    artist: cleanString(data.artist, 100, 'Unknown Artist'),
+    thumbnail: cleanString(data.thumbnail, 500),
+    duration: cleanString(data.duration, 20)
+  };
+};
+
+export const createQueueItem = (track: QueueTrack, addedBy: { userId: string; username: string }): QueueItem => ({
+  ...track,
+  id: randomUUID(),
+  addedBy,
+  addedAt: Date.now()
+});
+
+export const addToQueue = (queue: QueueItem[], item: QueueItem): { queue: QueueItem[]; error?: string } => {
+  if (queue.length >= MAX_QUEUE_LENGTH) {
+    return { queue, error: `Queue is full (max ${MAX_QUEUE_LENGTH} tracks)` };
+  }
+  return { queue: [...queue, item] };
+};
+
+export const removeFromQueue = (queue: QueueItem[], itemId: string): { queue: QueueItem[]; error?: string } => {
+  if (!queue.some(item => item.id === itemId)) {
+    return { queue, error: 'Track not found in queue' };
+  }
+  return { queue: queue.filter(item => item.id !== itemId) };
+};
+
+export const moveQueueItem = (queue: QueueItem[], itemId: string, toIndex: number): { queue: QueueItem[]; error?: string } => {
+  const fromIndex = queue.findIndex(item => item.id === itemId);
+  if (fromIndex === -1) {
+    return { queue, error: 'Track not found in queue' };
+  }
+  if (!Number.isInteger(toIndex) || toIndex < 0 || toIndex >= queue.length) {
+    return { queue, error: 'Invalid queue position' };
+  }
+
+  const next = [...queue];
+  const [item] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, item);
+  return { queue: next };
+};
+
+// Take the first track off the queue
+export const shiftQueue = (queue: QueueItem[]): { queue: QueueItem[]; next?: QueueItem } => {
+  if (queue.length === 0) {
+    return { queue };
+  }
+  const [next, ...rest] = queue;
+  return { queue: rest, next };
+};
+
+// Convert persisted queue subdocuments back into plain items
+export const hydrateQueue = (stored: any[] | undefined): QueueItem[] => {
+  if (!Array.isArray(stored)) return [];
+
+  return stored.map(item => ({
+    id: item.id,
+    videoId: item.videoId,
+    title: item.title,
+    artist: item.artist,
+    thumbnail: item.thumbnail,
+    duration: item.duration,
+    addedBy: {
+      userId: item.addedBy?.userId,
+      username: item.addedBy?.username
+    },
+    addedAt: new Date(item.addedAt).getTime()
+  }));
+};
@@ -0,0 +1,87 @@
+export type ReactionType = 'fire' | 'heart' | 'dance';
+
+export const REACTION_TYPES: ReactionType[] = ['fire', 'heart', 'dance'];
+
+export type ReactionCounts = Record<ReactionType, number>;
+
+export interface ReactionMoment extends ReactionCounts {
+  at: number; // Start of the bucket in seconds into the track
+}
+
+export interface TrackReactions {
+  videoId: string;
+  counts: ReactionCounts;
+  moments: ReactionMoment[]; // Sorted by position
+}
+
+export const REACTION_BUCKET_SECONDS = 10;
+export const MAX_REACTIONS_PER_WINDOW = 10;
+const REACTION_RATE_WINDOW = 5 * 1000;
+const MAX_TRACKS_WITH_REACTIONS = 50;
+
+export const isReactionType = (type: unknown): type is ReactionType => {
+  return typeof type === 'string' && (REACTION_TYPES as string[]).includes(type);
+};
+
+export const emptyReactionCounts = (): ReactionCounts => ({ fire: 0, heart: 0, dance: 0 });
+
+// Sliding window per user; returns the updated timestamps, or null when over the limit
+export const recordReactionSend = (sentAt: number[] | undefined, now: number = Date.now()): number[] | null => {
+  const recent = (sentAt || []).filter(timestamp => now - timestamp < REACTION_RATE_WINDOW);
+  if (recent.length >= MAX_REACTIONS_PER_WINDOW) return null;
+  return [...recent, now];
+};
+
+// Count a reaction against its track and the moment it landed
+export const addReaction = (
+  tracks: TrackReactions[],
+  videoId: string,
+  position: number,
+  type: ReactionType
+): TrackReactions[] => {
+  const at = Math.max(0, Math.floor(position / REACTION_BUCKET_SECONDS) * REACTION_BUCKET_SECONDS);
+  const existing = tracks.find(track => track.videoId === videoId);
+  const track: TrackReactions = existing
+    ? { ...existing, counts: { ...existing.counts }, moments: [...existing.moments] }
+    : { videoId, counts: emptyReactionCounts(), moments: [] };
+
+  track.counts[type] += 1;
+
+  const momentIndex = track.moments.findIndex(moment => moment.at === at);
+  if (momentIndex === -1) {
+    track.moments.push({ at, ...emptyReactionCounts(), [type]: 1 });
+    track.moments.sort((a, b) => a.at - b.at);
+  } else {
+    const moment = track.moments[momentIndex];
+    track.moments[momentIndex] = { ...moment, [type]: moment[type] + 1 };
+  }
+
+  // Most recently reacted-to track last, oldest dropped first
+  return [...tracks.filter(other => other.videoId !== videoId), track].slice(-MAX_TRACKS_WITH_REACTIONS);
+};
+
+export const totalReactionCounts = (tracks: TrackReactions[]): ReactionCounts => {
+  return tracks.reduce<ReactionCounts>((totals, track) => {
+    REACTION_TYPES.forEach(type => { totals[type] += track.counts[type]; });
+    return totals;
+  }, emptyReactionCounts());
+};
+
+// Convert persisted per-track reaction stats back into plain objects
+export const hydrateTrackReactions = (stored: any[] | undefined): TrackReactions[] => {
+  if (!Array.isArray(stored)) return [];
+
+  const readCounts = (source: any): ReactionCounts => ({
+    fire: source?.fire || 0,
+    heart: source?.heart || 0,
+    dance: source?.dance || 0
+  });
+
+  return stored.map(track => ({
+    videoId: track.videoId,
+    counts: readCounts(track.counts),
+    moments: Array.isArray(track.moments)
+      ? track.moments.map((moment: any) => ({ at: moment.at, ...readCounts(moment) }))
+      : []
+  }));
+};
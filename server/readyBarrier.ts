@@ -0,0 +1,61 @@
+export interface ReadyBarrier {
+  videoId: string;
+  waiting: string[]; // User ids still buffering
+  ready: string[];
+  startedAt: number;
+  deadline: number; // Server time at which stragglers are left behind
+}
+
+export interface ReadyBarrierStatus {
+  videoId: string;
+  deadline: number;
+  readyCount: number;
+  total: number;
+  waiting: { userId: string; username: string }[];
+}
+
+// How long everyone else waits for the slowest player to buffer
+export const READY_TIMEOUT = parseInt(process.env.READY_BARRIER_TIMEOUT_MS || '8000', 10);
+
+// Gap between releasing the barrier and the start, so the broadcast lands before playback begins
+export const START_LEAD = parseInt(process.env.READY_START_LEAD_MS || '750', 10);
+
+export const createReadyBarrier = (videoId: string, userIds: string[], now: number = Date.now()): ReadyBarrier => ({
+  videoId,
+  waiting: [...new Set(userIds)],
+  ready: [],
+  startedAt: now,
+  deadline: now + READY_TIMEOUT
+});
+
+export const markReady = (barrier: ReadyBarrier, userId: string): ReadyBarrier => {
+  if (!barrier.waiting.includes(userId)) return barrier;
+
+  return {
+    ...barrier,
+    waiting: barrier.waiting.filter(waiting => waiting !== userId),
+    ready: [...barrier.ready, userId]
+  };
+};
+
+// Someone who left can't hold up the start
+export const dropFromBarrier = (barrier: ReadyBarrier, userId: string): ReadyBarrier => ({
+  ...barrier,
+  waiting: barrier.waiting.filter(waiting => waiting !== userId)
+});
+
+export const isBarrierComplete = (barrier: ReadyBarrier): boolean => barrier.waiting.length === 0;
+
+export const readyBarrierStatus = (
+  barrier: ReadyBarrier,
+  participants: { userId: string; username: string }[]
+): ReadyBarrierStatus => ({
+  videoId: barrier.videoId,
+  deadline: barrier.deadline,
+  readyCount: barrier.ready.length,
+  total: barrier.ready.length + barrier.waiting.length,
+  waiting: barrier.waiting.map(userId => ({
+    userId,
+    username: participants.find(p => p.userId === userId)?.username || 'Unknown'
+  }))
+});
@@ -0,0 +1,112 @@
+import { randomUUID } from 'crypto';
+import { QueueTrack } from './queue';
+
+export type SongRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface SongRequest extends QueueTrack {
+  id: string;
+  requestedBy: {
+    userId: string;
+    username: string;
+  };
+  status: SongRequestStatus;
+  reason?: string;
+  createdAt: number;
+  resolvedAt?: number;
+}
+
+export const MAX_PENDING_REQUESTS_PER_USER = 3;
+export const MAX_REQUESTS_PER_USER_PER_HOUR = 10;
+const MAX_RESOLVED_REQUESTS = 50;
+const REQUEST_WINDOW = 60 * 60 * 1000;
+
+export const createSongRequest = (track: QueueTrack, requestedBy: { userId: string; username: string }): SongRequest => ({
+  ...track,
+  id: randomUUID(),
+  requestedBy,
+  status: 'pending',
+  createdAt: Date.now()
+});
+
+// Returns an error message if the user may not submit another request right now
+export const checkRequestLimits = (requests: SongRequest[], userId: string, videoId: string, now: number = Date.now()): string | null => {
+  const mine = requests.filter(request => request.requestedBy.userId === userId);
+
+  if (mine.some(request => request.status === 'pending' && request.videoId === videoId)) {
+    return 'You already requested this song';
+  }
+
+  if (mine.filter(request => request.status === 'pending').length >= MAX_PENDING_REQUESTS_PER_USER) {
+    return `You can have at most ${MAX_PENDING_REQUESTS_PER_USER} pending requests`;
+  }
+
+  if (mine.filter(request => now - request.createdAt < REQUEST_WINDOW).length >= MAX_REQUESTS_PER_USER_PER_HOUR) {
+    return `Request limit reached (${MAX_REQUESTS_PER_USER_PER_HOUR} per hour)`;
+  }
+
+  return null;
+};
+
+// Mark a pending request as approved or rejected
+export const resolveSongRequest = (
+  requests: SongRequest[],
+  requestId: string,
+  status: Exclude<SongRequestStatus, 'pending'>,
+  reason?: string
+): { requests: SongRequest[]; request?: SongRequest; error?: string } => {
+  const existing = requests.find(request => request.id === requestId);
+  if (!existing) {
+    return { requests, error: 'Request not found' };
+  }
+  if (existing.status !== 'pending') {
+    return { requests, error: 'Request was already handled' };
+  }
+
+  const resolved: SongRequest = {
+    ...existing,
+    status,
+    reason: reason ? reason.trim().substring(0, 200) || undefined : undefined,
+    resolvedAt: Date.now()
+  };
+
+  return {
+    requests: pruneSongRequests(requests.map(request => request.id === requestId ? resolved : request)),
+    request: resolved
+  };
+};
+
+// Keep every pending request but only the most recent resolved ones
+export const pruneSongRequests = (requests: SongRequest[]): SongRequest[] => {
+  const resolved = requests.filter(request => request.status !== 'pending');
+  if (resolved.length <= MAX_RESOLVED_REQUESTS) return requests;
+
+  const dropped = new Set(
+    [...resolved]
+      .sort((a, b) => (a.resolvedAt ?? a.createdAt) - (b.resolvedAt ?? b.createdAt))
+      .slice(0, resolved.length - MAX_RESOLVED_REQUESTS)
+      .map(request => request.id)
+  );
+  return requests.filter(request => !dropped.has(request.id));
+};
+
+// Convert persisted request subdocuments back into plain requests
+export const hydrateSongRequests = (stored: any[] | undefined): SongRequest[] => {
+  if (!Array.isArray(stored)) return [];
+
+  return stored.map(request => ({
+    id: request.id,
+    videoId: request.videoId,
+    title: request.title,
+    artist: request.artist,
+    thumbnail: request.thumbnail,
+    duration: request.duration,
+    requestedBy: {
+      userId: request.requestedBy?.userId,
+      username: request.requestedBy?.username
+    },
+    status: request.status,
+    reason: request.reason || undefined,
+    createdAt: new Date(request.createdAt).getTime(),
+    resolvedAt: request.resolvedAt ? new Date(request.resolvedAt).getTime() : undefined
+  }));
+};
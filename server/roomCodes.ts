@@ -0,0 +1,69 @@
+import { randomInt } from 'crypto';
+
+// No 0/O, 1/I/L - codes get read aloud and typed from screenshots
+const DEFAULT_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const MIN_CODE_LENGTH = 4;
+const MAX_CODE_LENGTH = 10; // Matches the Room schema
+
+const MAX_ALLOCATION_ATTEMPTS = 20;
+
+// Substrings we never hand out, including common digit-for-letter swaps
+const BLOCKED_WORDS = [
+  'ANAL', 'ANUS', 'ARSE', 'ASS', 'BITCH', 'BOOB', 'BUTT', 'COCK', 'CRAP', 'CUM', 'CUNT',
+  'DAMN', 'DICK', 'DYKE', 'FAG', 'FUCK', 'FUK', 'FCK', 'GAY', 'HELL', 'JIZZ', 'KKK',
+  'KIKE', 'NAZI', 'NIG', 'PISS', 'PORN', 'PUSSY', 'RAPE', 'SEX', 'SHIT', 'SLUT',
+  'SPIC', 'TIT', 'TWAT', 'WANK', 'WHORE', 'XXX'
+];
+
+const LOOKALIKES: Record<string, string> = { '0': 'O', '1': 'I', '3': 'E', '4': 'A', '5': 'S', '7': 'T', '8': 'B' };
+
+const clampLength = (length: number): number => {
+  if (!Number.isFinite(length)) return 6;
+  return Math.min(MAX_CODE_LENGTH, Math.max(MIN_CODE_LENGTH, Math.floor(length)));
+};
+
+// Only characters the Room schema accepts, without duplicates
+const sanitizeAlphabet = (alphabet: string): string => {
+  const cleaned = Array.from(new Set(alphabet.toUpperCase().replace(/[^A-Z0-9]/g, ''))).join('');
+  return cleaned.length >= 10 ? cleaned : DEFAULT_ALPHABET;
+};
+
+export const ROOM_CODE_LENGTH = clampLength(parseInt(process.env.ROOM_CODE_LENGTH || '6', 10));
+export const ROOM_CODE_ALPHABET = sanitizeAlphabet(process.env.ROOM_CODE_ALPHABET || DEFAULT_ALPHABET);
+
+export const containsBlockedWord = (code: string): boolean => {
+  const normalized = code.toUpperCase();
+  const deobfuscated = normalized.replace(/[0-9]/g, digit => LOOKALIKES[digit] || digit);
+  return BLOCKED_WORDS.some(word => normalized.includes(word) || deobfuscated.includes(word));
+};
+
+export const generateRoomCode = (): string => {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+};
+
+// Draw codes until one is clean and free; throws if the space looks exhausted
+export const allocateRoomCode = async (isTaken: (code: string) => Promise<boolean>): Promise<string> => {
+  for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const code = generateRoomCode();
+    if (containsBlockedWord(code)) continue;
+    if (!(await isTaken(code))) return code;
+  }
+
+  throw new Error('Could not allocate a room code');
+};
+
+// Returns an error message if the requested vanity code can't be used
+export const checkVanityCode = (code: unknown): string | null => {
+  if (typeof code !== 'string' || !new RegExp(`^[A-Z0-9]{${MIN_CODE_LENGTH},${MAX_CODE_LENGTH}}$`).test(code)) {
+    return `Custom codes must be ${MIN_CODE_LENGTH}-${MAX_CODE_LENGTH} letters or digits`;
+  }
+  if (containsBlockedWord(code)) {
+    return 'That room code is not allowed';
+  }
+  return null;
+};
@@ -0,0 +1,64 @@
+export type SkipThresholdMode = 'percent' | 'count';
+
+export interface SkipVoteSettings {
+  enabled: boolean;
+  mode: SkipThresholdMode; // Share of present listeners, or a fixed number of votes
+  threshold: number;
+}
+
+export interface SkipVoteTally {
+  videoId: string;
+  votes: number;
+  required: number;
+  voters: string[]; // User ids
+}
+
+export const DEFAULT_SKIP_VOTING: SkipVoteSettings = { enabled: false, mode: 'percent', threshold: 50 };
+export const MAX_SKIP_VOTE_COUNT = 100;
+
+// Validate a partial update against the current settings
+export const mergeSkipVoteSettings = (
+  current: SkipVoteSettings,
+  update: any
+): { settings?: SkipVoteSettings; error?: string } => {
+  if (!update || typeof update !== 'object') return { error: 'Invalid skip voting settings' };
+
+  const settings = { ...current };
+  if (update.enabled !== undefined) {
+    if (typeof update.enabled !== 'boolean') return { error: 'Invalid skip voting settings' };
+    settings.enabled = update.enabled;
+  }
+  if (update.mode !== undefined) {
+    if (update.mode !== 'percent' && update.mode !== 'count') return { error: 'Unknown skip threshold type' };
+    settings.mode = update.mode;
+  }
+  if (update.threshold !== undefined) {
+    if (!Number.isInteger(update.threshold)) return { error: 'Skip threshold must be a whole number' };
+    settings.threshold = update.threshold;
+  }
+
+  // Switching modes without a new threshold falls back to that mode's default
+  if (update.mode !== undefined && update.threshold === undefined && update.mode !== current.mode) {
+    settings.threshold = settings.mode === 'percent' ? DEFAULT_SKIP_VOTING.threshold : 3;
+  }
+
+  const max = settings.mode === 'percent' ? 100 : MAX_SKIP_VOTE_COUNT;
+  if (settings.threshold < 1 || settings.threshold > max) {
+    return { error: settings.mode === 'percent' ? 'Skip threshold must be between 1% and 100%' : `Skip threshold must be between 1 and ${MAX_SKIP_VOTE_COUNT} votes` };
+  }
+
+  return { settings };
+};
+
+// A fixed count never asks for more votes than there are listeners to give them
+export const requiredSkipVotes = (settings: SkipVoteSettings, presentListeners: number): number => {
+  const listeners = Math.max(1, presentListeners);
+  if (settings.mode === 'count') return Math.min(settings.threshold, listeners);
+  return Math.max(1, Math.ceil((listeners * settings.threshold) / 100));
+};
+
+export const hydrateSkipVoteSettings = (stored: any): SkipVoteSettings => ({
+  enabled: stored?.enabled ?? DEFAULT_SKIP_VOTING.enabled,
+  mode: stored?.mode === 'count' ? 'count' : 'percent',
+  threshold: typeof stored?.threshold === 'number' ? stored.threshold : DEFAULT_SKIP_VOTING.threshold
+});
@@ -0,0 +1,45 @@
+export interface DeviceInfo {
+  platform: string;
+  browser: string;
+  os: string;
+  isMobile: boolean;
+}
+
+// Order matters: Edge and Opera also claim Chrome, and Chrome claims Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(?:e|A|iOS)?\/([\d.]+)/, 'Edge'],
+  [/(?:OPR|Opera)\/([\d.]+)/, 'Opera'],
+  [/SamsungBrowser\/([\d.]+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/([\d.]+)/, 'Firefox'],
+  [/(?:Chrome|CriOS)\/([\d.]+)/, 'Chrome'],
+  [/Version\/([\d.]+).*Safari\//, 'Safari']
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows NT/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+// Enough to tell devices apart in the session list - not a full user agent parser
+export const parseUserAgent = (userAgent?: string): DeviceInfo => {
+  const ua = userAgent || '';
+
+  const browserMatch = BROWSERS.find(([pattern]) => pattern.test(ua));
+  const version = browserMatch ? ua.match(browserMatch[0])?.[1]?.split('.')[0] : undefined;
+  const browser = browserMatch ? `${browserMatch[1]}${version ? ` ${version}` : ''}` : 'Unknown browser';
+
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] || 'Unknown OS';
+  const isMobile = /Mobi|iPhone|iPod|Android.*Mobile/.test(ua);
+  const isTablet = /iPad|Tablet|Android(?!.*Mobile)/.test(ua);
+
+  return {
+    platform: isMobile ? 'mobile' : isTablet ? 'tablet' : ua ? 'desktop' : 'unknown',
+    browser,
+    os,
+    isMobile
+  };
+};
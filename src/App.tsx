@@ -1,9 +1,11 @@
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from './contexts/AuthContext';
 import AuthModal from './components/AuthModal';
 import HomePage from './pages/Home';
 import HostRoom from './pages/HostRoom';
 import JoinRoom from './pages/JoinRoom';
+import VerifyEmail from './pages/VerifyEmail';
+import Account from './pages/Account';
 import ConnectionDebug from './components/ConnectionDebug';
 import { useState } from 'react';
 import './index.css';
@@ -11,6 +13,18 @@ import './index.css';
 function App() {
   const { isAuthenticated, isLoading } = useAuth();
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // The password reset email links to /reset-password?token=...
+  const resetToken = location.pathname === '/reset-password'
+    ? new URLSearchParams(location.search).get('token') || undefined
+    : undefined;
+
+  const handleCloseAuthModal = () => {
+    setShowAuthModal(false);
+    if (resetToken) navigate('/', { replace: true });
+  };
 
   if (isLoading) {
     return (
@@ -56,6 +70,19 @@ function App() {
             )
           }
         />
+        <Route
+          path="/account"
+          element={
+            isAuthenticated ? (
+              <Account />
+            ) : (
+              <Navigate to="/" replace />
+            )
+          }
+        />
+        <Route path="/reset-password" element={<HomePage onShowAuth={() => setShowAuthModal(true)} />} />
+        {/* Opened from the verification email, signed in or not */}
+        <Route path="/verify-email" element={<VerifyEmail />} />
         {/* Debug route - only accessible in development */}
         {import.meta.env.DEV && (
           <Route
@@ -67,8 +94,9 @@ function App() {
       </Routes>
 
       <AuthModal
-        isOpen={showAuthModal}
-        onClose={() => setShowAuthModal(false)}
+        isOpen={showAuthModal || !!resetToken}
+        onClose={handleCloseAuthModal}
+        resetToken={resetToken}
       />
     </div>
   );
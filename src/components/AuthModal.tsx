@@ -1,34 +1,87 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 
+type AuthMode = 'login' | 'register' | 'forgot' | 'reset' | 'twoFactor';
+
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
-  initialMode?: 'login' | 'register';
+  initialMode?: AuthMode;
+  resetToken?: string; // From the password reset email, opens the modal on the new-password form
 }
 
-export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalProps) {
-  const [mode, setMode] = useState(initialMode);
+const MODE_COPY: Record<AuthMode, { title: string; subtitle: string; submit: string; pending: string }> = {
+  login: { title: 'Sign in to MusicSync', subtitle: 'Welcome back! Please sign in to continue.', submit: 'Sign in', pending: 'Signing in...' },
+  register: { title: 'Create your account', subtitle: 'Join the music sync community today.', submit: 'Create account', pending: 'Creating account...' },
+  forgot: { title: 'Reset your password', subtitle: "Enter your email and we'll send you a reset link.", submit: 'Send reset link', pending: 'Sending link...' },
+  reset: { title: 'Choose a new password', subtitle: 'You will be signed out on all your devices.', submit: 'Set new password', pending: 'Saving password...' },
+  twoFactor: { title: 'Two-factor authentication', subtitle: 'Enter the code from your authenticator app.', submit: 'Verify', pending: 'Verifying...' }
+};
+
+export default function AuthModal({ isOpen, onClose, initialMode = 'login', resetToken }: AuthModalProps) {
+  const [mode, setMode] = useState<AuthMode>(resetToken ? 'reset' : initialMode);
   const [formData, setFormData] = useState({
     username: '',
     email: '',
     password: '',
-    confirmPassword: ''
+    confirmPassword: '',
+    code: ''
   });
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   
-  const { login, register } = useAuth();
+  const { login, verifyTwoFactor, register, requestPasswordReset, resetPassword } = useAuth();
+
+  useEffect(() => {
+    if (resetToken) setMode('reset');
+  }, [resetToken]);
 
   if (!isOpen) return null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setIsLoading(true);
 
     try {
-      if (mode === 'register') {
+      if (mode === 'forgot') {
+        const result = await requestPasswordReset(formData.email);
+        if (result.success) {
+          setNotice(result.message || 'Check your email for a reset link');
+        } else {
+          setError(result.error || 'Could not request a password reset');
+        }
+      } else if (mode === 'reset') {
+        if (formData.password !== formData.confirmPassword) {
+          setError('Passwords do not match');
+          return;
+        }
+
+        const result = await resetPassword(resetToken || '', formData.password);
+        if (result.success) {
+          setFormData(prev => ({ ...prev, password: '', confirmPassword: '' }));
+          setMode('login');
+          setNotice('Your password has been reset. Sign in with your new password.');
+        } else {
+          setError(result.validationErrors?.join('. ') || result.error || 'Password reset failed');
+        }
+      } else if (mode === 'twoFactor') {
+        const result = await verifyTwoFactor(challengeToken || '', formData.code);
+        if (result.success) {
+          setChallengeToken(null);
+          onClose();
+        } else if (result.requiresReauth) {
+          setChallengeToken(null);
+          setFormData(prev => ({ ...prev, password: '', code: '' }));
+          setMode('login');
+          setError(result.error || 'Please sign in again');
+        } else {
+          setError(result.error || 'Invalid verification code');
+        }
+      } else if (mode === 'register') {
         if (formData.password !== formData.confirmPassword) {
           setError('Passwords do not match');
           return;
@@ -42,7 +95,11 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
         }
       } else {
         const result = await login(formData.email || formData.username, formData.password);
-        if (result.success) {
+        if (result.requiresTwoFactor) {
+          setChallengeToken(result.challengeToken || null);
+          setFormData(prev => ({ ...prev, code: '' }));
+          setMode('twoFactor');
+        } else if (result.success) {
           onClose();
         } else {
           setError(result.error || 'Login failed');
@@ -55,6 +112,13 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
     }
   };
 
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setChallengeToken(null);
+    setError('');
+    setNotice('');
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
@@ -91,10 +155,10 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                 </div>
                 <div>
                   <h3 className="text-lg font-medium leading-6 text-white">
-                    {mode === 'login' ? 'Sign in to MusicSync' : 'Create your account'}
+                    {MODE_COPY[mode].title}
                   </h3>
                   <p className="text-sm text-gray-400">
-                    {mode === 'login' ? 'Welcome back! Please sign in to continue.' : 'Join the music sync community today.'}
+                    {MODE_COPY[mode].subtitle}
                   </p>
                 </div>
               </div>
@@ -115,6 +179,12 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                 </div>
               )}
 
+              {notice && (
+                <div className="mb-4 rounded-md bg-green-900/30 border border-green-700/50 p-4">
+                  <p className="text-sm text-green-300">{notice}</p>
+                </div>
+              )}
+
               {/* Form */}
               <form onSubmit={handleSubmit} className="space-y-4">
                 {mode === 'register' && (
@@ -137,43 +207,82 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                   </div>
                 )}
 
-                <div>
-                  <label htmlFor="email" className="block text-sm font-medium text-gray-300">
-                    {mode === 'login' ? 'Email or Username' : 'Email address'}
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      id="email"
-                      type={mode === 'login' ? 'text' : 'email'}
-                      name="email"
-                      value={formData.email}
-                      onChange={handleInputChange}
-                      required
-                      className="block w-full rounded-md border-gray-600 bg-gray-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm placeholder-gray-400"
-                      placeholder={mode === 'login' ? 'Enter email or username' : 'Enter your email address'}
-                    />
+                {mode === 'twoFactor' && (
+                  <div>
+                    <label htmlFor="code" className="block text-sm font-medium text-gray-300">
+                      Verification code
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        id="code"
+                        type="text"
+                        name="code"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        value={formData.code}
+                        onChange={handleInputChange}
+                        required
+                        className="block w-full rounded-md border-gray-600 bg-gray-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm placeholder-gray-400 font-mono tracking-widest"
+                        placeholder="123456"
+                      />
+                    </div>
+                    <p className="mt-2 text-xs text-gray-400">Lost your device? Enter one of your recovery codes instead.</p>
                   </div>
-                </div>
+                )}
 
-                <div>
-                  <label htmlFor="password" className="block text-sm font-medium text-gray-300">
-                    Password
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      id="password"
-                      type="password"
-                      name="password"
-                      value={formData.password}
-                      onChange={handleInputChange}
-                      required
-                      className="block w-full rounded-md border-gray-600 bg-gray-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm placeholder-gray-400"
-                      placeholder="Enter your password"
-                    />
+                {mode !== 'reset' && mode !== 'twoFactor' && (
+                  <div>
+                    <label htmlFor="email" className="block text-sm font-medium text-gray-300">
+                      {mode === 'login' ? 'Email or Username' : 'Email address'}
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        id="email"
+                        type={mode === 'login' ? 'text' : 'email'}
+                        name="email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        required
+                        className="block w-full rounded-md border-gray-600 bg-gray-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm placeholder-gray-400"
+                        placeholder={mode === 'login' ? 'Enter email or username' : 'Enter your email address'}
+                      />
+                    </div>
                   </div>
-                </div>
+                )}
 
-                {mode === 'register' && (
+                {mode !== 'forgot' && mode !== 'twoFactor' && (
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="password" className="block text-sm font-medium text-gray-300">
+                        {mode === 'reset' ? 'New password' : 'Password'}
+                      </label>
+                      {mode === 'login' && (
+                        <button
+                          type="button"
+                          onClick={() => switchMode('forgot')}
+                          className="text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors duration-200"
+                        >
+                          Forgot password?
+                        </button>
+                      )}
+                    </div>
+                    <div className="mt-1">
+                      <input
+                        id="password"
+                        type="password"
+                        name="password"
+                        value={formData.password}
+                        onChange={handleInputChange}
+                        required
+                        className="block w-full rounded-md border-gray-600 bg-gray-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm placeholder-gray-400"
+                        placeholder={mode === 'reset' ? 'Choose a new password' : 'Enter your password'}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {(mode === 'register' || mode === 'reset') && (
                   <div>
                     <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300">
                       Confirm password
@@ -205,10 +314,10 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
-                        {mode === 'login' ? 'Signing in...' : 'Creating account...'}
+                        {MODE_COPY[mode].pending}
                       </>
                     ) : (
-                      mode === 'login' ? 'Sign in' : 'Create account'
+                      MODE_COPY[mode].submit
                     )}
                   </button>
                 </div>
@@ -216,17 +325,27 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
 
               {/* Mode Toggle */}
               <div className="mt-6 text-center">
-                <p className="text-sm text-gray-400">
-                  {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}
-                  {' '}
+                {mode === 'forgot' || mode === 'reset' || mode === 'twoFactor' ? (
                   <button
                     type="button"
-                    onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
-                    className="font-medium text-blue-400 hover:text-blue-300 transition-colors duration-200"
+                    onClick={() => switchMode('login')}
+                    className="text-sm font-medium text-blue-400 hover:text-blue-300 transition-colors duration-200"
                   >
-                    {mode === 'login' ? 'Sign up' : 'Sign in'}
+                    Back to sign in
                   </button>
-                </p>
+                ) : (
+                  <p className="text-sm text-gray-400">
+                    {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}
+                    {' '}
+                    <button
+                      type="button"
+                      onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
+                      className="font-medium text-blue-400 hover:text-blue-300 transition-colors duration-200"
+                    >
+                      {mode === 'login' ? 'Sign up' : 'Sign in'}
+                    </button>
+                  </p>
+                )}
               </div>
             </div>
           </div>
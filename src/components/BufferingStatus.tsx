@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { ReadyBarrierStatus } from '../services/realSocketService';
+
+interface BufferingStatusProps {
+  barrier: ReadyBarrierStatus;
+}
+
+const MAX_NAMES_SHOWN = 3;
+
+function BufferingStatus({ barrier }: BufferingStatusProps) {
+  const [now, setNow] = useState(() => realSocketService.serverNow());
+
+  // The deadline is in server time
+  useEffect(() => {
+    const timer = setInterval(() => setNow(realSocketService.serverNow()), 1000);
+    return () => clearInterval(timer);
+  }, [barrier.deadline]);
+
+  const secondsLeft = Math.max(0, Math.ceil((barrier.deadline - now) / 1000));
+  const names = barrier.waiting.slice(0, MAX_NAMES_SHOWN).map(entry => entry.username);
+  const others = barrier.waiting.length - names.length;
+
+  return (
+    <div className="px-6 py-3 bg-blue-900/20 border-b border-gray-700 flex justify-between items-center gap-4">
+      <div className="flex items-center gap-2 min-w-0">
+        <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin flex-shrink-0" />
+        <p className="text-sm text-blue-200 truncate">
+          Buffering: waiting for {names.join(', ')}{others > 0 ? ` and ${others} more` : ''}
+        </p>
+      </div>
+      <span className="text-xs text-gray-400 flex-shrink-0">
+        {barrier.readyCount}/{barrier.total} ready · starts in {secondsLeft}s at most
+      </span>
+    </div>
+  );
+}
+
+export default BufferingStatus;
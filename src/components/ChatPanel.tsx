@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChatMessage } from '../services/realSocketService';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  currentUserId?: string;
+  error?: string | null;
+  disabled?: boolean;
+  onSend: (text: string) => Promise<boolean>;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+function ChatPanel({ messages, currentUserId, error, disabled = false, onSend }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Stick to the newest message
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || isSending) return;
+
+    setIsSending(true);
+    const sent = await onSend(draft);
+    setIsSending(false);
+    if (sent) setDraft('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <h3 className="text-lg font-medium text-white mb-4">Chat</h3>
+
+      <div ref={listRef} className="h-64 overflow-y-auto space-y-3 mb-4 pr-1">
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-4">No messages yet - say hi!</p>
+        ) : (
+          messages.map(message => {
+            const isOwn = message.userId === currentUserId;
+            return (
+              <div key={message.id} className="flex items-start gap-2">
+                <div className="w-7 h-7 rounded-full bg-gray-600 flex items-center justify-center text-xs font-medium text-white flex-shrink-0">
+                  {message.avatar ? (
+                    <img src={message.avatar} alt={message.username} className="w-7 h-7 rounded-full object-cover" />
+                  ) : (
+                    message.username.charAt(0).toUpperCase()
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-gray-400">
+                    <span className={`font-medium ${isOwn ? 'text-blue-300' : 'text-gray-200'}`}>
+                      {isOwn ? 'You' : message.username}
+                    </span>
+                    <span className="ml-2">{formatTime(message.createdAt)}</span>
+                  </p>
+                  <p className="text-sm text-white break-words whitespace-pre-wrap">{message.text}</p>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={disabled ? 'Connecting...' : 'Send a message'}
+          maxLength={MAX_MESSAGE_LENGTH}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 text-sm border border-gray-600 bg-gray-700 text-white rounded-md placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || isSending || !draft.trim()}
+          className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default ChatPanel;
@@ -0,0 +1,35 @@
+import type { PlaybackState } from '../services/realSocketService';
+import { useScheduledCommand } from '../hooks/useScheduledCommand';
+import { formatCountdown } from '../utils/scheduledPlayback';
+
+interface CountdownOverlayProps {
+  state: PlaybackState | null; // Latest room playback state
+}
+
+// The last seconds take over the player; longer waits show as a badge
+const BIG_COUNTDOWN_SECONDS = 10;
+
+// Sits over the player, so the parent needs to be relatively positioned
+function CountdownOverlay({ state }: CountdownOverlayProps) {
+  const { command, remaining } = useScheduledCommand(state);
+  if (!command) return null;
+
+  const label = command.action === 'play' ? 'Starting in' : 'Pausing in';
+
+  if (remaining > BIG_COUNTDOWN_SECONDS * 1000) {
+    return (
+      <div className="absolute top-3 left-3 z-20 px-3 py-1 rounded-full bg-gray-900/80 text-sm text-white pointer-events-none">
+        {label} {formatCountdown(remaining)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-gray-900/60 pointer-events-none">
+      <p className="text-sm uppercase tracking-wide text-gray-300">{label}</p>
+      <p className="text-7xl font-bold text-white tabular-nums">{formatCountdown(remaining)}</p>
+    </div>
+  );
+}
+
+export default CountdownOverlay;
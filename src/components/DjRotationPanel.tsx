@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import YouTubeSearch, { SearchResult } from './YouTubeSearch';
+import { realSocketService } from '../services/realSocketService';
+import type { DjRotationState } from '../services/realSocketService';
+
+interface DjRotationPanelProps {
+  rotation: DjRotationState | null;
+  currentUserId?: string;
+  isCurrentDj: boolean;
+  inRotation: boolean;
+  canSkipTurn: boolean;
+  error?: string | null;
+  onToggle?: (enabled: boolean) => void; // Omitted for anyone who cannot change settings
+  onJoin: () => void;
+  onLeave: () => void;
+  onPick: (videoId: string, track: SearchResult) => void;
+  onSkipTurn: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+function DjRotationPanel({
+  rotation,
+  currentUserId,
+  isCurrentDj,
+  inRotation,
+  canSkipTurn,
+  error,
+  onToggle,
+  onJoin,
+  onLeave,
+  onPick,
+  onSkipTurn
+}: DjRotationPanelProps) {
+  const [now, setNow] = useState(() => realSocketService.serverNow());
+
+  // Tick the turn countdown - deadlines are in server time
+  useEffect(() => {
+    if (!rotation?.turnEndsAt) return;
+    const timer = setInterval(() => setNow(realSocketService.serverNow()), 1000);
+    return () => clearInterval(timer);
+  }, [rotation?.turnEndsAt]);
+
+  const enabled = rotation?.enabled ?? false;
+  if (!enabled && !onToggle) return null;
+
+  const currentDj = rotation?.djs.find(dj => dj.userId === rotation.currentDjId);
+  const waitingForPick = !!currentDj && !rotation?.track;
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-white">DJ Rotation</h3>
+        {onToggle && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => onToggle(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            Take turns
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {!enabled ? (
+        <p className="text-sm text-gray-400 text-center py-4">Let listeners take turns picking one track each</p>
+      ) : (
+        <>
+          {currentDj ? (
+            <div className="mb-4 p-3 rounded-lg bg-purple-900/30 border border-purple-700/50">
+              <p className="text-sm text-purple-200">
+                🎧 {isCurrentDj ? "You're on the decks" : `${currentDj.username} is on the decks`}
+              </p>
+              <p className="text-xs text-purple-300 mt-1">
+                {waitingForPick
+                  ? `Picking a track · ${formatCountdown((rotation?.turnEndsAt ?? now) - now)} left`
+                  : `Playing ${rotation?.track?.title}`}
+              </p>
+            </div>
+          ) : (
+            <p className="mb-4 text-sm text-gray-400">Waiting for someone to step up</p>
+          )}
+
+          {isCurrentDj && waitingForPick && (
+            <div className="mb-4">
+              <p className="text-sm text-white mb-2">Your turn - pick one track</p>
+              <YouTubeSearch onSelectTrack={onPick} />
+            </div>
+          )}
+
+          {rotation && rotation.djs.length > 0 && (
+            <ol className="space-y-2 mb-4">
+              {rotation.djs.map((dj, index) => (
+                <li
+                  key={dj.userId}
+                  className={`flex items-center gap-3 p-2 rounded-lg ${dj.userId === rotation.currentDjId ? 'bg-purple-900/30' : 'bg-gray-700/50'}`}
+                >
+                  <span className="w-5 text-xs text-gray-400 text-right">{index + 1}</span>
+                  <span className="flex-1 text-sm text-white truncate">
+                    {dj.username}
+                    {dj.userId === currentUserId && <span className="text-gray-400"> (you)</span>}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <div className="flex gap-2">
+            {inRotation ? (
+              <button
+                onClick={onLeave}
+                className="flex-1 px-3 py-2 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+              >
+                Leave rotation
+              </button>
+            ) : (
+              <button
+                onClick={onJoin}
+                className="flex-1 px-3 py-2 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 transition-colors duration-200"
+              >
+                Join rotation
+              </button>
+            )}
+            {currentDj && canSkipTurn && (
+              <button
+                onClick={onSkipTurn}
+                className="px-3 py-2 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+              >
+                {isCurrentDj ? 'End my turn' : 'Skip turn'}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DjRotationPanel;
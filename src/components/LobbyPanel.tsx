@@ -0,0 +1,135 @@
+import type { LobbyEntry } from '../services/realSocketService';
+
+interface LobbyPanelProps {
+  lobby: LobbyEntry[];
+  lobbyEnabled: boolean;
+  maxParticipants?: number;
+  participantCount?: number;
+  error?: string | null;
+  onToggleLobby?: (enabled: boolean) => void; // Omitted for moderators who cannot change settings
+  onChangeCapacity?: (maxParticipants: number) => void;
+  onAdmit: (userId: string) => void;
+  onDeny: (userId: string) => void;
+  onAdmitAll: () => void;
+}
+
+const CAPACITY_OPTIONS = [5, 10, 25, 50, 100, 200];
+
+const formatWaitTime = (requestedAt: number) => {
+  const minutes = Math.floor((Date.now() - requestedAt) / 60000);
+  return minutes < 1 ? 'just now' : `${minutes}m ago`;
+};
+
+function LobbyPanel({
+  lobby,
+  lobbyEnabled,
+  maxParticipants,
+  participantCount,
+  error,
+  onToggleLobby,
+  onChangeCapacity,
+  onAdmit,
+  onDeny,
+  onAdmitAll
+}: LobbyPanelProps) {
+  const capacityOptions = maxParticipants && !CAPACITY_OPTIONS.includes(maxParticipants)
+    ? [...CAPACITY_OPTIONS, maxParticipants].sort((a, b) => a - b)
+    : CAPACITY_OPTIONS;
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-white">
+          Waiting Room
+          {lobby.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-blue-600 text-white">
+              {lobby.length}
+            </span>
+          )}
+        </h3>
+        {onToggleLobby && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={lobbyEnabled}
+              onChange={(e) => onToggleLobby(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            Ask before joining
+          </label>
+        )}
+      </div>
+
+      {onChangeCapacity && maxParticipants !== undefined && (
+        <div className="flex justify-between items-center mb-4">
+          <span className="text-sm text-gray-400">
+            Capacity{participantCount !== undefined ? ` (${participantCount} here)` : ''}
+          </span>
+          <select
+            value={maxParticipants}
+            onChange={(e) => onChangeCapacity(Number(e.target.value))}
+            className="text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+          >
+            {capacityOptions.map(option => (
+              <option key={option} value={option}>{option} people</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {lobby.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          {lobbyEnabled ? 'Nobody is waiting' : 'Anyone with the code can join right away'}
+        </p>
+      ) : (
+        <>
+          <ul className="max-h-72 overflow-y-auto space-y-2">
+            {lobby.map(entry => (
+              <li key={entry.userId} className="flex items-center gap-3 p-2 rounded-lg bg-gray-700/50">
+                <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center text-sm font-medium text-white flex-shrink-0">
+                  {entry.avatar ? (
+                    <img src={entry.avatar} alt={entry.username} className="w-8 h-8 rounded-full object-cover" />
+                  ) : (
+                    entry.username.charAt(0).toUpperCase()
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{entry.username}</p>
+                  <p className="text-xs text-gray-400">Waiting since {formatWaitTime(entry.requestedAt)}</p>
+                </div>
+                <button
+                  onClick={() => onAdmit(entry.userId)}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors duration-200"
+                >
+                  Admit
+                </button>
+                <button
+                  onClick={() => onDeny(entry.userId)}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+                >
+                  Deny
+                </button>
+              </li>
+            ))}
+          </ul>
+          {lobby.length > 1 && (
+            <button
+              onClick={onAdmitAll}
+              className="mt-3 w-full px-3 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors duration-200"
+            >
+              Admit everyone
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default LobbyPanel;
@@ -0,0 +1,65 @@
+import type { PresenceStatus, RoomParticipant } from '../services/realSocketService';
+import { ROLE_LABELS } from '../utils/roles';
+
+interface ParticipantListProps {
+  participants: RoomParticipant[];
+  currentUserId?: string;
+}
+
+const PRESENCE_STYLES: Record<PresenceStatus, { dot: string; label: string }> = {
+  active: { dot: 'bg-green-500', label: 'Active' },
+  idle: { dot: 'bg-yellow-500', label: 'Idle' },
+  hidden: { dot: 'bg-gray-500', label: 'Status hidden' }
+};
+
+function ParticipantList({ participants, currentUserId }: ParticipantListProps) {
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <h3 className="text-lg font-medium text-white mb-4">
+        In the Room
+        <span className="ml-2 text-sm font-normal text-gray-400">{participants.length}</span>
+      </h3>
+
+      {participants.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">Connecting...</p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto space-y-2">
+          {participants.map(participant => {
+            const reconnecting = participant.connection === 'reconnecting';
+            const presence = PRESENCE_STYLES[participant.presence];
+
+            return (
+              <li key={participant.userId} className={`flex items-center gap-3 p-2 rounded-lg bg-gray-700/50 ${reconnecting ? 'opacity-60' : ''}`}>
+                <div className="relative flex-shrink-0">
+                  <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center text-sm font-medium text-white">
+                    {participant.avatar ? (
+                      <img src={participant.avatar} alt={participant.username} className="w-8 h-8 rounded-full object-cover" />
+                    ) : (
+                      participant.username.charAt(0).toUpperCase()
+                    )}
+                  </div>
+                  <span
+                    className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-gray-800 ${presence.dot}`}
+                    title={presence.label}
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {participant.username}
+                    {participant.userId === currentUserId && <span className="text-gray-400"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {ROLE_LABELS[participant.role]}
+                    {reconnecting ? ' · Reconnecting...' : participant.presence !== 'hidden' ? ` · ${presence.label}` : ''}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ParticipantList;
@@ -0,0 +1,106 @@
+import type { QueueItem } from '../services/realSocketService';
+
+interface QueuePanelProps {
+  queue: QueueItem[];
+  canManage?: boolean;
+  error?: string | null;
+  onRemove?: (itemId: string) => void;
+  onMove?: (itemId: string, toIndex: number) => void;
+  onClear?: () => void;
+  onPlayNext?: () => void;
+}
+
+function QueuePanel({ queue, canManage = false, error, onRemove, onMove, onClear, onPlayNext }: QueuePanelProps) {
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-white">
+          Up Next
+          <span className="ml-2 text-sm font-normal text-gray-400">
+            {queue.length} track{queue.length !== 1 ? 's' : ''}
+          </span>
+        </h3>
+        {canManage && queue.length > 0 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onPlayNext}
+              className="px-3 py-1 text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors duration-200"
+            >
+              Play next
+            </button>
+            <button
+              onClick={onClear}
+              className="px-3 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {queue.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          {canManage ? 'Select songs from search to queue them up' : 'No songs queued yet'}
+        </p>
+      ) : (
+        <ol className="max-h-72 overflow-y-auto space-y-2">
+          {queue.map((item, index) => (
+            <li key={item.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-700/50">
+              <span className="w-5 text-xs text-gray-500 text-right">{index + 1}</span>
+              {item.thumbnail && (
+                <img src={item.thumbnail} alt={item.title} className="w-10 h-10 rounded object-cover bg-gray-600" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-white truncate">{item.title}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {item.artist}{item.duration ? ` · ${item.duration}` : ''} · added by {item.addedBy.username}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => onMove?.(item.id, index - 1)}
+                    disabled={index === 0}
+                    title="Move up"
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => onMove?.(item.id, index + 1)}
+                    disabled={index === queue.length - 1}
+                    title="Move down"
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => onRemove?.(item.id)}
+                    title="Remove"
+                    className="p-1 text-gray-400 hover:text-red-400"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default QueuePanel;
@@ -0,0 +1,29 @@
+import type { ReactionType } from '../services/realSocketService';
+import { REACTION_EMOJI, REACTION_TYPES } from '../utils/reactions';
+
+interface ReactionBarProps {
+  disabled?: boolean;
+  error?: string | null;
+  onReact: (type: ReactionType) => void;
+}
+
+function ReactionBar({ disabled = false, error, onReact }: ReactionBarProps) {
+  return (
+    <div className="flex items-center gap-2">
+      {REACTION_TYPES.map(type => (
+        <button
+          key={type}
+          onClick={() => onReact(type)}
+          disabled={disabled}
+          title={`React with ${type}`}
+          className="w-10 h-10 rounded-full bg-gray-700 hover:bg-gray-600 text-xl flex items-center justify-center transition-transform duration-150 hover:scale-110 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+        >
+          {REACTION_EMOJI[type]}
+        </button>
+      ))}
+      {error && <span className="text-xs text-red-300 ml-2">{error}</span>}
+    </div>
+  );
+}
+
+export default ReactionBar;
@@ -0,0 +1,25 @@
+import type { FloatingReaction } from '../hooks/useReactions';
+import { REACTION_EMOJI } from '../utils/reactions';
+
+interface ReactionOverlayProps {
+  reactions: FloatingReaction[];
+}
+
+// Sits over the player, so the parent needs to be relatively positioned
+function ReactionOverlay({ reactions }: ReactionOverlayProps) {
+  return (
+    <div className="absolute inset-0 z-10 overflow-hidden pointer-events-none">
+      {reactions.map(reaction => (
+        <span
+          key={reaction.id}
+          className="absolute bottom-4 text-3xl animate-float-up"
+          style={{ left: `${reaction.offset}%` }}
+        >
+          {REACTION_EMOJI[reaction.type]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default ReactionOverlay;
@@ -0,0 +1,56 @@
+import type { ReactionCounts, TrackReactions } from '../services/realSocketService';
+import { REACTION_EMOJI, REACTION_TYPES, formatTrackPosition } from '../utils/reactions';
+
+interface ReactionStatsProps {
+  tracks: TrackReactions[];
+  totals: ReactionCounts | null;
+  currentVideoId?: string | null;
+}
+
+const MAX_TOP_MOMENTS = 5;
+
+const sumCounts = (counts: ReactionCounts) => REACTION_TYPES.reduce((sum, type) => sum + counts[type], 0);
+
+function ReactionStats({ tracks, totals, currentVideoId }: ReactionStatsProps) {
+  const track = tracks.find(item => item.videoId === currentVideoId);
+  const topMoments = track
+    ? [...track.moments].sort((a, b) => sumCounts(b) - sumCounts(a)).slice(0, MAX_TOP_MOMENTS)
+    : [];
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <h3 className="text-lg font-medium text-white mb-4">Crowd Reactions</h3>
+
+      {totals && (
+        <div className="flex gap-4 mb-4 text-sm text-gray-300">
+          {REACTION_TYPES.map(type => (
+            <span key={type}>{REACTION_EMOJI[type]} {totals[type]}</span>
+          ))}
+          <span className="ml-auto text-xs text-gray-400 self-center">this session</span>
+        </div>
+      )}
+
+      {topMoments.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">No reactions to this track yet</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400 mb-2">Moments that landed on this track</p>
+          <ul className="space-y-2">
+            {topMoments.map(moment => (
+              <li key={moment.at} className="flex items-center gap-3 p-2 rounded-lg bg-gray-700/50 text-sm">
+                <span className="font-mono text-gray-300 w-12">{formatTrackPosition(moment.at)}</span>
+                <div className="flex gap-3 text-gray-200">
+                  {REACTION_TYPES.filter(type => moment[type] > 0).map(type => (
+                    <span key={type}>{REACTION_EMOJI[type]} {moment[type]}</span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ReactionStats;
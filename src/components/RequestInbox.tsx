@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import type { SongRequest } from '../services/realSocketService';
+
+interface RequestInboxProps {
+  requests: SongRequest[];
+  acceptingRequests: boolean;
+  error?: string | null;
+  onToggleAccepting?: (accepting: boolean) => void; // Omitted for reviewers who cannot change settings
+  onApprove: (requestId: string) => void;
+  onReject: (requestId: string, reason?: string) => void;
+}
+
+function RequestInbox({ requests, acceptingRequests, error, onToggleAccepting, onApprove, onReject }: RequestInboxProps) {
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const startReject = (requestId: string) => {
+    setRejectingId(requestId);
+    setReason('');
+  };
+
+  const confirmReject = (requestId: string) => {
+    onReject(requestId, reason.trim() || undefined);
+    setRejectingId(null);
+    setReason('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-white">
+          Requests
+          {requests.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-blue-600 text-white">
+              {requests.length}
+            </span>
+          )}
+        </h3>
+        {onToggleAccepting && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={acceptingRequests}
+              onChange={(e) => onToggleAccepting(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            Accept requests
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {requests.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          {acceptingRequests ? 'No pending requests' : 'Participants cannot request songs right now'}
+        </p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto space-y-2">
+          {requests.map(request => (
+            <li key={request.id} className="p-2 rounded-lg bg-gray-700/50">
+              <div className="flex items-center gap-3">
+                {request.thumbnail && (
+                  <img src={request.thumbnail} alt={request.title} className="w-10 h-10 rounded object-cover bg-gray-600" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{request.title}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {request.artist} · requested by {request.requestedBy.username}
+                  </p>
+                </div>
+                {rejectingId !== request.id && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => onApprove(request.id)}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors duration-200"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => startReject(request.id)}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-600 hover:bg-gray-500 transition-colors duration-200"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {rejectingId === request.id && (
+                <div className="mt-2 flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && confirmReject(request.id)}
+                    maxLength={200}
+                    autoFocus
+                    placeholder="Reason (optional)"
+                    className="flex-1 px-2 py-1 text-sm bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => confirmReject(request.id)}
+                    className="px-2 py-1 text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors duration-200"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => setRejectingId(null)}
+                    className="px-2 py-1 text-xs font-medium rounded-md text-gray-300 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default RequestInbox;
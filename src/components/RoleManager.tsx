@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import type { RoomBan, RoomMember, RoomRole } from '../services/realSocketService';
+import { ASSIGNABLE_ROLES, ROLE_LABELS, hasPermission, outranks } from '../utils/roles';
+
+interface RoleManagerProps {
+  members: RoomMember[];
+  canManage: boolean;
+  error?: string | null;
+  onChangeRole?: (userId: string, role: Exclude<RoomRole, 'owner'>) => void;
+  currentUserId?: string;
+  myRole?: RoomRole;
+  bans?: RoomBan[];
+  onKick?: (userId: string, reason?: string) => void;
+  onBan?: (userId: string, reason?: string, durationMinutes?: number) => void;
+  onUnban?: (userId: string) => void;
+  mutedUserIds?: string[];
+  onMute?: (userId: string) => void;
+  onUnmute?: (userId: string) => void;
+}
+
+const BAN_DURATIONS: { label: string; minutes?: number }[] = [
+  { label: 'Permanently' },
+  { label: 'For 15 minutes', minutes: 15 },
+  { label: 'For 1 hour', minutes: 60 },
+  { label: 'For 1 day', minutes: 24 * 60 },
+  { label: 'For 1 week', minutes: 7 * 24 * 60 }
+];
+
+const roleBadgeStyles: Record<RoomRole, string> = {
+  owner: 'bg-yellow-900/30 text-yellow-300',
+  cohost: 'bg-purple-900/30 text-purple-300',
+  dj: 'bg-blue-900/30 text-blue-300',
+  moderator: 'bg-green-900/30 text-green-300',
+  listener: 'bg-gray-700 text-gray-300'
+};
+
+function RoleManager({
+  members,
+  canManage,
+  error,
+  onChangeRole,
+  currentUserId,
+  myRole = 'listener',
+  bans = [],
+  onKick,
+  onBan,
+  onUnban,
+  mutedUserIds = [],
+  onMute,
+  onUnmute
+}: RoleManagerProps) {
+  const [removingUserId, setRemovingUserId] = useState<string | null>(null);
+  const [removalReason, setRemovalReason] = useState('');
+  const [banDuration, setBanDuration] = useState(0);
+
+  const canModerate = hasPermission(myRole, 'moderate');
+
+  const closeRemoval = () => {
+    setRemovingUserId(null);
+    setRemovalReason('');
+    setBanDuration(0);
+  };
+
+  const handleKick = (userId: string) => {
+    onKick?.(userId, removalReason.trim() || undefined);
+    closeRemoval();
+  };
+
+  const handleBan = (userId: string) => {
+    onBan?.(userId, removalReason.trim() || undefined, BAN_DURATIONS[banDuration].minutes);
+    closeRemoval();
+  };
+
+  const handleToggleMute = (userId: string) => {
+    if (mutedUserIds.includes(userId)) {
+      onUnmute?.(userId);
+    } else {
+      onMute?.(userId);
+    }
+    closeRemoval();
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <h3 className="text-lg font-medium text-white mb-4">Roles</h3>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {members.length <= 1 ? (
+        <p className="text-sm text-gray-400 text-center py-4">Invite people to hand out roles</p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto space-y-2">
+          {members.map(member => (
+            <li key={member.userId} className="p-2 rounded-lg bg-gray-700/50">
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center text-sm font-medium text-white flex-shrink-0">
+                  {member.avatar ? (
+                    <img src={member.avatar} alt={member.username} className="w-8 h-8 rounded-full object-cover" />
+                  ) : (
+                    member.username.charAt(0).toUpperCase()
+                  )}
+                </div>
+                <span className="flex-1 min-w-0 text-sm text-white truncate">
+                  {member.username}
+                  {mutedUserIds.includes(member.userId) && (
+                    <span className="ml-2 text-xs text-gray-400">Muted</span>
+                  )}
+                </span>
+                {canManage && member.role !== 'owner' ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => onChangeRole?.(member.userId, e.target.value as Exclude<RoomRole, 'owner'>)}
+                    className="text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    {ASSIGNABLE_ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${roleBadgeStyles[member.role]}`}>
+                    {ROLE_LABELS[member.role]}
+                  </span>
+                )}
+                {canModerate && member.userId !== currentUserId && outranks(myRole, member.role) && (
+                  <button
+                    onClick={() => removingUserId === member.userId ? closeRemoval() : setRemovingUserId(member.userId)}
+                    title="Moderate"
+                    className="p-1 text-gray-400 hover:text-red-400 flex-shrink-0"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+
+              {removingUserId === member.userId && (
+                <div className="mt-2 space-y-2">
+                  <input
+                    type="text"
+                    value={removalReason}
+                    onChange={(e) => setRemovalReason(e.target.value)}
+                    placeholder="Reason (optional)"
+                    maxLength={200}
+                    className="w-full text-xs rounded-md border-gray-600 bg-gray-700 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleToggleMute(member.userId)}
+                      className="px-3 py-1 text-xs font-medium rounded-md text-white bg-gray-600 hover:bg-gray-500 transition-colors duration-200"
+                    >
+                      {mutedUserIds.includes(member.userId) ? 'Unmute' : 'Mute'}
+                    </button>
+                    <button
+                      onClick={() => handleKick(member.userId)}
+                      className="px-3 py-1 text-xs font-medium rounded-md text-white bg-gray-600 hover:bg-gray-500 transition-colors duration-200"
+                    >
+                      Kick
+                    </button>
+                    <select
+                      value={banDuration}
+                      onChange={(e) => setBanDuration(Number(e.target.value))}
+                      className="flex-1 text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      {BAN_DURATIONS.map((option, index) => (
+                        <option key={option.label} value={index}>{option.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleBan(member.userId)}
+                      className="px-3 py-1 text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors duration-200"
+                    >
+                      Ban
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canModerate && bans.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-300 mb-2">Banned</h4>
+          <ul className="space-y-2">
+            {bans.map(ban => (
+              <li key={ban.userId} className="flex items-center gap-3 p-2 rounded-lg bg-red-900/20">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{ban.username}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {ban.expiresAt ? `Until ${new Date(ban.expiresAt).toLocaleString()}` : 'Permanent'}
+                    {ban.reason ? ` · ${ban.reason}` : ''}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onUnban?.(ban.userId)}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+                >
+                  Unban
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canManage && (
+        <p className="mt-3 text-xs text-gray-500">
+          Co-hosts control playback and the queue. DJs manage the queue. Moderators review requests.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default RoleManager;
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import type { ScheduledAction } from '../services/realSocketService';
+import type { PendingCommand } from '../utils/scheduledPlayback';
+
+interface SchedulePlaybackPanelProps {
+  pending: PendingCommand | null;
+  disabled?: boolean;
+  onSchedule: (action: ScheduledAction, delaySeconds: number) => void;
+  onCancel: () => void;
+}
+
+const DELAY_OPTIONS = [5, 10, 15, 30, 60, 300];
+
+const formatDelay = (seconds: number) => seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minute${seconds > 60 ? 's' : ''}`;
+
+function SchedulePlaybackPanel({ pending, disabled = false, onSchedule, onCancel }: SchedulePlaybackPanelProps) {
+  const [action, setAction] = useState<ScheduledAction>('play');
+  const [delay, setDelay] = useState(10);
+
+  if (pending) {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-300">
+          Everyone will {pending.action === 'play' ? 'start' : 'pause'} together
+        </span>
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          className="px-3 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200 disabled:opacity-50"
+        >
+          Cancel countdown
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <span className="block text-sm text-gray-300">
+        Countdown
+        <span className="block text-xs text-gray-400">Start or pause for everyone at the same moment</span>
+      </span>
+      <div className="flex items-center gap-2">
+        <select
+          value={action}
+          disabled={disabled}
+          onChange={(e) => setAction(e.target.value as ScheduledAction)}
+          className="text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+        >
+          <option value="play">Play</option>
+          <option value="pause">Pause</option>
+        </select>
+        <span className="text-xs text-gray-400">in</span>
+        <select
+          value={delay}
+          disabled={disabled}
+          onChange={(e) => setDelay(Number(e.target.value))}
+          className="text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+        >
+          {DELAY_OPTIONS.map(option => (
+            <option key={option} value={option}>{formatDelay(option)}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onSchedule(action, delay)}
+          disabled={disabled}
+          className="ml-auto px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+        >
+          Start countdown
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SchedulePlaybackPanel;
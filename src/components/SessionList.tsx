@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { UserSession } from '../contexts/AuthContext';
+
+const formatLastActive = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'Active now';
+  if (minutes < 60) return `Active ${minutes} min ago`;
+  if (minutes < 24 * 60) return `Active ${Math.floor(minutes / 60)} h ago`;
+  return `Active ${new Date(date).toLocaleDateString()}`;
+};
+
+const describeDevice = (session: UserSession) => {
+  const { browser, os } = session.deviceInfo || {};
+  return [browser, os].filter(Boolean).join(' on ') || session.userAgent;
+};
+
+function SessionList() {
+  const { getUserSessions, revokeSession, revokeOtherSessions } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    setSessions(await getUserSessions());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    setBusyId(sessionId);
+    setError(null);
+    const result = await revokeSession(sessionId);
+    if (!result.success) setError(result.error || 'Failed to revoke session');
+    await loadSessions();
+    setBusyId(null);
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusyId('others');
+    setError(null);
+    const result = await revokeOtherSessions();
+    if (!result.success) setError(result.error || 'Failed to sign out other sessions');
+    await loadSessions();
+    setBusyId(null);
+  };
+
+  const others = sessions.filter(session => !session.isCurrent);
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-700">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-white">Signed-in devices</h3>
+          <p className="text-sm text-gray-400">Signing a device out also drops it from any room it's in.</p>
+        </div>
+        {others.length > 0 && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={busyId !== null}
+            className="flex-shrink-0 px-3 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors duration-200 disabled:opacity-50"
+          >
+            {busyId === 'others' ? 'Signing out...' : 'Sign out everywhere else'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <p className="mt-4 text-sm text-gray-400">Loading devices...</p>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-700">
+          {sessions.map(session => (
+            <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">
+                  {describeDevice(session)}
+                  {session.isCurrent && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-900/40 text-blue-300">This device</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {session.deviceInfo?.isMobile ? 'Mobile' : session.deviceInfo?.platform === 'tablet' ? 'Tablet' : 'Desktop'} · {session.ipAddress} · {formatLastActive(session.lastUsed)}
+                </p>
+              </div>
+              {!session.isCurrent && (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={busyId !== null}
+                  className="flex-shrink-0 px-3 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200 disabled:opacity-50"
+                >
+                  {busyId === session.id ? 'Signing out...' : 'Sign out'}
+                </button>
+              )}
+            </li>
+          ))}
+          {sessions.length === 0 && (
+            <li className="py-3 text-sm text-gray-400">No active sessions found</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SessionList;
@@ -0,0 +1,37 @@
+import type { SkipVoteTally } from '../services/realSocketService';
+
+interface SkipVoteButtonProps {
+  tally: SkipVoteTally;
+  hasVoted: boolean;
+  disabled?: boolean;
+  error?: string | null;
+  onToggle: () => void;
+}
+
+function SkipVoteButton({ tally, hasVoted, disabled = false, error, onToggle }: SkipVoteButtonProps) {
+  const progress = Math.min(100, Math.round((tally.votes / Math.max(1, tally.required)) * 100));
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        onClick={onToggle}
+        disabled={disabled}
+        title={hasVoted ? 'Take back your vote' : 'Vote to skip this track'}
+        className={`relative overflow-hidden px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 disabled:opacity-50 ${
+          hasVoted ? 'text-white bg-orange-600 hover:bg-orange-700' : 'text-gray-200 bg-gray-700 hover:bg-gray-600'
+        }`}
+      >
+        <span
+          className="absolute inset-y-0 left-0 bg-white/10 transition-all duration-300"
+          style={{ width: `${progress}%` }}
+        />
+        <span className="relative">
+          ⏭️ {hasVoted ? 'Voted to skip' : 'Vote to skip'} · {tally.votes}/{tally.required}
+        </span>
+      </button>
+      {error && <span className="text-xs text-red-300">{error}</span>}
+    </div>
+  );
+}
+
+export default SkipVoteButton;
@@ -0,0 +1,69 @@
+import type { SkipVoteSettings } from '../services/realSocketService';
+
+interface SkipVoteSettingsPanelProps {
+  settings: SkipVoteSettings;
+  disabled?: boolean;
+  onChange: (settings: SkipVoteSettings) => void;
+}
+
+const PERCENT_OPTIONS = [25, 33, 50, 66, 75, 100];
+const COUNT_OPTIONS = [1, 2, 3, 5, 10, 20];
+
+function SkipVoteSettingsPanel({ settings, disabled = false, onChange }: SkipVoteSettingsPanelProps) {
+  const baseOptions = settings.mode === 'percent' ? PERCENT_OPTIONS : COUNT_OPTIONS;
+  const options = baseOptions.includes(settings.threshold)
+    ? baseOptions
+    : [...baseOptions, settings.threshold].sort((a, b) => a - b);
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-2 text-sm text-gray-300 cursor-pointer">
+        <span>
+          Skip voting
+          <span className="block text-xs text-gray-400">Listeners can vote the current track out</span>
+        </span>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+        />
+      </label>
+
+      {settings.enabled && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-gray-400">Skip after</span>
+          <div className="flex gap-2">
+            <select
+              value={settings.threshold}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...settings, threshold: Number(e.target.value) })}
+              className="text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+            >
+              {options.map(option => (
+                <option key={option} value={option}>
+                  {settings.mode === 'percent' ? `${option}%` : option}
+                </option>
+              ))}
+            </select>
+            <select
+              value={settings.mode}
+              disabled={disabled}
+              onChange={(e) => {
+                const mode = e.target.value as SkipVoteSettings['mode'];
+                onChange({ ...settings, mode, threshold: mode === 'percent' ? 50 : 3 });
+              }}
+              className="text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="percent">of listeners</option>
+              <option value="count">votes</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SkipVoteSettingsPanel;
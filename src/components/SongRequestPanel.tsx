@@ -0,0 +1,82 @@
+import YouTubeSearch, { SearchResult } from './YouTubeSearch';
+import type { SongRequest, SongRequestStatus } from '../services/realSocketService';
+
+interface SongRequestPanelProps {
+  requests: SongRequest[];
+  acceptingRequests: boolean;
+  error?: string | null;
+  lastResolved?: SongRequest | null;
+  onSubmit: (track: SearchResult) => void;
+  onDismissResolved?: () => void;
+}
+
+const statusStyles: Record<SongRequestStatus, string> = {
+  pending: 'bg-yellow-900/30 text-yellow-300',
+  approved: 'bg-green-900/30 text-green-300',
+  rejected: 'bg-red-900/30 text-red-300'
+};
+
+function SongRequestPanel({ requests, acceptingRequests, error, lastResolved, onSubmit, onDismissResolved }: SongRequestPanelProps) {
+  // Newest first so fresh submissions and decisions are visible without scrolling
+  const sortedRequests = [...requests].sort((a, b) => b.createdAt - a.createdAt);
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+      <h3 className="text-lg font-medium text-white mb-4">Request a Song</h3>
+
+      {lastResolved && (
+        <div className={`mb-3 p-3 rounded-lg flex justify-between items-start gap-2 ${
+          lastResolved.status === 'approved'
+            ? 'bg-green-900/30 border border-green-700/50'
+            : 'bg-red-900/30 border border-red-700/50'
+        }`}>
+          <p className={`text-sm ${lastResolved.status === 'approved' ? 'text-green-300' : 'text-red-300'}`}>
+            {lastResolved.status === 'approved'
+              ? `"${lastResolved.title}" was added to the queue`
+              : `"${lastResolved.title}" was declined${lastResolved.reason ? `: ${lastResolved.reason}` : ''}`}
+          </p>
+          <button onClick={onDismissResolved} className="text-gray-400 hover:text-gray-200 flex-shrink-0">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {acceptingRequests ? (
+        <YouTubeSearch onSelectTrack={(_videoId, track) => onSubmit(track)} />
+      ) : (
+        <p className="text-sm text-gray-400 text-center py-4">The host is not accepting requests right now</p>
+      )}
+
+      {sortedRequests.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-300 mb-2">Your requests</h4>
+          <ul className="max-h-48 overflow-y-auto space-y-2">
+            {sortedRequests.map(request => (
+              <li key={request.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-700/50">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{request.title}</p>
+                  {request.status === 'rejected' && request.reason && (
+                    <p className="text-xs text-gray-400 truncate">{request.reason}</p>
+                  )}
+                </div>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${statusStyles[request.status]}`}>
+                  {request.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SongRequestPanel;
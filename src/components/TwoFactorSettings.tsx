@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+type SetupStep = 'idle' | 'scan' | 'recovery' | 'disable';
+
+interface PendingSetup {
+  secret: string;
+  qrCode: string;
+}
+
+function TwoFactorSettings() {
+  const { user, startTwoFactorSetup, confirmTwoFactorSetup, disableTwoFactor } = useAuth();
+  const [step, setStep] = useState<SetupStep>('idle');
+  const [setup, setSetup] = useState<PendingSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const enabled = !!user?.preferences?.security?.twoFactorEnabled;
+
+  const reset = () => {
+    setStep('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const handleStart = async () => {
+    setIsBusy(true);
+    setError(null);
+    const result = await startTwoFactorSetup();
+    setIsBusy(false);
+
+    if (result.success && result.secret && result.qrCode) {
+      setSetup({ secret: result.secret, qrCode: result.qrCode });
+      setStep('scan');
+    } else {
+      setError(result.error || 'Could not start two-factor setup');
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    const result = await confirmTwoFactorSetup(code);
+    setIsBusy(false);
+
+    if (result.success) {
+      setRecoveryCodes(result.recoveryCodes || []);
+      setSetup(null);
+      setCode('');
+      setStep('recovery');
+    } else {
+      setError(result.error || 'Invalid verification code');
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    const result = await disableTwoFactor(password, code);
+    setIsBusy(false);
+
+    if (result.success) {
+      reset();
+    } else {
+      setError(result.error || 'Could not disable two-factor authentication');
+    }
+  };
+
+  const inputClass = 'block w-full rounded-md border-gray-600 bg-gray-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm placeholder-gray-400';
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-700">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-white">Two-factor authentication</h3>
+          <p className="text-sm text-gray-400">
+            {enabled ? 'Sign-ins ask for a code from your authenticator app.' : 'Protect your account with a code from an authenticator app.'}
+          </p>
+        </div>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full ${enabled ? 'bg-green-900/40 text-green-300' : 'bg-gray-700 text-gray-300'}`}>
+          {enabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
+      {step === 'idle' && (
+        <button
+          onClick={enabled ? () => setStep('disable') : handleStart}
+          disabled={isBusy}
+          className="mt-4 px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+        >
+          {enabled ? 'Turn off' : isBusy ? 'Starting...' : 'Set up'}
+        </button>
+      )}
+
+      {step === 'scan' && setup && (
+        <form onSubmit={handleConfirm} className="mt-4 space-y-4">
+          <p className="text-sm text-gray-300">Scan this code with your authenticator app, then enter the 6-digit code it shows.</p>
+          <img src={setup.qrCode} alt="Two-factor QR code" className="w-44 h-44 rounded-md bg-white p-2" />
+          <p className="text-xs text-gray-400">
+            Can't scan it? Enter this key instead: <span className="font-mono text-gray-200 break-all">{setup.secret}</span>
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            className={`${inputClass} font-mono tracking-widest`}
+            placeholder="123456"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              {isBusy ? 'Verifying...' : 'Turn on'}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="px-4 py-2 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Shown once - only hashes are kept on the server */}
+      {step === 'recovery' && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-300">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your device, and they won't be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-200 bg-gray-900/60 rounded-md p-4">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            onClick={() => {
+              setRecoveryCodes([]);
+              reset();
+            }}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors duration-200"
+          >
+            I've saved them
+          </button>
+        </div>
+      )}
+
+      {step === 'disable' && (
+        <form onSubmit={handleDisable} className="mt-4 space-y-3">
+          <p className="text-sm text-gray-300">Confirm with your password and a code from your app or a recovery code.</p>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            className={inputClass}
+            placeholder="Password"
+          />
+          <input
+            type="text"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            className={`${inputClass} font-mono tracking-widest`}
+            placeholder="Verification or recovery code"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              {isBusy ? 'Turning off...' : 'Turn off two-factor'}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="px-4 py-2 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default TwoFactorSettings;
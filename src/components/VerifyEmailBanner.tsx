@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+function VerifyEmailBanner() {
+  const { user, resendVerification } = useAuth();
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user || user.isVerified) return null;
+
+  const handleResend = async () => {
+    setStatus('sending');
+    setError(null);
+    const result = await resendVerification();
+    if (result.success) {
+      setStatus('sent');
+    } else {
+      setStatus('idle');
+      setError(result.error || 'Could not send the verification email');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto bg-yellow-900/20 border border-yellow-700/50 rounded-xl px-6 py-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+      <div>
+        <p className="text-sm font-medium text-yellow-200">Verify your email address</p>
+        <p className="text-xs text-gray-400">
+          {status === 'sent'
+            ? `We sent a new link to ${user.email}.`
+            : `Check ${user.email} for a verification link. Until then your rooms stay private and custom codes are unavailable.`}
+        </p>
+        {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      </div>
+      <button
+        onClick={handleResend}
+        disabled={status !== 'idle'}
+        className="flex-shrink-0 px-3 py-2 text-sm font-medium rounded-md text-yellow-100 bg-yellow-700/40 hover:bg-yellow-700/60 transition-colors duration-200 disabled:opacity-50"
+      >
+        {status === 'sending' ? 'Sending...' : status === 'sent' ? 'Link sent' : 'Resend link'}
+      </button>
+    </div>
+  );
+}
+
+export default VerifyEmailBanner;
@@ -1,23 +1,56 @@
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
 import YouTube, { YouTubeProps } from 'react-youtube';
+import { realSocketService } from '../services/realSocketService';
 import type { PlaybackState } from '../services/realSocketService';
 
 interface YouTubePlayerProps {
   videoId?: string;
   onPlayerReady?: () => void;
   onStateChange?: (state: number) => void;
-  onSyncPlay?: (videoId: string, currentTime: number) => void;
-  onSyncPause?: (videoId: string, currentTime: number) => void;
-  onSyncSeek?: (videoId: string, currentTime: number, isPlaying: boolean) => void;
+  onSyncPlay?: (videoId: string, currentTime: number, playbackRate?: number) => void;
+  onSyncPause?: (videoId: string, currentTime: number, playbackRate?: number) => void;
+  onSyncSeek?: (videoId: string, currentTime: number, isPlaying: boolean, playbackRate?: number) => void;
+  onSyncRate?: (videoId: string, currentTime: number, playbackRate: number, isPlaying: boolean) => void;
   onVideoLoad?: (videoId: string) => void;
+  onTrackEnded?: (videoId: string) => void;
+  onTrackReady?: (videoId: string) => void; // A newly loaded track has buffered and is parked at the start
   isHost?: boolean;
+  autoPlay?: boolean; // start new videos immediately instead of cueing them
   initialSyncState?: PlaybackState | null;
+  onDriftMeasured?: (sample: DriftSample) => void;
+  driftTolerance?: number; // seconds of drift ignored entirely
+  driftSeekThreshold?: number; // seconds of drift that force a hard seek instead of a rate nudge
+}
+
+// Once a scheduled pause has passed, the room stands still where the track was at pauseAt
+const settleScheduledPause = (state: PlaybackState, now: number): PlaybackState => {
+  if (state.pauseAt === undefined || !state.isPlaying || state.pauseAt > now) return state;
+
+  const { pauseAt, ...rest } = state;
+  return {
+    ...rest,
+    currentTime: state.currentTime + Math.max(0, (pauseAt - state.timestamp) / 1000) * (state.playbackRate ?? 1),
+    isPlaying: false,
+    timestamp: now
+  };
+};
+
+// Give up on a muted pre-buffer after this long (e.g. autoplay blocked) and just cue the track
+const PREPARE_TIMEOUT = 10000;
+
+export interface DriftSample {
+  drift: number; // seconds, positive = ahead of the server position
+  correction: 'none' | 'nudge' | 'seek';
+  measuredAt: number;
 }
 
 export interface YouTubePlayerRef {
   applySyncState: (state: PlaybackState) => void;
+  correctDrift: (state: PlaybackState) => void;
   getCurrentTime: () => number;
   getPlayerState: () => number;
+  setPlaybackRate: (rate: number) => void; // Controllers only - reported back through onSyncRate
+  cancelScheduled: () => void; // Drop a pending scheduled start or pause, leaving the player as it is
   forceSync: () => void;
 }
 
@@ -28,9 +61,16 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
   onSyncPlay,
   onSyncPause, 
   onSyncSeek,
+  onSyncRate,
   onVideoLoad, // ✅ Fixed: Added missing prop
+  onTrackEnded,
+  onTrackReady,
   isHost = false,
-  initialSyncState
+  autoPlay = false,
+  initialSyncState,
+  onDriftMeasured,
+  driftTolerance = 0.08,
+  driftSeekThreshold = 1
 }, ref) => {
   const playerRef = useRef<any>(null);
   const [isReady, setIsReady] = useState(false);
@@ -46,60 +86,298 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
   const lastPlayerStateRef = useRef(-1);
   const hasReceivedInitialSyncRef = useRef(false);
   const initializationCompleteRef = useRef(false);
+  const driftNudgeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The room's rate - drift nudges speed up or slow down relative to this, never to 1x
+  const baseRateRef = useRef(1);
+  // Track being buffered ahead of a coordinated start
+  const preparingVideoRef = useRef<string | null>(null);
+  const prepareTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const wasMutedRef = useRef(false);
+  const scheduledStartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduledPauseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  useImperativeHandle(ref, () => ({
-    applySyncState: (state: PlaybackState) => {
-      if (!playerRef.current || !state || isHost) return;
-      
-      console.log('🔄 Participant applying sync:', state);
-      
+  const clearDriftNudge = () => {
+    if (driftNudgeTimerRef.current) {
+      clearTimeout(driftNudgeTimerRef.current);
+      driftNudgeTimerRef.current = null;
+    }
+  };
+
+  const resetPlaybackRate = () => {
+    clearDriftNudge();
+    try {
+      playerRef.current?.setPlaybackRate(baseRateRef.current);
+    } catch (error) {
+      console.warn('Could not reset playback rate:', error);
+    }
+  };
+
+  // Temporarily speed up or slow down to absorb small drift without an audible seek.
+  // At a base rate r, holding rate r' for t seconds shifts position by (r' - r) * t.
+  const nudgePlaybackRate = (drift: number): boolean => {
+    const baseRate = baseRateRef.current;
+    const rates: number[] = playerRef.current?.getAvailablePlaybackRates?.() || [];
+    const candidates = rates.filter(rate => drift < 0 ? rate > baseRate : rate < baseRate);
+    if (candidates.length === 0) return false;
+
+    const rate = candidates.reduce((closest, candidate) =>
+      Math.abs(candidate - baseRate) < Math.abs(closest - baseRate) ? candidate : closest
+    );
+    const holdMs = (Math.abs(drift) / Math.abs(rate - baseRate)) * 1000;
+
+    clearDriftNudge();
+    playerRef.current.setPlaybackRate(rate);
+    console.log(`🎚️ Drift ${(drift * 1000).toFixed(0)}ms - nudging rate to ${rate}x (base ${baseRate}x) for ${holdMs.toFixed(0)}ms`);
+
+    driftNudgeTimerRef.current = setTimeout(() => {
+      driftNudgeTimerRef.current = null;
+      try {
+        playerRef.current?.setPlaybackRate(baseRateRef.current);
+      } catch (error) {
+        console.warn('Could not restore playback rate:', error);
+      }
+    }, holdMs);
+
+    return true;
+  };
+
+  const clearScheduled = () => {
+    if (scheduledStartTimerRef.current) {
+      clearTimeout(scheduledStartTimerRef.current);
+      scheduledStartTimerRef.current = null;
+    }
+    if (scheduledPauseTimerRef.current) {
+      clearTimeout(scheduledPauseTimerRef.current);
+      scheduledPauseTimerRef.current = null;
+    }
+  };
+
+  // Stop locally at pauseAt rather than waiting for the server's broadcast to arrive
+  const schedulePause = (state: PlaybackState) => {
+    if (state.pauseAt === undefined) return;
+
+    const pauseAt = state.pauseAt;
+    const pauseIn = Math.max(0, pauseAt - realSocketService.serverNow());
+    console.log(`⏸️ Scheduled pause in ${pauseIn.toFixed(0)}ms`);
+
+    scheduledPauseTimerRef.current = setTimeout(() => {
+      scheduledPauseTimerRef.current = null;
       isSyncingRef.current = true;
-      hasReceivedInitialSyncRef.current = true;
-      
+      clearDriftNudge();
+
       try {
-        // Calculate time compensation for network delay
-        const now = Date.now();
-        const timeSinceSync = (now - state.timestamp) / 1000;
-        const compensatedTime = state.currentTime + (state.isPlaying ? timeSinceSync : 0);
-        
-        console.log(`⏰ Time compensation: +${timeSinceSync.toFixed(2)}s to ${compensatedTime.toFixed(2)}s`);
-        
-        // Change video if needed
+        playerRef.current?.pauseVideo();
+        playerRef.current?.seekTo(settleScheduledPause(state, pauseAt).currentTime, true);
+      } catch (error) {
+        console.error('Error applying scheduled pause:', error);
+      }
+      if (isHost) {
+        lastPlayerStateRef.current = 2;
+      }
+
+      setTimeout(() => {
+        isSyncingRef.current = false;
+        console.log('✅ Sync block released');
+      }, 300);
+    }, pauseIn);
+  };
+
+  const clearPreparing = () => {
+    if (prepareTimeoutRef.current) {
+      clearTimeout(prepareTimeoutRef.current);
+      prepareTimeoutRef.current = null;
+    }
+    if (!preparingVideoRef.current) return;
+
+    preparingVideoRef.current = null;
+    try {
+      if (!wasMutedRef.current) playerRef.current?.unMute();
+    } catch (error) {
+      console.warn('Could not restore volume after buffering:', error);
+    }
+  };
+
+  // Play the new track muted until it has buffered, then park it at the start and
+  // report ready - the server starts it for everyone at once
+  const prepareTrack = (id: string) => {
+    clearPreparing();
+    clearScheduled();
+    isSyncingRef.current = true;
+    preparingVideoRef.current = id;
+    wasMutedRef.current = playerRef.current.isMuted();
+    playerRef.current.mute();
+    playerRef.current.loadVideoById(id, 0);
+    console.log('⏳ Buffering track ahead of start:', id);
+
+    prepareTimeoutRef.current = setTimeout(() => {
+      prepareTimeoutRef.current = null;
+      if (preparingVideoRef.current !== id) return;
+
+      console.warn('⌛ Track did not buffer in time - cueing instead');
+      clearPreparing();
+      try {
+        playerRef.current?.cueVideoById(id);
+      } catch (error) {
+        console.error('Error cueing video:', error);
+      }
+      isSyncingRef.current = false;
+    }, PREPARE_TIMEOUT);
+  };
+
+  useEffect(() => () => {
+    clearDriftNudge();
+    clearScheduled();
+    if (prepareTimeoutRef.current) clearTimeout(prepareTimeoutRef.current);
+  }, []);
+
+  // Controllers also apply changes made by other controllers (e.g. a co-host pausing)
+  const applySyncState = (incoming: PlaybackState) => {
+    if (!playerRef.current || !incoming) return;
+    const state = settleScheduledPause(incoming, realSocketService.serverNow());
+    
+    console.log(`🔄 ${isHost ? 'Controller' : 'Participant'} applying sync:`, state);
+    
+    isSyncingRef.current = true;
+    hasReceivedInitialSyncRef.current = true;
+    baseRateRef.current = state.playbackRate ?? 1;
+    clearPreparing();
+    clearScheduled();
+    resetPlaybackRate();
+
+    // Remote change already reflects this state - don't treat the next local action as a duplicate of the old one
+    if (isHost) {
+      lastPlayerStateRef.current = state.isPlaying ? 1 : 2;
+    }
+    
+    try {
+      // Calculate time compensation for network delay (state.timestamp is server time)
+      const now = realSocketService.serverNow();
+      const timeSinceSync = Math.max(0, (now - state.timestamp) / 1000);
+      // The track advanced by elapsed wall time scaled by the rate it was playing at
+      const compensatedTime = state.currentTime + (state.isPlaying ? timeSinceSync * baseRateRef.current : 0);
+      
+      console.log(`⏰ Time compensation: +${timeSinceSync.toFixed(2)}s at ${baseRateRef.current}x to ${compensatedTime.toFixed(2)}s`);
+
+      // A start scheduled in server time - park at the position and start on the dot
+      const startsIn = state.timestamp - now;
+      if (state.isPlaying && startsIn > 0) {
+        console.log(`🚦 Scheduled start in ${startsIn.toFixed(0)}ms`);
+
         if (state.videoId !== currentVideoId) {
-          console.log('📹 Participant changing video:', state.videoId);
           setCurrentVideoId(state.videoId);
-          playerRef.current.loadVideoById(state.videoId, Math.max(0, compensatedTime));
+          playerRef.current.cueVideoById(state.videoId, state.currentTime);
         } else {
-          // Seek to compensated time
-          playerRef.current.seekTo(Math.max(0, compensatedTime), true);
+          playerRef.current.pauseVideo();
+          playerRef.current.seekTo(state.currentTime, true);
         }
 
-        // Apply play/pause state with minimal delay
-        setTimeout(() => {
+        scheduledStartTimerRef.current = setTimeout(() => {
+          scheduledStartTimerRef.current = null;
           try {
-            if (state.isPlaying) {
-              console.log('🔄 Sync: Starting playback');
-              playerRef.current.playVideo();
-            } else {
-              console.log('🔄 Sync: Pausing playback');
-              playerRef.current.pauseVideo();
-            }
+            playerRef.current?.playVideo();
+            playerRef.current?.setPlaybackRate(baseRateRef.current);
           } catch (error) {
-            console.error('Error applying playback state:', error);
+            console.error('Error starting scheduled playback:', error);
           }
-          
-          // Release sync block
+
           setTimeout(() => {
             isSyncingRef.current = false;
             console.log('✅ Sync block released');
           }, 300);
-        }, 50);
+        }, startsIn);
+        return;
+      }
+      
+      // Change video if needed
+      if (state.videoId !== currentVideoId) {
+        console.log('📹 Participant changing video:', state.videoId);
+        setCurrentVideoId(state.videoId);
+        playerRef.current.loadVideoById(state.videoId, Math.max(0, compensatedTime));
+      } else {
+        // Seek to compensated time
+        playerRef.current.seekTo(Math.max(0, compensatedTime), true);
+      }
+
+      // Apply play/pause state with minimal delay
+      setTimeout(() => {
+        try {
+          if (state.isPlaying) {
+            console.log('🔄 Sync: Starting playback');
+            playerRef.current.playVideo();
+          } else {
+            console.log('🔄 Sync: Pausing playback');
+            playerRef.current.pauseVideo();
+          }
+          // Loading a video can drop the rate back to 1x
+          playerRef.current.setPlaybackRate(baseRateRef.current);
+        } catch (error) {
+          console.error('Error applying playback state:', error);
+        }
         
-      } catch (error) {
-        console.error('Error in applySyncState:', error);
-        isSyncingRef.current = false;
+        // Release sync block
+        setTimeout(() => {
+          isSyncingRef.current = false;
+          console.log('✅ Sync block released');
+        }, 300);
+      }, 50);
+
+      if (state.isPlaying && state.pauseAt !== undefined) {
+        schedulePause(state);
       }
-    },
+      
+    } catch (error) {
+      console.error('Error in applySyncState:', error);
+      isSyncingRef.current = false;
+    }
+  };
+
+  // Compare local position with an authoritative heartbeat and correct proportionally
+  const correctDrift = (state: PlaybackState) => {
+    if (!playerRef.current || !state || isHost || isSyncingRef.current) return;
+
+    try {
+      const playerState = playerRef.current.getPlayerState();
+
+      // Wrong video or play/pause mismatch cannot be fixed by a nudge
+      if (state.videoId !== currentVideoId || (state.isPlaying !== (playerState === 1) && playerState !== 3)) {
+        console.log('🔄 Heartbeat mismatch - applying full sync');
+        applySyncState(state);
+        return;
+      }
+
+      // A rate change we missed can't be nudged away either
+      const roomRate = state.playbackRate ?? 1;
+      if (roomRate !== baseRateRef.current) {
+        console.log(`🔄 Heartbeat rate ${roomRate}x differs from ${baseRateRef.current}x - applying full sync`);
+        applySyncState(state);
+        return;
+      }
+
+      // Position is meaningless while paused or buffering
+      if (!state.isPlaying || playerState !== 1) return;
+
+      const expectedTime = state.currentTime + Math.max(0, (realSocketService.serverNow() - state.timestamp) / 1000) * roomRate;
+      const drift = (playerRef.current.getCurrentTime() || 0) - expectedTime;
+      let correction: DriftSample['correction'] = 'none';
+
+      if (Math.abs(drift) >= driftSeekThreshold) {
+        console.log(`⏩ Drift ${(drift * 1000).toFixed(0)}ms exceeds threshold - seeking`);
+        resetPlaybackRate();
+        playerRef.current.seekTo(expectedTime, true);
+        correction = 'seek';
+      } else if (Math.abs(drift) > driftTolerance && nudgePlaybackRate(drift)) {
+        correction = 'nudge';
+      }
+
+      onDriftMeasured?.({ drift, correction, measuredAt: Date.now() });
+    } catch (error) {
+      console.error('Error in drift correction:', error);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    applySyncState,
+    correctDrift,
     
     getCurrentTime: () => {
       try {
@@ -116,6 +394,23 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
         return -1;
       }
     },
+
+    cancelScheduled: () => {
+      if (!scheduledStartTimerRef.current && !scheduledPauseTimerRef.current) return;
+
+      console.log('🚫 Scheduled playback cancelled');
+      clearScheduled();
+      isSyncingRef.current = false;
+    },
+
+    setPlaybackRate: (rate: number) => {
+      if (!isHost || !playerRef.current) return;
+      try {
+        playerRef.current.setPlaybackRate(rate);
+      } catch (error) {
+        console.warn('Could not set playback rate:', error);
+      }
+    },
     
     forceSync: () => {
       if (!isHost || !playerRef.current) return;
@@ -126,9 +421,9 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
         console.log('🔄 Force sync:', { playerState, currentTime });
         
         if (playerState === 1) {
-          onSyncPlay?.(currentVideoId, currentTime);
+          onSyncPlay?.(currentVideoId, currentTime, baseRateRef.current);
         } else {
-          onSyncPause?.(currentVideoId, currentTime);
+          onSyncPause?.(currentVideoId, currentTime, baseRateRef.current);
         }
       } catch (error) {
         console.error('Error in force sync:', error);
@@ -155,50 +450,54 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
       // Load video if player is ready
       if (playerRef.current && isReady) {
         console.log('🔄 Loading new video:', videoId);
-        isSyncingRef.current = true;
+        
+        if (autoPlay) {
+          // Leave sync unblocked so the host's play event reaches participants
+          try {
+            playerRef.current.loadVideoById(videoId);
+            console.log('▶️ Video loaded (auto-play)');
+          } catch (error) {
+            console.error('Error loading video:', error);
+            setPlayerError('Failed to load video');
+          }
+          return;
+        }
         
         try {
-          // Use cueVideoById to prevent auto-play
-          playerRef.current.cueVideoById(videoId);
-          console.log('📹 Video cued (no auto-play)');
-          
-          setTimeout(() => {
-            isSyncingRef.current = false;
-            console.log('✅ Video load sync released');
-          }, 500);
+          // Buffer without playing out loud - the room starts everyone together
+          prepareTrack(videoId);
         } catch (error) {
           console.error('Error loading video:', error);
           setPlayerError('Failed to load video');
+          clearPreparing();
           isSyncingRef.current = false;
         }
       }
     }
-  }, [videoId, currentVideoId, isReady, isHost, onVideoLoad]);
+  }, [videoId, currentVideoId, isReady, isHost, onVideoLoad, autoPlay]);
 
   // Handle initial sync state
   useEffect(() => {
-    if (initialSyncState && !isHost && playerRef.current && !initializationCompleteRef.current) {
+    // Controllers joining mid-song start from the room's position too
+    if (initialSyncState && isReady && playerRef.current && !initializationCompleteRef.current) {
       console.log('🎬 Applying initial sync state:', initialSyncState);
       initializationCompleteRef.current = true;
       
-      // Apply initial state with slight delay to ensure player is ready
-      setTimeout(() => {
-        if (playerRef.current) {
-          setCurrentVideoId(initialSyncState.videoId);
-          
-          if (initialSyncState.isPlaying) {
-            playerRef.current.loadVideoById(initialSyncState.videoId, initialSyncState.currentTime);
-            setTimeout(() => playerRef.current?.playVideo(), 500);
-          } else {
-            playerRef.current.cueVideoById(initialSyncState.videoId);
-            playerRef.current.seekTo(initialSyncState.currentTime);
-          }
-          
-          hasReceivedInitialSyncRef.current = true;
-        }
-      }, 1000);
+      clearPreparing();
+
+      // Playing (or counting down) - applySyncState compensates for the time since the
+      // server recorded this state and blocks controller echoes while it starts
+      if (initialSyncState.isPlaying) {
+        applySyncState(initialSyncState);
+        return;
+      }
+
+      setCurrentVideoId(initialSyncState.videoId);
+      baseRateRef.current = initialSyncState.playbackRate ?? 1;
+      playerRef.current.cueVideoById(initialSyncState.videoId, initialSyncState.currentTime);
+      hasReceivedInitialSyncRef.current = true;
     }
-  }, [initialSyncState, isHost]);
+  }, [initialSyncState, isReady]);
 
   const onReady: YouTubeProps['onReady'] = (event) => {
     console.log('🎵 Player ready, video:', currentVideoId);
@@ -217,11 +516,16 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
     isSyncingRef.current = false;
     lastPlayerStateRef.current = -1;
     
-    // Load initial video WITHOUT auto-play
+    // Load initial video WITHOUT auto-play - a fresh pick is buffered for the coordinated start,
+    // joining mid-song is handled by the initial sync state
     if (currentVideoId && currentVideoId !== '') {
       try {
-        playerRef.current.cueVideoById(currentVideoId);
-        console.log('📹 Initial video cued (no auto-play)');
+        if (initialSyncState) {
+          playerRef.current.cueVideoById(currentVideoId);
+          console.log('📹 Initial video cued (no auto-play)');
+        } else {
+          prepareTrack(currentVideoId);
+        }
       } catch (error) {
         console.error('Error loading initial video:', error);
         setPlayerError('Failed to load initial video');
@@ -240,6 +544,30 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
     // Update buffering state
     setBuffering(playerState === 3);
     
+    // The track being prepared reached playback, so it has buffered enough to start on cue
+    if (preparingVideoRef.current && playerState === 1) {
+      const readyVideoId = preparingVideoRef.current;
+      try {
+        playerRef.current.pauseVideo();
+        playerRef.current.seekTo(0, true);
+      } catch (error) {
+        console.error('Error parking prepared track:', error);
+      }
+      clearPreparing();
+      lastPlayerStateRef.current = 2;
+
+      setTimeout(() => {
+        // Leave the block in place if the start was scheduled in the meantime
+        if (!scheduledStartTimerRef.current) {
+          isSyncingRef.current = false;
+        }
+      }, 300);
+
+      console.log('✅ Track buffered and ready:', readyVideoId);
+      onTrackReady?.(readyVideoId);
+      return;
+    }
+
     // Block events during sync
     if (isSyncingRef.current) {
       console.log('🚫 BLOCKED: Currently syncing');
@@ -331,13 +659,18 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
         
         console.log(`👑 HOST SYNC: State ${playerState} at ${currentTime.toFixed(1)}s`);
         
+        const playbackRate = baseRateRef.current;
+
         switch (playerState) {
           case 1: // Playing
-            onSyncPlay?.(currentVideoId, currentTime);
+            onSyncPlay?.(currentVideoId, currentTime, playbackRate);
             break;
           case 2: // Paused
+            onSyncPause?.(currentVideoId, currentTime, playbackRate);
+            break;
           case 0: // Ended
-            onSyncPause?.(currentVideoId, currentTime);
+            onSyncPause?.(currentVideoId, currentTime, playbackRate);
+            onTrackEnded?.(currentVideoId);
             break;
         }
       } catch (error) {
@@ -346,6 +679,24 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
     }
   };
 
+  // Controllers share speed changes from the player's settings menu or the room controls
+  const onPlaybackRateChange: YouTubeProps['onPlaybackRateChange'] = (event) => {
+    const rate = event.data;
+    if (!isHost) return;
+    // Ignore our own drift nudges and rates applied from the room
+    if (isSyncingRef.current || driftNudgeTimerRef.current || rate === baseRateRef.current) return;
+
+    baseRateRef.current = rate;
+    try {
+      const currentTime = playerRef.current?.getCurrentTime() || 0;
+      const isPlaying = playerRef.current?.getPlayerState() === 1;
+      console.log(`👑 HOST SYNC: Rate ${rate}x at ${currentTime.toFixed(1)}s`);
+      onSyncRate?.(currentVideoId, currentTime, rate, isPlaying);
+    } catch (error) {
+      console.error('Error in rate sync:', error);
+    }
+  };
+
   // Optimized player options
   const opts: YouTubeProps['opts'] = {
     height: '315',
@@ -485,6 +836,7 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({
               videoId={currentVideoId}
               onReady={onReady}
               onStateChange={onPlayerStateChange}
+              onPlaybackRateChange={onPlaybackRateChange}
               onError={onError}
               opts={opts}
               className="w-full max-w-[560px]"
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 
-interface SearchResult {
+export interface SearchResult {
   id: string;
   title: string;
   artist: string;
@@ -10,7 +10,7 @@ interface SearchResult {
 }
 
 interface YouTubeSearchProps {
-  onSelectTrack: (videoId: string) => void;
+  onSelectTrack: (videoId: string, track: SearchResult) => void;
 }
 
 // YouTube API service
@@ -240,7 +240,7 @@ function YouTubeSearch({ onSelectTrack }: YouTubeSearchProps) {
             {results.map((track, index) => (
               <div
                 key={track.id}
-                onClick={() => onSelectTrack(track.id)}
+                onClick={() => onSelectTrack(track.id, track)}
                 className={`flex items-center gap-3 p-3 cursor-pointer transition-colors hover:bg-gray-700 group ${
                   index !== results.length - 1 ? 'border-b border-gray-600' : ''
                 }`}
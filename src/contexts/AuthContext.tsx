@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
 
 interface User {
   id: string;
@@ -33,6 +34,22 @@ interface User {
   };
 }
 
+// A signed-in device, as listed on the account page
+export interface UserSession {
+  id: string;
+  userAgent: string;
+  ipAddress: string;
+  deviceInfo: {
+    platform?: string;
+    browser?: string;
+    os?: string;
+    isMobile: boolean;
+  };
+  createdAt: string;
+  lastUsed: string;
+  isCurrent: boolean;
+}
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
@@ -40,7 +57,23 @@ interface AuthContextType {
     success: boolean; 
     error?: string; 
     validationErrors?: string[];
+    requiresTwoFactor?: boolean;
+    challengeToken?: string;
+  }>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<{
+    success: boolean;
+    error?: string;
+    requiresReauth?: boolean;
+  }>;
+  startTwoFactorSetup: () => Promise<{
+    success: boolean;
+    secret?: string;
+    otpauthUri?: string;
+    qrCode?: string;
+    error?: string;
   }>;
+  confirmTwoFactorSetup: (code: string) => Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }>;
+  disableTwoFactor: (password: string, code: string) => Promise<{ success: boolean; error?: string }>;
   register: (username: string, email: string, password: string) => Promise<{ 
     success: boolean; 
     error?: string; 
@@ -53,13 +86,22 @@ interface AuthContextType {
     error?: string; 
   }>;
   refreshToken: () => Promise<boolean>;
+  verifyEmail: (token: string) => Promise<{ success: boolean; error?: string }>;
+  resendVerification: () => Promise<{ success: boolean; error?: string }>;
+  requestPasswordReset: (email: string) => Promise<{ success: boolean; message?: string; error?: string }>;
+  resetPassword: (token: string, newPassword: string) => Promise<{
+    success: boolean;
+    error?: string;
+    validationErrors?: string[];
+  }>;
   checkPasswordStrength: (password: string) => Promise<{
     score: number;
     feedback: string[];
     isStrong: boolean;
   }>;
-  getUserSessions: () => Promise<any[]>;
+  getUserSessions: () => Promise<UserSession[]>;
   revokeSession: (sessionId: string) => Promise<{ success: boolean; error?: string }>;
+  revokeOtherSessions: () => Promise<{ success: boolean; revoked?: number; error?: string }>;
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
@@ -95,6 +137,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setError(null);
   }, []);
 
+  // Another device signed this one out - drop the tokens rather than wait for them to fail
+  useEffect(() => {
+    return realSocketService.onSessionRevoked(({ message }) => {
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      setToken(null);
+      setUser(null);
+      setError(message);
+    });
+  }, []);
+
   // Auto-refresh token before expiration
   useEffect(() => {
     const refreshToken = localStorage.getItem('refreshToken');
@@ -195,9 +248,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Leaves the app-wide isLoading alone - App swaps in a spinner for it, which would
+  // unmount AuthModal and lose its place between the password and 2FA steps
   const login = async (emailOrUsername: string, password: string) => {
     try {
-      setIsLoading(true);
       setError(null);
       
       // ✅ Now this will be correct: https://music-sync-server-nz0r.onrender.com/api/auth/login
@@ -214,6 +268,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       const data = await response.json();
 
+      // The password was right but a code is still needed - nothing is signed in yet
+      if (data.requiresTwoFactor) {
+        return { success: false, requiresTwoFactor: true, challengeToken: data.challengeToken };
+      }
+
       if (data.success) {
         localStorage.setItem('accessToken', data.tokens.accessToken);
         localStorage.setItem('refreshToken', data.tokens.refreshToken);
@@ -233,8 +292,41 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const errorMessage = 'Login failed. Please check your connection and try again.';
       setError(errorMessage);
       return { success: false, error: errorMessage };
-    } finally {
-      setIsLoading(false);
+    }
+  };
+
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/2fa/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeToken,
+          code,
+          userAgent: navigator.userAgent,
+          ipAddress: 'client'
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        localStorage.setItem('accessToken', data.tokens.accessToken);
+        localStorage.setItem('refreshToken', data.tokens.refreshToken);
+        setToken(data.tokens.accessToken);
+        setUser(data.user);
+        clearError();
+        return { success: true };
+      } else {
+        setError(data.error);
+        return { success: false, error: data.error, requiresReauth: data.requiresReauth };
+      }
+    } catch (error) {
+      const errorMessage = 'Verification failed. Please check your connection and try again.';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
     }
   };
 
@@ -368,6 +460,154 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const verifyEmail = async (token: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/auth/verify-email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+
+      const data = await response.json();
+
+      // The link can be opened signed out - only refresh the profile when there is one
+      if (data.success && localStorage.getItem('accessToken')) {
+        await fetchUserProfile();
+      }
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Email verification failed' };
+    }
+  };
+
+  const resendVerification = async () => {
+    try {
+      const accessToken = localStorage.getItem('accessToken');
+      if (!accessToken) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/resend-verification`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+
+      const data = await response.json();
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Could not send the verification email' };
+    }
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/auth/forgot-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      });
+
+      const data = await response.json();
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Could not request a password reset. Please check your connection.' };
+    }
+  };
+
+  // Every session is signed out by the reset, including this one
+  const resetPassword = async (token: string, newPassword: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/auth/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password: newPassword })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        localStorage.removeItem('accessToken');
+        localStorage.removeItem('refreshToken');
+        setToken(null);
+        setUser(null);
+      }
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Password reset failed. Please check your connection.' };
+    }
+  };
+
+  const startTwoFactorSetup = async () => {
+    try {
+      const accessToken = localStorage.getItem('accessToken');
+      if (!accessToken) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/2fa/setup`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+
+      const data = await response.json();
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Could not start two-factor setup' };
+    }
+  };
+
+  const confirmTwoFactorSetup = async (code: string) => {
+    try {
+      const accessToken = localStorage.getItem('accessToken');
+      if (!accessToken) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/2fa/confirm`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ code })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        await fetchUserProfile();
+      }
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Could not enable two-factor authentication' };
+    }
+  };
+
+  const disableTwoFactor = async (password: string, code: string) => {
+    try {
+      const accessToken = localStorage.getItem('accessToken');
+      if (!accessToken) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/2fa/disable`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ password, code })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        await fetchUserProfile();
+      }
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Could not disable two-factor authentication' };
+    }
+  };
+
   const checkPasswordStrength = async (password: string) => {
     try {
       const response = await fetch(`${API_BASE_URL}/api/auth/check-password-strength`, {
@@ -426,18 +666,46 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const revokeOtherSessions = async () => {
+    try {
+      const accessToken = localStorage.getItem('accessToken');
+      if (!accessToken) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/sessions/revoke-others`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+
+      const data = await response.json();
+      return data;
+    } catch (error) {
+      return { success: false, error: 'Failed to sign out other sessions' };
+    }
+  };
+
   const value = {
     user,
     token,
     login,
+    verifyTwoFactor,
     register,
     logout,
     updateProfile,
     changePassword,
     refreshToken: refreshAuthToken,
+    verifyEmail,
+    resendVerification,
+    requestPasswordReset,
+    resetPassword,
+    startTwoFactorSetup,
+    confirmTwoFactorSetup,
+    disableTwoFactor,
     checkPasswordStrength,
     getUserSessions,
     revokeSession,
+    revokeOtherSessions,
     isLoading,
     isAuthenticated: !!user && !!token,
     error,
@@ -0,0 +1,56 @@
+import { useEffect, useState, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { ChatMessage } from '../services/realSocketService';
+
+interface UseChatProps {
+  roomCode: string;
+}
+
+// Mirrors the server's history limit so long sessions don't grow without bound
+const MAX_VISIBLE_MESSAGES = 100;
+
+export const useChat = ({ roomCode }: UseChatProps) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // History arrives on join and restore, then messages stream in one by one
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const historyCleanup = realSocketService.onChatHistory((data) => {
+      setMessages(data.messages);
+    });
+
+    const messageCleanup = realSocketService.onChatMessage((data) => {
+      setMessages(prev => {
+        if (prev.some(message => message.id === data.message.id)) return prev;
+        return [...prev, data.message].slice(-MAX_VISIBLE_MESSAGES);
+      });
+    });
+
+    return () => {
+      historyCleanup();
+      messageCleanup();
+      setMessages([]);
+    };
+  }, [roomCode]);
+
+  const sendMessage = useCallback(async (text: string): Promise<boolean> => {
+    const trimmed = text.trim();
+    if (!trimmed) return false;
+
+    setError(null);
+    try {
+      await realSocketService.sendChatMessage(trimmed);
+      return true;
+    } catch (err) {
+      console.error('❌ Failed to send chat message:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, []);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { messages, error, clearError, sendMessage };
+};
@@ -0,0 +1,64 @@
+import { useEffect, useState, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { DjRotationState, QueueTrack } from '../services/realSocketService';
+
+interface UseDjRotationProps {
+  roomCode: string;
+  currentUserId?: string;
+}
+
+export const useDjRotation = ({ roomCode, currentUserId }: UseDjRotationProps) => {
+  const [rotation, setRotation] = useState<DjRotationState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The server sends the rotation on join and after every turn change
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const cleanup = realSocketService.onDjRotationUpdated((data) => {
+      setRotation(data.rotation);
+    });
+
+    return () => {
+      cleanup();
+      setRotation(null);
+    };
+  }, [roomCode]);
+
+  const isCurrentDj = !!rotation?.enabled && !!currentUserId && rotation.currentDjId === currentUserId;
+  const inRotation = !!currentUserId && !!rotation?.djs.some(dj => dj.userId === currentUserId);
+
+  const runRotationAction = useCallback(async (action: () => Promise<unknown>): Promise<boolean> => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error('❌ DJ rotation action failed:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, []);
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    return runRotationAction(() => realSocketService.setDjRotation(enabled));
+  }, [runRotationAction]);
+
+  const join = useCallback(() => {
+    return runRotationAction(() => realSocketService.joinDjRotation());
+  }, [runRotationAction]);
+
+  const leave = useCallback(() => {
+    return runRotationAction(() => realSocketService.leaveDjRotation());
+  }, [runRotationAction]);
+
+  const pickTrack = useCallback((track: QueueTrack) => {
+    return runRotationAction(() => realSocketService.pickDjTrack(track));
+  }, [runRotationAction]);
+
+  const skipTurn = useCallback(() => {
+    return runRotationAction(() => realSocketService.skipDjTurn());
+  }, [runRotationAction]);
+
+  return { rotation, isCurrentDj, inRotation, error, setEnabled, join, leave, pickTrack, skipTurn };
+};
@@ -0,0 +1,55 @@
+import { useEffect, useState, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { LobbyEntry } from '../services/realSocketService';
+
+interface UseLobbyProps {
+  roomCode: string;
+  canManage: boolean;
+}
+
+export const useLobby = ({ roomCode, canManage }: UseLobbyProps) => {
+  const [lobby, setLobby] = useState<LobbyEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only moderators receive the waiting line
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const cleanup = realSocketService.onLobbyUpdated((data) => {
+      setLobby(data.lobby);
+    });
+
+    return () => {
+      cleanup();
+      setLobby([]);
+    };
+  }, [roomCode]);
+
+  const runLobbyAction = useCallback(async (action: () => Promise<unknown>): Promise<boolean> => {
+    if (!canManage) return false;
+
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error('❌ Lobby action failed:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, [canManage]);
+
+  const admit = useCallback((userId: string) => {
+    return runLobbyAction(() => realSocketService.admitFromLobby(userId));
+  }, [runLobbyAction]);
+
+  const admitAll = useCallback(() => {
+    return runLobbyAction(() => realSocketService.admitAllFromLobby());
+  }, [runLobbyAction]);
+
+  const deny = useCallback((userId: string, reason?: string) => {
+    return runLobbyAction(() => realSocketService.denyFromLobby(userId, reason));
+  }, [runLobbyAction]);
+
+  return { lobby, error, admit, admitAll, deny };
+};
@@ -0,0 +1,78 @@
+import { useEffect, useState, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { RoomBan } from '../services/realSocketService';
+
+interface UseModerationProps {
+  roomCode: string;
+  canModerate: boolean;
+}
+
+export const useModeration = ({ roomCode, canModerate }: UseModerationProps) => {
+  const [bans, setBans] = useState<RoomBan[]>([]);
+  const [mutedUserIds, setMutedUserIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only moderators receive the ban list
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const cleanup = realSocketService.onBansUpdated((data) => {
+      setBans(data.bans);
+    });
+
+    return () => {
+      cleanup();
+      setBans([]);
+    };
+  }, [roomCode]);
+
+  // Everyone hears who is muted
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const cleanup = realSocketService.onMutesUpdated((data) => {
+      setMutedUserIds(data.userIds);
+    });
+
+    return () => {
+      cleanup();
+      setMutedUserIds([]);
+    };
+  }, [roomCode]);
+
+  const runModerationAction = useCallback(async (action: () => Promise<unknown>): Promise<boolean> => {
+    if (!canModerate) return false;
+
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error('❌ Moderation action failed:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, [canModerate]);
+
+  const kickParticipant = useCallback((userId: string, reason?: string) => {
+    return runModerationAction(() => realSocketService.kickParticipant(userId, reason));
+  }, [runModerationAction]);
+
+  const banParticipant = useCallback((userId: string, reason?: string, durationMinutes?: number) => {
+    return runModerationAction(() => realSocketService.banParticipant(userId, reason, durationMinutes));
+  }, [runModerationAction]);
+
+  const unbanParticipant = useCallback((userId: string) => {
+    return runModerationAction(() => realSocketService.unbanParticipant(userId));
+  }, [runModerationAction]);
+
+  const muteUser = useCallback((userId: string) => {
+    return runModerationAction(() => realSocketService.muteUser(userId));
+  }, [runModerationAction]);
+
+  const unmuteUser = useCallback((userId: string) => {
+    return runModerationAction(() => realSocketService.unmuteUser(userId));
+  }, [runModerationAction]);
+
+  return { bans, mutedUserIds, error, kickParticipant, banParticipant, unbanParticipant, muteUser, unmuteUser };
+};
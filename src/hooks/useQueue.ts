@@ -0,0 +1,82 @@
+import { useEffect, useState, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { QueueItem, QueueTrack } from '../services/realSocketService';
+
+interface UseQueueProps {
+  roomCode: string;
+  canManage: boolean;
+}
+
+export const useQueue = ({ roomCode, canManage }: UseQueueProps) => {
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // The server pushes the full queue on join and after every change
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const cleanup = realSocketService.onQueueUpdated((data) => {
+      console.log('📜 Queue updated:', data.queue.length, 'tracks');
+      setQueue(data.queue);
+    });
+
+    return () => {
+      cleanup();
+      setQueue([]);
+    };
+  }, [roomCode]);
+
+  const runQueueAction = useCallback(async (action: () => Promise<unknown>): Promise<boolean> => {
+    if (!canManage) return false;
+
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error('❌ Queue action failed:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, [canManage]);
+
+  const addToQueue = useCallback((track: QueueTrack) => {
+    return runQueueAction(() => realSocketService.addToQueue(track));
+  }, [runQueueAction]);
+
+  const removeFromQueue = useCallback((itemId: string) => {
+    return runQueueAction(() => realSocketService.removeFromQueue(itemId));
+  }, [runQueueAction]);
+
+  const moveQueueItem = useCallback((itemId: string, toIndex: number) => {
+    return runQueueAction(() => realSocketService.moveQueueItem(itemId, toIndex));
+  }, [runQueueAction]);
+
+  const clearQueue = useCallback(() => {
+    return runQueueAction(() => realSocketService.clearQueue());
+  }, [runQueueAction]);
+
+  const playNext = useCallback(() => {
+    return runQueueAction(() => realSocketService.playNext());
+  }, [runQueueAction]);
+
+  // The server decides whether to advance based on the room's autoPlay setting
+  const notifyTrackEnded = useCallback((videoId: string) => {
+    if (!canManage) return;
+    realSocketService.notifyTrackEnded(videoId);
+  }, [canManage]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    queue,
+    error,
+    clearError,
+    addToQueue,
+    removeFromQueue,
+    moveQueueItem,
+    clearQueue,
+    playNext,
+    notifyTrackEnded
+  };
+};
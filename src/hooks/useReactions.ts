@@ -0,0 +1,69 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { Reaction, ReactionCounts, ReactionType, TrackReactions } from '../services/realSocketService';
+
+interface UseReactionsProps {
+  roomCode: string;
+}
+
+export interface FloatingReaction extends Reaction {
+  id: number;
+  offset: number; // Horizontal position as a percentage of the player width
+}
+
+// Matches the float animation in tailwind.config.js
+const FLOAT_DURATION = 2000;
+const MAX_FLOATING_REACTIONS = 30;
+
+export const useReactions = ({ roomCode }: UseReactionsProps) => {
+  const [floating, setFloating] = useState<FloatingReaction[]>([]);
+  const [tracks, setTracks] = useState<TrackReactions[]>([]);
+  const [totals, setTotals] = useState<ReactionCounts | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const nextIdRef = useRef(0);
+
+  // Everyone sees reactions float by; only hosts and co-hosts receive the stats
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const reactionCleanup = realSocketService.onReaction((data) => {
+      const id = nextIdRef.current++;
+      const reaction: FloatingReaction = { ...data, id, offset: 10 + Math.random() * 80 };
+      setFloating(prev => [...prev, reaction].slice(-MAX_FLOATING_REACTIONS));
+
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setFloating(prev => prev.filter(item => item.id !== id));
+      }, FLOAT_DURATION);
+      timers.add(timer);
+    });
+
+    const statsCleanup = realSocketService.onReactionStats((data) => {
+      setTracks(data.tracks);
+      setTotals(data.totals);
+    });
+
+    return () => {
+      reactionCleanup();
+      statsCleanup();
+      timers.forEach(timer => clearTimeout(timer));
+      setFloating([]);
+      setTracks([]);
+      setTotals(null);
+    };
+  }, [roomCode]);
+
+  const sendReaction = useCallback(async (type: ReactionType) => {
+    setError(null);
+    try {
+      await realSocketService.sendReaction(type);
+    } catch (err) {
+      console.error('❌ Failed to send reaction:', err);
+      setError((err as Error).message);
+    }
+  }, []);
+
+  return { floating, tracks, totals, error, sendReaction };
+};
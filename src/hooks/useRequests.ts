@@ -0,0 +1,86 @@
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { realSocketService } from '../services/realSocketService';
+import type { QueueTrack, SongRequest } from '../services/realSocketService';
+
+interface UseRequestsProps {
+  roomCode: string;
+  canReview: boolean;
+}
+
+export const useRequests = ({ roomCode, canReview }: UseRequestsProps) => {
+  const { user } = useAuth();
+  // Everyone receives their own requests, reviewers also receive the pending inbox
+  const [requests, setRequests] = useState<SongRequest[]>([]);
+  const [lastResolved, setLastResolved] = useState<SongRequest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const requestsCleanup = realSocketService.onRequestsUpdated((data) => {
+      setRequests(data.requests);
+    });
+
+    const statusCleanup = realSocketService.onRequestStatus((data) => {
+      console.log(`🙋 Request ${data.request.status}:`, data.request.title);
+      setLastResolved(data.request);
+    });
+
+    return () => {
+      requestsCleanup();
+      statusCleanup();
+      setRequests([]);
+      setLastResolved(null);
+    };
+  }, [roomCode]);
+
+  const pendingRequests = useMemo(() => {
+    return canReview ? requests.filter(request => request.status === 'pending') : [];
+  }, [requests, canReview]);
+
+  const myRequests = useMemo(() => {
+    return requests.filter(request => request.requestedBy.userId === user?.id);
+  }, [requests, user?.id]);
+
+  const runRequestAction = useCallback(async (action: () => Promise<unknown>): Promise<boolean> => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error('❌ Request action failed:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, []);
+
+  const submitRequest = useCallback((track: QueueTrack) => {
+    return runRequestAction(() => realSocketService.submitRequest(track));
+  }, [runRequestAction]);
+
+  const approveRequest = useCallback((requestId: string) => {
+    if (!canReview) return Promise.resolve(false);
+    return runRequestAction(() => realSocketService.approveRequest(requestId));
+  }, [canReview, runRequestAction]);
+
+  const rejectRequest = useCallback((requestId: string, reason?: string) => {
+    if (!canReview) return Promise.resolve(false);
+    return runRequestAction(() => realSocketService.rejectRequest(requestId, reason));
+  }, [canReview, runRequestAction]);
+
+  const clearError = useCallback(() => setError(null), []);
+  const dismissResolved = useCallback(() => setLastResolved(null), []);
+
+  return {
+    pendingRequests,
+    myRequests,
+    lastResolved,
+    error,
+    clearError,
+    dismissResolved,
+    submitRequest,
+    approveRequest,
+    rejectRequest
+  };
+};
@@ -0,0 +1,46 @@
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { realSocketService } from '../services/realSocketService';
+import type { RoomMember, RoomRole } from '../services/realSocketService';
+
+interface UseRolesProps {
+  roomCode: string;
+}
+
+export const useRoles = ({ roomCode }: UseRolesProps) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // The server broadcasts the full member list on joins, leaves and role changes
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const cleanup = realSocketService.onRolesUpdated((data) => {
+      setMembers(data.members);
+    });
+
+    return () => {
+      cleanup();
+      setMembers([]);
+    };
+  }, [roomCode]);
+
+  const myRole: RoomRole = useMemo(() => {
+    return members.find(member => member.userId === user?.id)?.role || 'listener';
+  }, [members, user?.id]);
+
+  const setRole = useCallback(async (userId: string, role: Exclude<RoomRole, 'owner'>) => {
+    setError(null);
+    try {
+      await realSocketService.setParticipantRole(userId, role);
+      return true;
+    } catch (err) {
+      console.error('❌ Failed to change role:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, []);
+
+  return { members, myRole, error, setRole };
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { RoomSettings } from '../services/realSocketService';
+
+interface UseRoomSettingsProps {
+  roomCode: string;
+  canEdit: boolean;
+}
+
+export const useRoomSettings = ({ roomCode, canEdit }: UseRoomSettingsProps) => {
+  const [settings, setSettings] = useState<RoomSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The server sends the current settings on join and after every change
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const cleanup = realSocketService.onRoomSettingsUpdated((data) => {
+      setSettings(data.settings);
+    });
+
+    return () => {
+      cleanup();
+      setSettings(null);
+    };
+  }, [roomCode]);
+
+  const updateSettings = useCallback(async (updates: Partial<RoomSettings>) => {
+    if (!canEdit) return false;
+
+    setError(null);
+    try {
+      await realSocketService.updateRoomSettings(updates);
+      return true;
+    } catch (err) {
+      console.error('❌ Failed to update room settings:', err);
+      setError((err as Error).message);
+      return false;
+    }
+  }, [canEdit]);
+
+  return { settings, error, updateSettings };
+};
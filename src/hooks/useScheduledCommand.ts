@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { PlaybackState } from '../services/realSocketService';
+import { pendingCommand } from '../utils/scheduledPlayback';
+
+// Ticks while the room counts down to a scheduled start or pause
+export const useScheduledCommand = (state: PlaybackState | null) => {
+  const [now, setNow] = useState(() => realSocketService.serverNow());
+  const command = pendingCommand(state, now);
+
+  // Pick up a freshly scheduled command right away instead of on the next tick
+  useEffect(() => {
+    setNow(realSocketService.serverNow());
+  }, [state]);
+
+  // Scheduled times are in server time
+  useEffect(() => {
+    if (!command) return;
+    const timer = setInterval(() => setNow(realSocketService.serverNow()), 200);
+    return () => clearInterval(timer);
+  }, [command?.action, command?.at]);
+
+  return { command, remaining: command ? command.at - now : 0 };
+};
@@ -0,0 +1,57 @@
+import { useEffect, useState, useCallback } from 'react';
+import { realSocketService } from '../services/realSocketService';
+import type { SkipVoteTally } from '../services/realSocketService';
+
+interface UseSkipVoteProps {
+  roomCode: string;
+  currentUserId?: string;
+}
+
+// How long the "skipped by vote" notice stays up
+const PASSED_NOTICE_DURATION = 4000;
+
+export const useSkipVote = ({ roomCode, currentUserId }: UseSkipVoteProps) => {
+  const [tally, setTally] = useState<SkipVoteTally | null>(null);
+  const [passedNotice, setPassedNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomCode) return;
+
+    let noticeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const tallyCleanup = realSocketService.onSkipVotesUpdated((data) => {
+      setTally(data.tally);
+    });
+
+    const passedCleanup = realSocketService.onSkipVotePassed((data) => {
+      setPassedNotice(`The room voted to skip (${data.votes} vote${data.votes !== 1 ? 's' : ''})`);
+      clearTimeout(noticeTimer);
+      noticeTimer = setTimeout(() => setPassedNotice(null), PASSED_NOTICE_DURATION);
+    });
+
+    return () => {
+      tallyCleanup();
+      passedCleanup();
+      clearTimeout(noticeTimer);
+      setTally(null);
+      setPassedNotice(null);
+    };
+  }, [roomCode]);
+
+  const hasVoted = !!tally && !!currentUserId && tally.voters.includes(currentUserId);
+
+  const toggleVote = useCallback(async () => {
+    if (!tally) return;
+
+    setError(null);
+    try {
+      await realSocketService.voteToSkip(tally.videoId, !hasVoted);
+    } catch (err) {
+      console.error('❌ Failed to vote to skip:', err);
+      setError((err as Error).message);
+    }
+  }, [tally, hasVoted]);
+
+  return { tally, hasVoted, passedNotice, error, toggleVote };
+};
@@ -1,15 +1,41 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { realSocketService } from '../services/realSocketService';
-import type { PlaybackState } from '../services/realSocketService';
+import type { JoinCredentials, PlaybackState, QueueItem, QueueTrack, ReadyBarrierStatus, RoomParticipant, ScheduledAction } from '../services/realSocketService';
+import type { DriftSample } from '../components/YouTubePlayer';
 
 interface UseSyncProps {
   roomCode: string;
-  isHost: boolean;
+  isHost: boolean; // Reclaims a room created by HostRoom instead of joining it
+  canControlPlayback?: boolean; // Co-hosts send sync events without owning the room
+  joinCredentials?: JoinCredentials; // Password or invite for private rooms
   onSyncReceived?: (state: PlaybackState) => void;
-  onVideoLoadReceived?: (videoId: string) => void;
+  onVideoLoadReceived?: (videoId: string, track?: QueueItem, readyBy?: number) => void; // readyBy: a coordinated start follows
+  onHeartbeatReceived?: (state: PlaybackState) => void;
 }
 
+export interface DriftStats {
+  currentDrift: number | null; // ms, positive = ahead of the room
+  averageDrift: number; // mean absolute drift over recent samples, ms
+  maxDrift: number; // largest absolute drift over recent samples, ms
+  nudges: number;
+  seeks: number;
+  sampleCount: number;
+  lastMeasuredAt: number | null;
+}
+
+const DRIFT_WINDOW_SIZE = 20;
+
+const initialDriftStats: DriftStats = {
+  currentDrift: null,
+  averageDrift: 0,
+  maxDrift: 0,
+  nudges: 0,
+  seeks: 0,
+  sampleCount: 0,
+  lastMeasuredAt: null
+};
+
 // Global state to prevent multiple connections
 const connectionState = {
   isConnecting: false,
@@ -17,26 +43,43 @@ const connectionState = {
   activeConnections: new Set<string>()
 };
 
-export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived }: UseSyncProps) => {
+export const useSync = ({ roomCode, isHost, canControlPlayback = false, joinCredentials, onSyncReceived, onVideoLoadReceived, onHeartbeatReceived }: UseSyncProps) => {
   const { token, user } = useAuth();
   const [connected, setConnected] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
   const [participantCount, setParticipantCount] = useState(0);
+  const [participants, setParticipants] = useState<RoomParticipant[]>([]);
+  const [driftStats, setDriftStats] = useState<DriftStats>(initialDriftStats);
+  const [roundTripTime, setRoundTripTime] = useState<number | null>(null);
+  const [readyBarrier, setReadyBarrier] = useState<ReadyBarrierStatus | null>(null);
+  const driftWindowRef = useRef<number[]>([]);
   const lastSyncRef = useRef(0);
   const isInitializedRef = useRef(false);
   const cleanupFunctionsRef = useRef<(() => void)[]>([]);
+  const userIdRef = useRef(user?.id);
+  userIdRef.current = user?.id;
+  // Read at join time so typing a password doesn't reconnect
+  const joinCredentialsRef = useRef(joinCredentials);
+  joinCredentialsRef.current = joinCredentials;
+  const canSendSync = isHost || canControlPlayback;
 
   // Create unique connection ID for this hook instance
   const connectionId = useRef(`${isHost ? 'host' : 'participant'}-${Date.now()}`);
 
   // Stable callback for sync received - NO DEBOUNCING
   const stableSyncReceived = useCallback((data: PlaybackState) => {
+    // Our own change echoed back by the server - the local player is already there,
+    // unless it's a scheduled command our player still has to carry out
+    const scheduled = data.pauseAt !== undefined || data.timestamp > realSocketService.serverNow();
+    if (data.updatedBy && data.updatedBy === userIdRef.current && !scheduled) return;
+
     console.log('🎯 Participant received sync:', data);
     onSyncReceived?.(data);
   }, [onSyncReceived]);
 
   // Faster sync functions
-  const syncPlay = useCallback((videoId: string, currentTime: number) => {
-    if (!isHost || !connected) return;
+  const syncPlay = useCallback((videoId: string, currentTime: number, playbackRate?: number) => {
+    if (!canSendSync || !connected) return;
     
     const now = Date.now();
     if (now - lastSyncRef.current < 100) { // Reduced from 500ms to 100ms
@@ -45,12 +88,12 @@ export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived
     }
     lastSyncRef.current = now;
     
-    console.log('👑 Host sending PLAY sync:', { videoId, currentTime });
-    realSocketService.syncPlay(videoId, currentTime);
-  }, [isHost, connected]);
+    console.log('👑 Host sending PLAY sync:', { videoId, currentTime, playbackRate });
+    realSocketService.syncPlay(videoId, currentTime, playbackRate);
+  }, [canSendSync, connected]);
 
-  const syncPause = useCallback((videoId: string, currentTime: number) => {
-    if (!isHost || !connected) return;
+  const syncPause = useCallback((videoId: string, currentTime: number, playbackRate?: number) => {
+    if (!canSendSync || !connected) return;
     
     const now = Date.now();
     if (now - lastSyncRef.current < 100) { // Reduced from 500ms to 100ms
@@ -59,12 +102,12 @@ export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived
     }
     lastSyncRef.current = now;
     
-    console.log('👑 Host sending PAUSE sync:', { videoId, currentTime });
-    realSocketService.syncPause(videoId, currentTime);
-  }, [isHost, connected]);
+    console.log('👑 Host sending PAUSE sync:', { videoId, currentTime, playbackRate });
+    realSocketService.syncPause(videoId, currentTime, playbackRate);
+  }, [canSendSync, connected]);
 
-  const syncSeek = useCallback((videoId: string, currentTime: number, isPlaying: boolean) => {
-    if (!isHost || !connected) return;
+  const syncSeek = useCallback((videoId: string, currentTime: number, isPlaying: boolean, playbackRate?: number) => {
+    if (!canSendSync || !connected) return;
     
     const now = Date.now();
     if (now - lastSyncRef.current < 200) { // Reduced from 800ms to 200ms
@@ -73,15 +116,55 @@ export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived
     }
     lastSyncRef.current = now;
     
-    console.log('👑 Host sending SEEK sync:', { videoId, currentTime, isPlaying });
-    realSocketService.syncSeek(videoId, currentTime, isPlaying);
-  }, [isHost, connected]);
-  const syncVideoLoad = useCallback((videoId: string) => {
-  if (!isHost || !connected) return;
+    console.log('👑 Host sending SEEK sync:', { videoId, currentTime, isPlaying, playbackRate });
+    realSocketService.syncSeek(videoId, currentTime, isPlaying, playbackRate);
+  }, [canSendSync, connected]);
+
+  // Deliberate host actions, so no debounce
+  const schedulePlayback = useCallback((action: ScheduledAction, videoId: string, currentTime: number, at: number, playbackRate?: number) => {
+    if (!canSendSync || !connected) return;
+
+    console.log('👑 Host scheduling playback:', { action, videoId, currentTime, at, playbackRate });
+    realSocketService.schedulePlayback(action, videoId, currentTime, at, playbackRate);
+  }, [canSendSync, connected]);
+
+  // Rate changes aren't debounced against play/pause - the player reports them separately
+  const syncRate = useCallback((videoId: string, currentTime: number, playbackRate: number, isPlaying: boolean) => {
+    if (!canSendSync || !connected) return;
+
+    console.log('👑 Host sending RATE sync:', { videoId, currentTime, playbackRate, isPlaying });
+    realSocketService.syncRate(videoId, currentTime, playbackRate, isPlaying);
+  }, [canSendSync, connected]);
+
+  // Called by the participant player after each heartbeat comparison
+  const reportDrift = useCallback((sample: DriftSample) => {
+    const driftMs = sample.drift * 1000;
+    const window = [...driftWindowRef.current, Math.abs(driftMs)].slice(-DRIFT_WINDOW_SIZE);
+    driftWindowRef.current = window;
+
+    setDriftStats(prev => ({
+      currentDrift: driftMs,
+      averageDrift: window.reduce((sum, value) => sum + value, 0) / window.length,
+      maxDrift: Math.max(...window),
+      nudges: prev.nudges + (sample.correction === 'nudge' ? 1 : 0),
+      seeks: prev.seeks + (sample.correction === 'seek' ? 1 : 0),
+      sampleCount: prev.sampleCount + 1,
+      lastMeasuredAt: sample.measuredAt
+    }));
+  }, []);
+
+  // Called by the player once a new track has buffered
+  const reportTrackReady = useCallback((videoId: string) => {
+    if (!connected) return;
+    realSocketService.reportTrackReady(videoId);
+  }, [connected]);
+
+  const syncVideoLoad = useCallback((videoId: string, track?: QueueTrack) => {
+  if (!canSendSync || !connected) return;
   
   console.log('👑 Host sending VIDEO LOAD sync:', { videoId });
-  realSocketService.syncVideoLoad(videoId);
-  }, [isHost, connected]);
+  realSocketService.syncVideoLoad(videoId, track);
+  }, [canSendSync, connected]);
 
   useEffect(() => {
     // Prevent multiple connections to the same room
@@ -105,6 +188,7 @@ export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived
       connectionState.activeConnections.add(connectionId.current);
       
       console.log(`🔌 Connecting ${connectionId.current} to room ${roomCode}`);
+      setJoinError(null);
       
       try {
         // Only connect if not already connected
@@ -130,22 +214,52 @@ export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived
         });
         cleanupFunctionsRef.current.push(userLeftCleanup);
 
-        // Set up video load listener for participants only
+        const participantsCleanup = realSocketService.onParticipantsUpdated((data) => {
+          setParticipants(data.participants);
+        });
+        cleanupFunctionsRef.current.push(participantsCleanup);
+
+        const clockSyncCleanup = realSocketService.onClockSync((clock) => {
+          setRoundTripTime(clock.roundTripTime);
+        });
+        cleanupFunctionsRef.current.push(clockSyncCleanup);
+        if (realSocketService.clockState.lastSyncedAt) {
+          setRoundTripTime(realSocketService.clockState.roundTripTime);
+        }
+
+        // Video loads reach the host too when the server advances the queue
+        const videoLoadCleanup = realSocketService.onVideoLoadSync((data) => {
+          console.log('📹 Received video load:', data);
+          onVideoLoadReceived?.(data.videoId, data.track, data.readyBy);
+        });
+        cleanupFunctionsRef.current.push(videoLoadCleanup);
+
+        // Only sent to whoever controls playback
+        const readyBarrierCleanup = realSocketService.onReadyBarrierUpdated((data) => {
+          setReadyBarrier(data.barrier);
+        });
+        cleanupFunctionsRef.current.push(readyBarrierCleanup);
+
+        // Set up heartbeat listener for participants only
         if (!isHost) {
-          const videoLoadCleanup = realSocketService.onVideoLoadSync((data) => {
-            console.log('📹 Participant received video load:', data);
-            onVideoLoadReceived?.(data.videoId);
+          const heartbeatCleanup = realSocketService.onPlaybackHeartbeat((data) => {
+            onHeartbeatReceived?.(data);
           });
-          cleanupFunctionsRef.current.push(videoLoadCleanup);
+          cleanupFunctionsRef.current.push(heartbeatCleanup);
         }
 
-        // Join or create room
+        // Join the room, or take up the host seat of the room we created
         let roomData;
         if (isHost) {
-          roomData = await realSocketService.createRoom(roomCode);
-          console.log('👑 Host created room:', roomCode);
+          // Also covers a page refresh - the server keeps our seat through the grace period
+          roomData = await realSocketService.restoreRoom(roomCode);
+          if (!roomData.isHost) {
+            realSocketService.leaveRoom();
+            throw new Error('This room is hosted by another user');
+          }
+          console.log('👑 Host reclaimed room:', roomCode);
         } else {
-          roomData = await realSocketService.joinRoom(roomCode);
+          roomData = await realSocketService.joinRoom(roomCode, joinCredentialsRef.current);
           console.log('👥 Joined room:', roomCode);
         }
         
@@ -153,12 +267,19 @@ export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived
         if (roomData?.participants) {
           setParticipantCount(roomData.participants.length);
         }
+
+        // Joining mid-song - start from the live position instead of waiting for the next change.
+        // Bypasses the echo check: a state we set before reconnecting still has to be applied.
+        if (!isHost && roomData?.currentTrack) {
+          onSyncReceived?.(roomData.currentTrack);
+        }
         
         connectionState.connectedRoomCode = roomCode;
         setConnected(true);
         
       } catch (error) {
         console.error('❌ Sync connection failed:', error);
+        setJoinError((error as Error).message);
         setConnected(false);
         isInitializedRef.current = false;
       } finally {
@@ -193,16 +314,29 @@ export const useSync = ({ roomCode, isHost, onSyncReceived, onVideoLoadReceived
       
       setConnected(false);
       setParticipantCount(0);
+      setParticipants([]);
+      setReadyBarrier(null);
+      setDriftStats(initialDriftStats);
+      driftWindowRef.current = [];
       isInitializedRef.current = false;
     };
-  }, [roomCode, isHost, stableSyncReceived, onVideoLoadReceived]);
+  }, [roomCode, isHost, stableSyncReceived, onVideoLoadReceived, onHeartbeatReceived]);
 
   return {
     connected,
+    joinError,
     participantCount,
+    participants,
+    driftStats,
+    roundTripTime,
+    readyBarrier,
+    reportDrift,
+    reportTrackReady,
     syncPlay,
     syncPause,
     syncSeek,
+    syncRate,
+    schedulePlayback,
     syncVideoLoad
   };
 };
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import SessionList from '../components/SessionList';
+
+function Account() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      <header className="bg-gray-800/90 backdrop-blur-lg border-b border-gray-700/50 sticky top-0 z-50">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 flex justify-between items-center h-16">
+          <h1 className="text-xl font-semibold text-white">Account settings</h1>
+          <button
+            onClick={() => navigate('/')}
+            className="inline-flex items-center px-3 py-2 border border-gray-600 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 hover:text-white"
+          >
+            Back to home
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-10 space-y-6">
+        <div className="bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-700">
+          <h3 className="text-lg font-medium text-white">{user?.username}</h3>
+          <p className="text-sm text-gray-400">
+            {user?.email} · {user?.isVerified ? 'verified' : 'not verified'}
+          </p>
+        </div>
+
+        <TwoFactorSettings />
+
+        <SessionList />
+      </main>
+    </div>
+  );
+}
+
+export default Account;
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import VerifyEmailBanner from '../components/VerifyEmailBanner';
 
 interface HomeProps {
   onShowAuth?: () => void;
@@ -10,6 +11,9 @@ function Home({ onShowAuth }: HomeProps) {
   const navigate = useNavigate();
   const { isAuthenticated, user, logout } = useAuth();
   const [quickJoinCode, setQuickJoinCode] = useState("");
+  const [quickJoinPassword, setQuickJoinPassword] = useState("");
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [vanityCode, setVanityCode] = useState("");
   const [isJoining, setIsJoining] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
@@ -36,7 +40,13 @@ function Home({ onShowAuth }: HomeProps) {
       const response = await fetch(`${API_BASE_URL}/api/rooms/${quickJoinCode}`);
       
       if (response.ok) {
-        navigate(`/join/${quickJoinCode}`);
+        // Private rooms ask for the password here; JoinRoom sends it along with the join
+        const { room } = await response.json();
+        if (room?.requiresPassword && !quickJoinPassword) {
+          setNeedsPassword(true);
+          return;
+        }
+        navigate(`/join/${quickJoinCode}`, { state: { password: quickJoinPassword || undefined } });
       } else {
         alert('Room not found. Please check the room code and try again.');
       }
@@ -96,6 +106,13 @@ function Home({ onShowAuth }: HomeProps) {
                   </div>
                 </div>
                 
+                <button
+                  onClick={() => navigate('/account')}
+                  className="inline-flex items-center px-3 py-2 border border-gray-600 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 hover:text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  Account
+                </button>
+
                 <button
                   onClick={handleLogout}
                   disabled={isLoggingOut}
@@ -141,6 +158,8 @@ function Home({ onShowAuth }: HomeProps) {
               </p>
             </div>
 
+            <VerifyEmailBanner />
+
             {/* Quick Join Section */}
             <div className="max-w-md mx-auto">
               <div className="bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-700">
@@ -155,15 +174,37 @@ function Home({ onShowAuth }: HomeProps) {
                       type="text"
                       placeholder="Enter room code"
                       value={quickJoinCode}
-                      onChange={(e) => setQuickJoinCode(e.target.value.toUpperCase())}
+                      onChange={(e) => {
+                        setQuickJoinCode(e.target.value.toUpperCase());
+                        setNeedsPassword(false);
+                        setQuickJoinPassword("");
+                      }}
                       onKeyPress={handleKeyPress}
                       className="block w-full px-3 py-2 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                       maxLength={10}
                     />
                   </div>
+                  {needsPassword && (
+                    <div>
+                      <label htmlFor="room-password" className="block text-sm font-medium text-gray-300 mb-2">
+                        Room password
+                      </label>
+                      <input
+                        id="room-password"
+                        type="password"
+                        placeholder="This room is password protected"
+                        value={quickJoinPassword}
+                        onChange={(e) => setQuickJoinPassword(e.target.value)}
+                        onKeyPress={handleKeyPress}
+                        className="block w-full px-3 py-2 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        maxLength={128}
+                        autoFocus
+                      />
+                    </div>
+                  )}
                   <button
                     onClick={handleQuickJoin}
-                    disabled={!quickJoinCode.trim() || isJoining}
+                    disabled={!quickJoinCode.trim() || (needsPassword && !quickJoinPassword) || isJoining}
                     className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {isJoining ? (
@@ -199,9 +240,20 @@ function Home({ onShowAuth }: HomeProps) {
                       <p className="text-sm text-gray-400">Create a new music session and invite others</p>
                     </div>
                   </div>
-                  <div className="mt-6">
+                  <div className="mt-6 space-y-3">
+                    {/* Verified accounts may pick their own room code */}
+                    {user?.isVerified && (
+                      <input
+                        type="text"
+                        placeholder="Custom room code (optional)"
+                        value={vanityCode}
+                        onChange={(e) => setVanityCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
+                        className="block w-full px-3 py-2 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm font-mono tracking-wider"
+                        maxLength={10}
+                      />
+                    )}
                     <button
-                      onClick={() => navigate('/host/group')}
+                      onClick={() => navigate('/host/group', { state: { vanityCode: vanityCode || undefined } })}
                       className="w-full inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
                     >
                       Create Room
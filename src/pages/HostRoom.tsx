@@ -1,23 +1,58 @@
 import { useState, useRef, useMemo, useCallback, useEffect } from "react";
-import YouTubeSearch from "../components/YouTubeSearch";
+import YouTubeSearch, { SearchResult } from "../components/YouTubeSearch";
 import YouTubePlayer, { YouTubePlayerRef } from "../components/YouTubePlayer";
+import QueuePanel from "../components/QueuePanel";
+import RequestInbox from "../components/RequestInbox";
+import RoleManager from "../components/RoleManager";
+import LobbyPanel from "../components/LobbyPanel";
+import ChatPanel from "../components/ChatPanel";
+import ParticipantList from "../components/ParticipantList";
+import DjRotationPanel from "../components/DjRotationPanel";
+import ReactionBar from "../components/ReactionBar";
+import ReactionOverlay from "../components/ReactionOverlay";
+import ReactionStats from "../components/ReactionStats";
+import SkipVoteButton from "../components/SkipVoteButton";
+import BufferingStatus from "../components/BufferingStatus";
+import CountdownOverlay from "../components/CountdownOverlay";
+import SchedulePlaybackPanel from "../components/SchedulePlaybackPanel";
+import SkipVoteSettingsPanel from "../components/SkipVoteSettingsPanel";
 import { useSync } from "../hooks/useSync";
-import { useNavigate, useParams } from "react-router-dom";
+import { useQueue } from "../hooks/useQueue";
+import { useRequests } from "../hooks/useRequests";
+import { useRoomSettings } from "../hooks/useRoomSettings";
+import { useRoles } from "../hooks/useRoles";
+import { useModeration } from "../hooks/useModeration";
+import { useLobby } from "../hooks/useLobby";
+import { useChat } from "../hooks/useChat";
+import { useReactions } from "../hooks/useReactions";
+import { useSkipVote } from "../hooks/useSkipVote";
+import { useDjRotation } from "../hooks/useDjRotation";
+import { useScheduledCommand } from "../hooks/useScheduledCommand";
+import { useAuth } from "../contexts/AuthContext";
+import { realSocketService } from "../services/realSocketService";
+import type { PlaybackState, QueueItem, ScheduledAction } from "../services/realSocketService";
+import { useNavigate, useParams, useLocation } from "react-router-dom";
+
+const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
 
 function HostRoom() {
   const { mode } = useParams<{ mode: string }>();
   const navigate = useNavigate();
-  const searchParams = new URLSearchParams(window.location.search);
-  let roomCode = searchParams.get("room") || "";
-  if (!roomCode) {
-    roomCode = Math.random().toString(36).substring(2, 8).toUpperCase();
-    window.history.replaceState({}, '', `${window.location.pathname}?room=${roomCode}`);
-  } 
+  const location = useLocation();
+  const vanityCode = (location.state as { vanityCode?: string } | null)?.vanityCode;
+  // A ?room= code means we are back after a refresh and reclaim that room
+  const [roomCode, setRoomCode] = useState(() => new URLSearchParams(window.location.search).get("room") || "");
+  const [createError, setCreateError] = useState<string | null>(null);
+  const creatingRoomRef = useRef(false);
   
   const stableRoomCode = useMemo(() => roomCode, [roomCode]);
   
   const [selectedVideoId, setSelectedVideoId] = useState("");
+  const [autoStart, setAutoStart] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [roomPassword, setRoomPassword] = useState("");
+  const [passwordProtected, setPasswordProtected] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
   const [showInstructions, setShowInstructions] = useState(true);
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -27,14 +62,146 @@ function HostRoom() {
   const [showAdvancedControls, setShowAdvancedControls] = useState(false);
   const [volume, setVolume] = useState(80);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [roomPlayback, setRoomPlayback] = useState<PlaybackState | null>(null); // Last state from the server, for countdowns
   
   const playerSyncRef = useRef<YouTubePlayerRef>(null);
   
-  const { connected, participantCount, syncPlay, syncPause, syncSeek, syncVideoLoad } = useSync({
+  // Queue advances start right away unless the server coordinates the start, videos picked by a co-host are only cued
+  const handleVideoLoadReceived = useCallback((videoId: string, track?: QueueItem, readyBy?: number) => {
+    console.log(track ? '⏭️ Queue advanced to:' : '📹 Co-host loaded video:', videoId);
+    setAutoStart(!!track && readyBy === undefined);
+    setSelectedVideoId(videoId);
+  }, []);
+
+  // Playback changes made by co-hosts
+  const handleSyncReceived = useCallback((state: PlaybackState) => {
+    setSelectedVideoId(state.videoId);
+    setPlaybackSpeed(state.playbackRate ?? 1);
+    setRoomPlayback(state);
+    playerSyncRef.current?.applySyncState(state);
+  }, []);
+
+  // The server allocates the room code - ask for a room before syncing to it
+  useEffect(() => {
+    if (roomCode || creatingRoomRef.current) return;
+    creatingRoomRef.current = true;
+
+    const createRoom = async () => {
+      try {
+        if (!realSocketService.isConnected) {
+          await realSocketService.connect();
+        }
+
+        let room;
+        try {
+          room = await realSocketService.createRoom({ vanityCode });
+        } catch (err) {
+          if (!vanityCode) throw err;
+          setCreateError(`${(err as Error).message} - using a generated code instead`);
+          room = await realSocketService.createRoom();
+        }
+
+        window.history.replaceState({}, '', `${window.location.pathname}?room=${room.roomCode}`);
+        setRoomCode(room.roomCode);
+      } catch (err) {
+        console.error('Failed to create room:', err);
+        setCreateError((err as Error).message);
+      } finally {
+        creatingRoomRef.current = false;
+      }
+    };
+
+    createRoom();
+  }, [roomCode, vanityCode]);
+
+  const { connected, joinError, participantCount, participants, readyBarrier, reportTrackReady, syncPlay, syncPause, syncSeek, syncRate, schedulePlayback, syncVideoLoad } = useSync({
+    roomCode: stableRoomCode,
+    isHost: true,
+    onSyncReceived: handleSyncReceived,
+    onVideoLoadReceived: handleVideoLoadReceived
+  });
+
+  // The room from the URL expired while we were away - start a fresh one
+  useEffect(() => {
+    if (!joinError) return;
+
+    if (joinError === 'Room not found') {
+      window.history.replaceState({}, '', window.location.pathname);
+      setRoomCode("");
+    } else {
+      setCreateError(joinError);
+    }
+  }, [joinError]);
+
+  const {
+    queue,
+    error: queueError,
+    addToQueue,
+    removeFromQueue,
+    moveQueueItem,
+    clearQueue,
+    playNext,
+    notifyTrackEnded
+  } = useQueue({ roomCode: stableRoomCode, canManage: connected });
+
+  const {
+    pendingRequests,
+    error: requestError,
+    approveRequest,
+    rejectRequest
+  } = useRequests({ roomCode: stableRoomCode, canReview: true });
+
+  const { settings, error: settingsError, updateSettings } = useRoomSettings({
     roomCode: stableRoomCode,
-    isHost: true
+    canEdit: connected
   });
 
+  const { user } = useAuth();
+  const { members, error: roleError, setRole } = useRoles({ roomCode: stableRoomCode });
+
+  const {
+    bans,
+    mutedUserIds,
+    error: moderationError,
+    kickParticipant,
+    banParticipant,
+    unbanParticipant,
+    muteUser,
+    unmuteUser
+  } = useModeration({ roomCode: stableRoomCode, canModerate: connected });
+
+  const { lobby, error: lobbyError, admit, admitAll, deny } = useLobby({ roomCode: stableRoomCode, canManage: connected });
+
+  const { messages: chatMessages, error: chatError, sendMessage } = useChat({ roomCode: stableRoomCode });
+
+  const {
+    floating: floatingReactions,
+    tracks: reactionTracks,
+    totals: reactionTotals,
+    error: reactionError,
+    sendReaction
+  } = useReactions({ roomCode: stableRoomCode });
+
+  const {
+    tally: skipTally,
+    hasVoted: hasVotedToSkip,
+    passedNotice: skipNotice,
+    error: skipError,
+    toggleVote: toggleSkipVote
+  } = useSkipVote({ roomCode: stableRoomCode, currentUserId: user?.id });
+
+  const {
+    rotation: djRotation,
+    isCurrentDj,
+    inRotation,
+    error: djRotationError,
+    setEnabled: setDjRotationEnabled,
+    join: joinDjRotation,
+    leave: leaveDjRotation,
+    pickTrack: pickDjTrack,
+    skipTurn: skipDjTurn
+  } = useDjRotation({ roomCode: stableRoomCode, currentUserId: user?.id });
+
   // Track session start time
   useEffect(() => {
     if (connected && !sessionStartTime) {
@@ -59,8 +226,16 @@ function HostRoom() {
     }
   }, [stableRoomCode]);
 
-  const shareRoom = useCallback(() => {
-    const shareUrl = `${window.location.origin}/join/${stableRoomCode}`;
+  // Invite links carry a signed token so friends skip the room password
+  const shareRoom = useCallback(async () => {
+    let shareUrl = `${window.location.origin}/join/${stableRoomCode}`;
+    try {
+      const invite = await realSocketService.createInvite();
+      shareUrl += `?invite=${encodeURIComponent(invite.token)}`;
+    } catch (err) {
+      console.error('Failed to create invite link:', err);
+    }
+
     if (navigator.share) {
       navigator.share({
         title: 'Join my MusicSync room',
@@ -74,11 +249,70 @@ function HostRoom() {
     }
   }, [stableRoomCode]);
 
-  const handleVideoSelect = useCallback((videoId: string) => {
+  const updateRoomPassword = useCallback(async (password: string | null) => {
+    setPasswordError(null);
+    try {
+      setPasswordProtected(await realSocketService.setRoomPassword(password));
+      setRoomPassword("");
+    } catch (err) {
+      console.error('Failed to update room password:', err);
+      setPasswordError((err as Error).message);
+    }
+  }, []);
+
+  // Play immediately when the room is idle, otherwise queue the track
+  const handleVideoSelect = useCallback((videoId: string, track: SearchResult) => {
+    if (selectedVideoId) {
+      console.log('➕ Host queued video:', videoId);
+      addToQueue({
+        videoId,
+        title: track.title,
+        artist: track.artist,
+        thumbnail: track.thumbnail,
+        duration: track.duration
+      });
+      return;
+    }
+
     console.log('🎵 Host selected video:', videoId);
+    setAutoStart(false);
     setSelectedVideoId(videoId);
-    syncVideoLoad(videoId);
-  }, [syncVideoLoad]);
+    syncVideoLoad(videoId, {
+      videoId,
+      title: track.title,
+      artist: track.artist,
+      thumbnail: track.thumbnail,
+      duration: track.duration
+    });
+  }, [selectedVideoId, addToQueue, syncVideoLoad]);
+
+  const handleDjPick = useCallback((videoId: string, track: SearchResult) => {
+    pickDjTrack({
+      videoId,
+      title: track.title,
+      artist: track.artist,
+      thumbnail: track.thumbnail,
+      duration: track.duration
+    });
+  }, [pickDjTrack]);
+
+  const { command: scheduledCommand } = useScheduledCommand(roomPlayback);
+
+  // Counts down from the current position - the server echoes it back so our own player waits too
+  const handleSchedulePlayback = useCallback((action: ScheduledAction, delaySeconds: number) => {
+    const player = playerSyncRef.current;
+    if (!player || !selectedVideoId) return;
+
+    const at = realSocketService.serverNow() + delaySeconds * 1000;
+    schedulePlayback(action, selectedVideoId, player.getCurrentTime(), at, playbackSpeed);
+  }, [selectedVideoId, playbackSpeed, schedulePlayback]);
+
+  // Whatever the player is doing right now becomes the room's state
+  const handleCancelSchedule = useCallback(() => {
+    playerSyncRef.current?.cancelScheduled();
+    setRoomPlayback(null);
+    playerSyncRef.current?.forceSync();
+  }, []);
 
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -162,7 +396,7 @@ function HostRoom() {
                 <div className="flex items-center gap-3">
                   <div className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2">
                     <span className="text-2xl font-mono font-bold text-white tracking-wider">
-                      {stableRoomCode}
+                      {stableRoomCode || '······'}
                     </span>
                   </div>
                   <button
@@ -196,27 +430,94 @@ function HostRoom() {
                   </button>
                 </div>
               </div>
+
+              <div className="mt-4 pt-4 border-t border-gray-700 flex flex-col sm:flex-row sm:items-center gap-3">
+                {passwordProtected ? (
+                  <>
+                    <p className="flex-1 text-sm text-gray-300">
+                      🔒 Password protected - share links still let friends straight in
+                    </p>
+                    <button
+                      onClick={() => updateRoomPassword(null)}
+                      disabled={!connected}
+                      className="px-3 py-2 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors duration-200"
+                    >
+                      Remove password
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <input
+                      type="password"
+                      value={roomPassword}
+                      onChange={(e) => setRoomPassword(e.target.value)}
+                      placeholder="Set a room password (optional)"
+                      maxLength={128}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-600 bg-gray-700 text-white rounded-md placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      onClick={() => updateRoomPassword(roomPassword)}
+                      disabled={!connected || roomPassword.length < 4}
+                      className="px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+                    >
+                      Lock room
+                    </button>
+                  </>
+                )}
+              </div>
+              {passwordError && (
+                <p className="mt-2 text-sm text-red-300">{passwordError}</p>
+              )}
+              {createError && (
+                <p className="mt-2 text-sm text-red-300">{createError}</p>
+              )}
             </div>
 
             {/* Video Player Card */}
             <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 overflow-hidden">
-              <div className="p-6 border-b border-gray-700">
-                <h3 className="text-lg font-medium text-white">Now Playing</h3>
+              <div className="p-6 border-b border-gray-700 flex justify-between items-center gap-4">
+                <div>
+                  <h3 className="text-lg font-medium text-white">Now Playing</h3>
+                  {selectedVideoId && (
+                    <p className="text-sm text-gray-400 mt-1">
+                      {skipNotice || `Synchronized with ${participantCount} participant${participantCount !== 1 ? 's' : ''}`}
+                    </p>
+                  )}
+                </div>
                 {selectedVideoId && (
-                  <p className="text-sm text-gray-400 mt-1">
-                    Synchronized with {participantCount} participant{participantCount !== 1 ? 's' : ''}
-                  </p>
+                  <div className="flex items-center gap-3">
+                    <ReactionBar disabled={!connected} error={reactionError} onReact={sendReaction} />
+                    {skipTally && (
+                      <SkipVoteButton
+                        tally={skipTally}
+                        hasVoted={hasVotedToSkip}
+                        disabled={!connected}
+                        error={skipError}
+                        onToggle={toggleSkipVote}
+                      />
+                    )}
+                  </div>
                 )}
               </div>
-              <div className="aspect-video bg-gray-900">
+              {readyBarrier && <BufferingStatus barrier={readyBarrier} />}
+              <div className="relative aspect-video bg-gray-900">
+                <ReactionOverlay reactions={floatingReactions} />
+                <CountdownOverlay state={roomPlayback} />
                 {selectedVideoId ? (
                   <YouTubePlayer
                     ref={playerSyncRef}
                     videoId={selectedVideoId}
-                    onSyncPlay={(videoId: string, time: number) => syncPlay(videoId, time)}
-                    onSyncPause={(videoId: string, time: number) => syncPause(videoId, time)}
-                    onSyncSeek={(videoId: string, time: number, isPlaying: boolean) => syncSeek(videoId, time, isPlaying)}
+                    onSyncPlay={(videoId: string, time: number, rate?: number) => syncPlay(videoId, time, rate)}
+                    onSyncPause={(videoId: string, time: number, rate?: number) => syncPause(videoId, time, rate)}
+                    onSyncSeek={(videoId: string, time: number, isPlaying: boolean, rate?: number) => syncSeek(videoId, time, isPlaying, rate)}
+                    onSyncRate={(videoId: string, time: number, rate: number, isPlaying: boolean) => {
+                      setPlaybackSpeed(rate);
+                      syncRate(videoId, time, rate, isPlaying);
+                    }}
+                    onTrackEnded={notifyTrackEnded}
+                    onTrackReady={reportTrackReady}
                     isHost={true}
+                    autoPlay={autoStart}
                   />
                 ) : (
                   <div className="w-full h-full flex items-center justify-center text-white">
@@ -231,6 +532,17 @@ function HostRoom() {
                 )}
               </div>
             </div>
+
+            {/* Queue */}
+            <QueuePanel
+              queue={queue}
+              canManage={connected}
+              error={queueError}
+              onRemove={removeFromQueue}
+              onMove={moveQueueItem}
+              onClear={clearQueue}
+              onPlayNext={playNext}
+            />
           </div>
 
           {/* Sidebar */}
@@ -241,6 +553,124 @@ function HostRoom() {
               <YouTubeSearch onSelectTrack={handleVideoSelect} />
             </div>
 
+            {/* Reactions */}
+            <ReactionStats tracks={reactionTracks} totals={reactionTotals} currentVideoId={selectedVideoId} />
+
+            {/* DJ Rotation */}
+            <DjRotationPanel
+              rotation={djRotation}
+              currentUserId={user?.id}
+              isCurrentDj={isCurrentDj}
+              inRotation={inRotation}
+              canSkipTurn={connected}
+              error={djRotationError}
+              onToggle={setDjRotationEnabled}
+              onJoin={joinDjRotation}
+              onLeave={leaveDjRotation}
+              onPick={handleDjPick}
+              onSkipTurn={skipDjTurn}
+            />
+
+            {/* Who's here */}
+            <ParticipantList participants={participants} currentUserId={user?.id} />
+
+            {/* Chat */}
+            <ChatPanel
+              messages={chatMessages}
+              currentUserId={user?.id}
+              error={chatError}
+              disabled={!connected}
+              onSend={sendMessage}
+            />
+
+            {/* Waiting Room */}
+            <LobbyPanel
+              lobby={lobby}
+              lobbyEnabled={settings?.lobbyEnabled ?? false}
+              maxParticipants={settings?.maxParticipants}
+              participantCount={participantCount}
+              error={lobbyError || settingsError}
+              onToggleLobby={(enabled) => updateSettings({ lobbyEnabled: enabled })}
+              onChangeCapacity={(maxParticipants) => updateSettings({ maxParticipants })}
+              onAdmit={admit}
+              onDeny={deny}
+              onAdmitAll={admitAll}
+            />
+
+            {/* Song Requests */}
+            <RequestInbox
+              requests={pendingRequests}
+              acceptingRequests={settings?.allowParticipantRequests ?? true}
+              error={requestError || settingsError}
+              onToggleAccepting={(accepting) => updateSettings({ allowParticipantRequests: accepting })}
+              onApprove={approveRequest}
+              onReject={rejectRequest}
+            />
+
+            {/* Roles */}
+            <RoleManager
+              members={members}
+              canManage={connected}
+              error={roleError || moderationError}
+              onChangeRole={setRole}
+              currentUserId={user?.id}
+              myRole="owner"
+              bans={bans}
+              onKick={kickParticipant}
+              onBan={banParticipant}
+              onUnban={unbanParticipant}
+              mutedUserIds={mutedUserIds}
+              onMute={muteUser}
+              onUnmute={unmuteUser}
+            />
+
+            {/* Advanced Controls */}
+            <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+              <button
+                onClick={() => setShowAdvancedControls(prev => !prev)}
+                className="w-full flex justify-between items-center text-lg font-medium text-white"
+              >
+                Advanced Controls
+                <svg
+                  className={`w-5 h-5 text-gray-400 transition-transform duration-200 ${showAdvancedControls ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              {showAdvancedControls && settings && (
+                <div className="mt-4 space-y-4">
+                  <SchedulePlaybackPanel
+                    pending={scheduledCommand}
+                    disabled={!connected || !selectedVideoId}
+                    onSchedule={handleSchedulePlayback}
+                    onCancel={handleCancelSchedule}
+                  />
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-400">Playback speed</span>
+                    <select
+                      value={playbackSpeed}
+                      disabled={!connected || !selectedVideoId}
+                      onChange={(e) => playerSyncRef.current?.setPlaybackRate(Number(e.target.value))}
+                      className="text-xs rounded-md border-gray-600 bg-gray-700 text-white focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      {PLAYBACK_SPEEDS.map(speed => (
+                        <option key={speed} value={speed}>{speed === 1 ? 'Normal' : `${speed}x`}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <SkipVoteSettingsPanel
+                    settings={settings.skipVoting}
+                    disabled={!connected}
+                    onChange={(skipVoting) => updateSettings({ skipVoting })}
+                  />
+                  {settingsError && <p className="mt-3 text-sm text-red-300">{settingsError}</p>}
+                </div>
+              )}
+            </div>
+
             {/* Session Stats */}
             <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
               <h3 className="text-lg font-medium text-white mb-4">Session Stats</h3>
@@ -295,7 +725,7 @@ function HostRoom() {
                     <div className="flex-shrink-0 w-6 h-6 bg-blue-700 rounded-full flex items-center justify-center">
                       <span className="text-xs font-medium text-white">2</span>
                     </div>
-                    <p>Search and select songs to play for everyone in the room</p>
+                    <p>Search and select songs to play for everyone in the room - picks made while a song is playing join the queue</p>
                   </div>
                   <div className="flex items-start gap-3">
                     <div className="flex-shrink-0 w-6 h-6 bg-blue-700 rounded-full flex items-center justify-center">
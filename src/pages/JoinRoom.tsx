@@ -1,20 +1,67 @@
 import { useState, useRef, useCallback, useMemo, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import YouTubePlayer, { YouTubePlayerRef } from "../components/YouTubePlayer";
+import QueuePanel from "../components/QueuePanel";
+import SongRequestPanel from "../components/SongRequestPanel";
+import RequestInbox from "../components/RequestInbox";
+import RoleManager from "../components/RoleManager";
+import LobbyPanel from "../components/LobbyPanel";
+import ChatPanel from "../components/ChatPanel";
+import ParticipantList from "../components/ParticipantList";
+import DjRotationPanel from "../components/DjRotationPanel";
+import ReactionBar from "../components/ReactionBar";
+import ReactionOverlay from "../components/ReactionOverlay";
+import ReactionStats from "../components/ReactionStats";
+import SkipVoteButton from "../components/SkipVoteButton";
+import BufferingStatus from "../components/BufferingStatus";
+import CountdownOverlay from "../components/CountdownOverlay";
+import YouTubeSearch, { SearchResult } from "../components/YouTubeSearch";
 import { useSync } from "../hooks/useSync";
-import type { PlaybackState } from "../services/realSocketService";
+import { useQueue } from "../hooks/useQueue";
+import { useRequests } from "../hooks/useRequests";
+import { useRoomSettings } from "../hooks/useRoomSettings";
+import { useRoles } from "../hooks/useRoles";
+import { useModeration } from "../hooks/useModeration";
+import { useLobby } from "../hooks/useLobby";
+import { useChat } from "../hooks/useChat";
+import { useReactions } from "../hooks/useReactions";
+import { useSkipVote } from "../hooks/useSkipVote";
+import { useDjRotation } from "../hooks/useDjRotation";
+import { useAuth } from "../contexts/AuthContext";
+import { hasPermission, ROLE_LABELS } from "../utils/roles";
+import { realSocketService } from "../services/realSocketService";
+import type { LobbyStatus, PlaybackState, QueueItem, QueueTrack } from "../services/realSocketService";
+
+// Share links and quick-join land on /join/<ROOMCODE>; other modes show the empty form
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,10}$/;
+
+const toQueueTrack = (track: SearchResult): QueueTrack => ({
+  videoId: track.id,
+  title: track.title,
+  artist: track.artist,
+  thumbnail: track.thumbnail,
+  duration: track.duration
+});
 
 function JoinRoom() {
   const { mode } = useParams<{ mode: string }>();
   const navigate = useNavigate();
-  const [roomCode, setRoomCode] = useState("");
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const linkedRoomCode = mode && ROOM_CODE_PATTERN.test(mode) ? mode : "";
+  const inviteToken = searchParams.get('invite') || undefined;
+  const [roomCode, setRoomCode] = useState(linkedRoomCode);
+  const [password, setPassword] = useState((location.state as { password?: string } | null)?.password || "");
+  const [needsPassword, setNeedsPassword] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [joined, setJoined] = useState(false);
   const [currentVideoId, setCurrentVideoId] = useState("");
   const [syncState, setSyncState] = useState<PlaybackState | null>(null);
-  const [connectionQuality, setConnectionQuality] = useState<'excellent' | 'good' | 'poor'>('excellent');
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
   const [currentTrackInfo, setCurrentTrackInfo] = useState<{title?: string, artist?: string}>({});
+  const [joinNotice, setJoinNotice] = useState<string | null>(null);
+  const [lobbyStatus, setLobbyStatus] = useState<LobbyStatus | null>(null);
   
   const playerSyncRef = useRef<YouTubePlayerRef>(null);
 
@@ -25,16 +72,6 @@ function JoinRoom() {
     }
   }, [joined, sessionStartTime]);
 
-  // Simulate connection quality monitoring
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const qualities = ['excellent', 'good'] as const;
-      const randomQuality = qualities[Math.floor(Math.random() * qualities.length)];
-      setConnectionQuality(randomQuality);
-    }, 15000);
-    return () => clearInterval(interval);
-  }, []);
-
   // Stable callback to prevent re-renders
   const handleSyncReceived = useCallback((state: PlaybackState) => {
     console.log('🎯 JoinRoom received sync:', state);
@@ -49,18 +86,187 @@ function JoinRoom() {
   // Only initialize sync when actually joined and roomCode is stable
   const stableRoomCode = useMemo(() => joined ? roomCode : "", [joined, roomCode]);
   
-  const handleVideoLoadReceived = useCallback((videoId: string) => {
+  const handleVideoLoadReceived = useCallback((videoId: string, track?: QueueItem) => {
     console.log('📹 JoinRoom received video load:', videoId);
     setCurrentVideoId(videoId);
+    setCurrentTrackInfo(track ? { title: track.title, artist: track.artist } : {});
+  }, []);
+
+  // Periodic authoritative position from the server - mount the player if we joined mid-song
+  const handleHeartbeatReceived = useCallback((state: PlaybackState) => {
+    if (playerSyncRef.current) {
+      playerSyncRef.current.correctDrift(state);
+    } else {
+      setCurrentVideoId(state.videoId);
+      setSyncState(state);
+    }
   }, []);
 
-  const { connected, participantCount } = useSync({
+  const { members, myRole } = useRoles({ roomCode: stableRoomCode });
+
+  const {
+    rotation: djRotation,
+    isCurrentDj,
+    inRotation,
+    error: djRotationError,
+    join: joinDjRotation,
+    leave: leaveDjRotation,
+    pickTrack: pickDjTrack,
+    skipTurn: skipDjTurn
+  } = useDjRotation({ roomCode: stableRoomCode, currentUserId: user?.id });
+
+  // The DJ on turn controls playback of their pick, whatever their role
+  const canControlPlayback = hasPermission(myRole, 'playback') || isCurrentDj;
+  const canManageQueue = hasPermission(myRole, 'queue');
+  const canReviewRequests = hasPermission(myRole, 'requests');
+  const canModerate = hasPermission(myRole, 'moderate');
+
+  const joinCredentials = useMemo(() => ({
+    password: password || undefined,
+    inviteToken
+  }), [password, inviteToken]);
+
+  const {
+    connected,
+    joinError,
+    participantCount,
+    participants,
+    driftStats,
+    roundTripTime,
+    readyBarrier,
+    reportDrift,
+    reportTrackReady,
+    syncPlay,
+    syncPause,
+    syncSeek,
+    syncRate,
+    syncVideoLoad
+  } = useSync({
     roomCode: stableRoomCode,
     isHost: false,
+    canControlPlayback,
+    joinCredentials,
     onSyncReceived: handleSyncReceived,
-    onVideoLoadReceived: handleVideoLoadReceived
+    onVideoLoadReceived: handleVideoLoadReceived,
+    onHeartbeatReceived: handleHeartbeatReceived
   });
 
+  const {
+    queue,
+    error: queueError,
+    addToQueue,
+    removeFromQueue,
+    moveQueueItem,
+    clearQueue,
+    playNext,
+    notifyTrackEnded
+  } = useQueue({ roomCode: stableRoomCode, canManage: connected && canManageQueue });
+
+  const {
+    pendingRequests,
+    myRequests,
+    lastResolved,
+    error: requestError,
+    dismissResolved,
+    submitRequest,
+    approveRequest,
+    rejectRequest
+  } = useRequests({ roomCode: stableRoomCode, canReview: canReviewRequests });
+
+  const { settings } = useRoomSettings({ roomCode: stableRoomCode, canEdit: false });
+
+  const {
+    bans,
+    mutedUserIds,
+    error: moderationError,
+    kickParticipant,
+    banParticipant,
+    unbanParticipant,
+    muteUser,
+    unmuteUser
+  } = useModeration({ roomCode: stableRoomCode, canModerate });
+
+  const { lobby, error: lobbyError, admit, admitAll, deny } = useLobby({ roomCode: stableRoomCode, canManage: canModerate });
+
+  const { messages: chatMessages, error: chatError, sendMessage } = useChat({ roomCode: stableRoomCode });
+
+  const {
+    floating: floatingReactions,
+    tracks: reactionTracks,
+    totals: reactionTotals,
+    error: reactionError,
+    sendReaction
+  } = useReactions({ roomCode: stableRoomCode });
+
+  const {
+    tally: skipTally,
+    hasVoted: hasVotedToSkip,
+    passedNotice: skipNotice,
+    error: skipError,
+    toggleVote: toggleSkipVote
+  } = useSkipVote({ roomCode: stableRoomCode, currentUserId: user?.id });
+
+  // Our own place in a lobby room's waiting line
+  useEffect(() => {
+    return realSocketService.onLobbyStatus(setLobbyStatus);
+  }, []);
+
+  useEffect(() => {
+    if (connected || !joined) setLobbyStatus(null);
+  }, [connected, joined]);
+
+  // Kicked or banned - drop back to the join screen and explain why
+  useEffect(() => {
+    return realSocketService.onRoomError((data) => {
+      if (!data.removal) return;
+
+      setJoined(false);
+      setCurrentVideoId("");
+      setSyncState(null);
+      setSessionStartTime(null);
+      setJoinNotice(data.error);
+    });
+  }, []);
+
+  // A rejected join (wrong password, expired invite) sends us back to the form
+  useEffect(() => {
+    if (!joinError) return;
+
+    setJoined(false);
+    setJoinNotice(joinError);
+    if (/password/i.test(joinError)) {
+      setNeedsPassword(true);
+    }
+  }, [joinError]);
+
+  const handleDjPick = useCallback((_videoId: string, track: SearchResult) => {
+    pickDjTrack(toQueueTrack(track));
+  }, [pickDjTrack]);
+
+  const handleRequestSubmit = useCallback((track: SearchResult) => {
+    submitRequest(toQueueTrack(track));
+  }, [submitRequest]);
+
+  // Co-hosts start a song when nothing is loaded, otherwise picks join the queue
+  const handleTrackSelect = useCallback((videoId: string, track: SearchResult) => {
+    if (canControlPlayback && !currentVideoId) {
+      setCurrentVideoId(videoId);
+      setCurrentTrackInfo({ title: track.title, artist: track.artist });
+      syncVideoLoad(videoId, toQueueTrack(track));
+      return;
+    }
+    addToQueue(toQueueTrack(track));
+  }, [canControlPlayback, currentVideoId, syncVideoLoad, addToQueue]);
+
+  // Connection quality from measured latency and playback drift
+  const connectionQuality: 'excellent' | 'good' | 'poor' = useMemo(() => {
+    const latency = roundTripTime ?? 0;
+    const drift = driftStats.averageDrift;
+    if (latency < 150 && drift < 100) return 'excellent';
+    if (latency < 400 && drift < 300) return 'good';
+    return 'poor';
+  }, [roundTripTime, driftStats.averageDrift]);
+
   const getConnectionStatus = () => {
     if (!connected) return { status: 'Connecting...', color: 'text-yellow-400', bgColor: 'bg-yellow-900/20' };
     if (connectionQuality === 'excellent') return { status: 'Excellent', color: 'text-green-400', bgColor: 'bg-green-900/20' };
@@ -83,6 +289,7 @@ function JoinRoom() {
     if (!roomCode.trim()) return;
     
     setIsJoining(true);
+    setJoinNotice(null);
     
     try {
       // Auto-detect server URL
@@ -99,6 +306,12 @@ function JoinRoom() {
       const response = await fetch(`${getServerUrl()}/api/rooms/${roomCode}`);
       
       if (response.ok) {
+        const { room } = await response.json();
+        if (room?.requiresPassword && !inviteToken && !password) {
+          setNeedsPassword(true);
+          return;
+        }
+
         setJoined(true);
         console.log(`✅ Room ${roomCode} exists, joining...`);
       } else {
@@ -113,6 +326,14 @@ function JoinRoom() {
     }
   };
 
+  // Links from quick-join and invites carry the room code - join straight away
+  const autoJoinAttemptedRef = useRef(false);
+  useEffect(() => {
+    if (!linkedRoomCode || autoJoinAttemptedRef.current) return;
+    autoJoinAttemptedRef.current = true;
+    handleJoinRoom();
+  });
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleJoinRoom();
@@ -123,6 +344,8 @@ function JoinRoom() {
     if (confirm('Are you sure you want to leave this session?')) {
       setJoined(false);
       setRoomCode("");
+      setPassword("");
+      setNeedsPassword(false);
       setCurrentVideoId("");
       setSyncState(null);
       setSessionStartTime(null);
@@ -180,6 +403,12 @@ function JoinRoom() {
             </div>
 
             <div className="space-y-6">
+              {joinNotice && (
+                <div className="p-3 bg-red-900/30 border border-red-700/50 rounded-lg">
+                  <p className="text-sm text-red-300">{joinNotice}</p>
+                </div>
+              )}
+
               <div>
                 <label htmlFor="roomCode" className="block text-sm font-medium text-gray-300 mb-2">
                   Room Code
@@ -192,14 +421,34 @@ function JoinRoom() {
                   onKeyPress={handleKeyPress}
                   placeholder="Enter room code (e.g., ABC123)"
                   className="w-full px-4 py-3 border border-gray-600 bg-gray-700 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center text-lg font-mono tracking-wider uppercase placeholder-gray-400"
-                  maxLength={6}
+                  maxLength={10}
                   disabled={isJoining}
                 />
               </div>
 
+              {needsPassword && (
+                <div>
+                  <label htmlFor="roomPassword" className="block text-sm font-medium text-gray-300 mb-2">
+                    Room Password
+                  </label>
+                  <input
+                    id="roomPassword"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    placeholder="This room is password protected"
+                    className="w-full px-4 py-3 border border-gray-600 bg-gray-700 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent placeholder-gray-400"
+                    maxLength={128}
+                    disabled={isJoining}
+                    autoFocus
+                  />
+                </div>
+              )}
+
               <button
                 onClick={handleJoinRoom}
-                disabled={!roomCode.trim() || isJoining}
+                disabled={!roomCode.trim() || (needsPassword && !password) || isJoining}
                 className="w-full flex items-center justify-center px-4 py-3 border border-transparent text-base font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
               >
                 {isJoining ? (
@@ -240,6 +489,36 @@ function JoinRoom() {
     );
   }
 
+  // Waiting Room (Lobby rooms hold newcomers until a moderator lets them in)
+  if (!connected && lobbyStatus?.status === 'waiting') {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-8 text-center">
+          <div className="w-16 h-16 bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-8 h-8 text-blue-400 animate-pulse" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <h2 className="text-2xl font-semibold text-white mb-2">Waiting to be let in</h2>
+          <p className="text-gray-300 mb-1">
+            The host of room <span className="font-mono font-semibold">{roomCode}</span> will let you in shortly.
+          </p>
+          {lobbyStatus.position !== undefined && (
+            <p className="text-sm text-gray-400 mb-6">
+              {lobbyStatus.position === 1 ? "You're next in line" : `You're number ${lobbyStatus.position} in line`}
+            </p>
+          )}
+          <button
+            onClick={() => setJoined(false)}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors duration-200"
+          >
+            Stop waiting
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Participant View (After Joining)
   return (
     <div className="min-h-screen bg-gray-900">
@@ -266,7 +545,9 @@ function JoinRoom() {
                 </div>
                 <div>
                   <h1 className="text-lg font-semibold text-white">Room {roomCode}</h1>
-                  <p className="text-sm text-gray-400">Listening together</p>
+                  <p className="text-sm text-gray-400">
+                    {myRole === 'listener' ? 'Listening together' : `Listening together as ${ROLE_LABELS[myRole]}`}
+                  </p>
                 </div>
               </div>
             </div>
@@ -295,19 +576,47 @@ function JoinRoom() {
           <div className="lg:col-span-3 space-y-6">
             {/* Video Player Card */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-              <div className="p-6 border-b border-gray-200">
-                <h3 className="text-lg font-medium text-gray-900">Now Playing</h3>
-                <p className="text-sm text-gray-500 mt-1">
-                  Synchronized with the host and other participants
-                </p>
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center gap-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">Now Playing</h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {skipNotice || (currentTrackInfo.title
+                      ? `${currentTrackInfo.title} · ${currentTrackInfo.artist}`
+                      : 'Synchronized with the host and other participants')}
+                  </p>
+                </div>
+                {currentVideoId && (
+                  <div className="flex items-center gap-3">
+                    <ReactionBar disabled={!connected} error={reactionError} onReact={sendReaction} />
+                    {skipTally && (
+                      <SkipVoteButton
+                        tally={skipTally}
+                        hasVoted={hasVotedToSkip}
+                        disabled={!connected}
+                        error={skipError}
+                        onToggle={toggleSkipVote}
+                      />
+                    )}
+                  </div>
+                )}
               </div>
-              <div className="aspect-video bg-gray-900">
+              {canControlPlayback && readyBarrier && <BufferingStatus barrier={readyBarrier} />}
+              <div className="relative aspect-video bg-gray-900">
+                <ReactionOverlay reactions={floatingReactions} />
+                <CountdownOverlay state={syncState} />
                 {currentVideoId ? (
                   <YouTubePlayer
                     ref={playerSyncRef}
                     videoId={currentVideoId}
-                    isHost={false}
+                    isHost={canControlPlayback}
                     initialSyncState={syncState}
+                    onDriftMeasured={reportDrift}
+                    onSyncPlay={syncPlay}
+                    onSyncPause={syncPause}
+                    onSyncSeek={syncSeek}
+                    onSyncRate={syncRate}
+                    onTrackEnded={notifyTrackEnded}
+                    onTrackReady={reportTrackReady}
                   />
                 ) : (
                   <div className="w-full h-full flex items-center justify-center text-white">
@@ -322,10 +631,107 @@ function JoinRoom() {
                 )}
               </div>
             </div>
+
+            {/* Queue */}
+            <QueuePanel
+              queue={queue}
+              canManage={connected && canManageQueue}
+              error={queueError}
+              onRemove={removeFromQueue}
+              onMove={moveQueueItem}
+              onClear={clearQueue}
+              onPlayNext={playNext}
+            />
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Reactions - hosts and co-hosts see what landed */}
+            {canControlPlayback && (
+              <ReactionStats tracks={reactionTracks} totals={reactionTotals} currentVideoId={currentVideoId} />
+            )}
+
+            {/* DJ Rotation */}
+            <DjRotationPanel
+              rotation={djRotation}
+              currentUserId={user?.id}
+              isCurrentDj={isCurrentDj}
+              inRotation={inRotation}
+              canSkipTurn={connected && canControlPlayback}
+              error={djRotationError}
+              onJoin={joinDjRotation}
+              onLeave={leaveDjRotation}
+              onPick={handleDjPick}
+              onSkipTurn={skipDjTurn}
+            />
+
+            {/* Who's here */}
+            <ParticipantList participants={participants} currentUserId={user?.id} />
+
+            {/* Chat */}
+            <ChatPanel
+              messages={chatMessages}
+              currentUserId={user?.id}
+              error={chatError}
+              disabled={!connected}
+              onSend={sendMessage}
+            />
+
+            {/* Song Requests - queue managers add songs directly */}
+            {canManageQueue ? (
+              <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+                <h3 className="text-lg font-medium text-white mb-4">Add Music</h3>
+                <YouTubeSearch onSelectTrack={handleTrackSelect} />
+              </div>
+            ) : (
+              <SongRequestPanel
+                requests={myRequests}
+                acceptingRequests={settings?.allowParticipantRequests ?? false}
+                error={requestError}
+                lastResolved={lastResolved}
+                onSubmit={handleRequestSubmit}
+                onDismissResolved={dismissResolved}
+              />
+            )}
+
+            {canReviewRequests && (
+              <RequestInbox
+                requests={pendingRequests}
+                acceptingRequests={settings?.allowParticipantRequests ?? true}
+                error={requestError}
+                onApprove={approveRequest}
+                onReject={rejectRequest}
+              />
+            )}
+
+            {canModerate && (
+              <LobbyPanel
+                lobby={lobby}
+                lobbyEnabled={settings?.lobbyEnabled ?? false}
+                error={lobbyError}
+                onAdmit={admit}
+                onDeny={deny}
+                onAdmitAll={admitAll}
+              />
+            )}
+
+            {canModerate && (
+              <RoleManager
+                members={members}
+                canManage={false}
+                error={moderationError}
+                currentUserId={user?.id}
+                myRole={myRole}
+                bans={bans}
+                onKick={kickParticipant}
+                onBan={banParticipant}
+                onUnban={unbanParticipant}
+                mutedUserIds={mutedUserIds}
+                onMute={muteUser}
+                onUnmute={unmuteUser}
+              />
+            )}
+
             {/* Session Stats */}
             <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
               <h3 className="text-lg font-medium text-white mb-4">Session Info</h3>
@@ -352,6 +758,41 @@ function JoinRoom() {
                     {connectionStatus.status}
                   </span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-400">Latency</span>
+                  <span className="text-sm font-mono text-white">
+                    {roundTripTime !== null ? `${roundTripTime}ms` : '—'}
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            {/* Sync Quality */}
+            <div className="bg-gray-800 rounded-xl shadow-sm border border-gray-700 p-6">
+              <h3 className="text-lg font-medium text-white mb-4">Sync Quality</h3>
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-400">Current drift</span>
+                  <span className="text-sm font-mono text-white">
+                    {driftStats.currentDrift !== null
+                      ? `${driftStats.currentDrift > 0 ? '+' : ''}${Math.round(driftStats.currentDrift)}ms`
+                      : '—'}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-400">Average drift</span>
+                  <span className="text-sm font-mono text-white">{Math.round(driftStats.averageDrift)}ms</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-400">Worst drift</span>
+                  <span className="text-sm font-mono text-white">{Math.round(driftStats.maxDrift)}ms</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-400">Corrections</span>
+                  <span className="text-sm text-white">
+                    {driftStats.nudges} nudge{driftStats.nudges !== 1 ? 's' : ''} · {driftStats.seeks} seek{driftStats.seeks !== 1 ? 's' : ''}
+                  </span>
+                </div>
               </div>
             </div>
 
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+
+// Landing page for the link in the verification email
+function VerifyEmail() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { verifyEmail } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState<string | null>(null);
+  const requestedRef = useRef(false);
+
+  // Tokens are single-use - make sure a re-render doesn't spend it twice
+  useEffect(() => {
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+
+    const token = searchParams.get('token');
+    if (!token) {
+      setStatus('failed');
+      setError('This verification link is missing its token');
+      return;
+    }
+
+    verifyEmail(token).then(result => {
+      setStatus(result.success ? 'verified' : 'failed');
+      setError(result.success ? null : result.error || 'Email verification failed');
+    });
+  }, [searchParams, verifyEmail]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-gray-800 rounded-xl shadow-lg p-8 border border-gray-700 text-center">
+        {status === 'verifying' && (
+          <>
+            <div className="w-10 h-10 mx-auto mb-4 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-gray-300">Verifying your email address...</p>
+          </>
+        )}
+        {status === 'verified' && (
+          <>
+            <h1 className="text-xl font-semibold text-white mb-2">Email verified</h1>
+            <p className="text-sm text-gray-400">You can now host public rooms and pick custom room codes.</p>
+          </>
+        )}
+        {status === 'failed' && (
+          <>
+            <h1 className="text-xl font-semibold text-white mb-2">Verification failed</h1>
+            <p className="text-sm text-red-400">{error}</p>
+            <p className="text-sm text-gray-400 mt-2">Sign in and request a new link from the home page.</p>
+          </>
+        )}
+        {status !== 'verifying' && (
+          <button
+            onClick={() => navigate('/', { replace: true })}
+            className="mt-6 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Continue to MusicSync
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VerifyEmail;
@@ -4,28 +4,259 @@ export interface PlaybackState {
   videoId: string;
   currentTime: number;
   isPlaying: boolean;
+  timestamp: number; // Server time (ms) - convert with serverNow(), never compare to Date.now()
+  playbackRate?: number; // Track seconds per wall-clock second; 1 when the server doesn't send it
+  pauseAt?: number; // Server time of a scheduled pause - keeps playing until then
+  updatedBy?: string; // User id of whoever issued the change
+  version?: number; // Per-room, increases with every change
+}
+
+export type ScheduledAction = 'play' | 'pause';
+
+export interface ClockSyncState {
+  offset: number; // serverTime - localTime, in ms
+  roundTripTime: number;
+  sampleCount: number;
+  lastSyncedAt: number | null;
+}
+
+export interface QueueTrack {
+  videoId: string;
+  title: string;
+  artist: string;
+  thumbnail: string;
+  duration: string;
+}
+
+export interface QueueItem extends QueueTrack {
+  id: string;
+  addedBy: {
+    userId: string;
+    username: string;
+  };
+  addedAt: number;
+}
+
+export type SongRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface SongRequest extends QueueTrack {
+  id: string;
+  requestedBy: {
+    userId: string;
+    username: string;
+  };
+  status: SongRequestStatus;
+  reason?: string;
+  createdAt: number;
+  resolvedAt?: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  username: string;
+  avatar?: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface RotationDj {
+  userId: string;
+  username: string;
+  avatar?: string;
+}
+
+export interface DjRotationState {
+  enabled: boolean;
+  djs: RotationDj[]; // Turn order
+  currentDjId?: string;
+  turnStartedAt?: number;
+  turnEndsAt?: number; // Pick deadline, then the expected end of the picked track
+  track?: QueueTrack; // The current DJ's pick for this turn
+}
+
+export type ReactionType = 'fire' | 'heart' | 'dance';
+
+export type ReactionCounts = Record<ReactionType, number>;
+
+export interface Reaction {
+  type: ReactionType;
+  userId: string;
+  username: string;
+  videoId: string;
+  position: number;
+  sentAt: number;
+}
+
+export interface ReactionMoment extends ReactionCounts {
+  at: number;
+}
+
+export interface TrackReactions {
+  videoId: string;
+  counts: ReactionCounts;
+  moments: ReactionMoment[];
+}
+
+export type RoomRole = 'owner' | 'cohost' | 'dj' | 'moderator' | 'listener';
+
+export interface RoomMember {
+  userId: string;
+  username: string;
+  avatar?: string;
+  role: RoomRole;
+}
+
+export type PresenceStatus = 'active' | 'idle' | 'hidden'; // hidden = user turned off online status
+
+// One entry of the live roster - the host shows as reconnecting while their seat is held
+export interface RoomParticipant {
+  userId: string;
+  username: string;
+  avatar?: string;
+  role: RoomRole;
+  connection: 'connected' | 'reconnecting';
+  presence: PresenceStatus;
+  joinedAt: number;
+}
+
+export interface ParticipantEvent {
+  userId: string;
+  user: { id: string; username: string; avatar?: string };
+  roomCode: string;
+  participantCount: number;
+}
+
+export interface RoomBan {
+  userId: string;
+  username: string;
+  bannedBy: string;
+  reason?: string;
+  createdAt: number;
+  expiresAt?: number; // Permanent when absent
+}
+
+export type RoomRemoval = 'kicked' | 'banned';
+
+export interface RoomSettings {
+  allowParticipantRequests: boolean;
+  maxParticipants: number;
+  autoPlay: boolean;
+  lobbyEnabled: boolean;
+  skipVoting: SkipVoteSettings;
+}
+
+// Threshold is a percentage of present listeners or a fixed number of votes
+export interface SkipVoteSettings {
+  enabled: boolean;
+  mode: 'percent' | 'count';
+  threshold: number;
+}
+
+export interface SkipVoteTally {
+  videoId: string;
+  votes: number;
+  required: number;
+  voters: string[]; // User ids
+}
+
+// A track change waiting for every player to buffer before it starts
+export interface ReadyBarrierStatus {
+  videoId: string;
+  deadline: number; // Server time at which the track starts without stragglers
+  readyCount: number;
+  total: number;
+  waiting: { userId: string; username: string }[];
+}
+
+export interface VideoLoadEvent {
+  videoId: string;
+  track?: QueueItem; // Set when the queue or DJ rotation advanced
   timestamp: number;
+  readyBy?: number; // Server time - set when a coordinated start will follow
+  version?: number; // Playback state version this load created
+}
+
+export interface LobbyEntry {
+  userId: string;
+  username: string;
+  avatar?: string;
+  requestedAt: number;
+}
+
+export interface LobbyStatus {
+  roomCode: string;
+  status: 'waiting' | 'admitted' | 'denied';
+  position?: number; // Place in line while waiting
+  reason?: string;
+}
+
+// Private rooms accept either the password or an invite token from a share link
+export interface JoinCredentials {
+  password?: string;
+  inviteToken?: string;
+}
+
+export interface RoomInvite {
+  token: string;
+  expiresAt: number;
+}
+
+// The server allocates the room code; verified users may ask for a vanity code
+export interface CreateRoomOptions {
+  vanityCode?: string;
+  isPrivate?: boolean;
+  password?: string;
 }
 
 export interface RoomData {
   roomCode: string;
-  hostId: string;
+  hostId: string; // User id of the host
+  isHost?: boolean; // Whether the current user hosts this room
+  role?: RoomRole; // The current user's role in this room
   participants: string[];
-  currentTrack?: PlaybackState;
+  currentTrack?: PlaybackState | null; // Live state, projected to when the server replied
+  playbackVersion?: number;
+  queue?: QueueItem[];
+  settings?: RoomSettings;
   createdAt: number;
   lastActivity: number;
 }
 
 interface RoomResponse {
   success: boolean;
+  waiting?: boolean; // Parked in the room's lobby
+  position?: number;
   room?: RoomData;
+  isHost?: boolean;
+  role?: RoomRole;
   error?: string;
 }
 
+interface AckResponse {
+  success: boolean;
+  error?: string;
+  [key: string]: any;
+}
+
 interface EventCallback<T = any> {
   (data: T): void;
 }
 
+interface ClockPingResponse {
+  clientTime?: number;
+  serverReceiveTime?: number;
+  serverSendTime?: number;
+}
+
+interface ClockSample {
+  offset: number;
+  roundTripTime: number;
+}
+
+// Events carrying a playback state version - checked for ordering before listeners see them
+const VERSIONED_EVENTS = ['playback-sync', 'playback-heartbeat', 'video-load-sync'];
+
 class RealSocketService {
   private socket: Socket | null = null;
   private _connected = false;
@@ -35,9 +266,24 @@ class RealSocketService {
   private maxReconnectAttempts = 5;
   private isProduction = import.meta.env.PROD;
   private currentRoomCode: string | null = null;
+  private cancelLobbyWait: ((reason: string) => void) | null = null;
+  // Last playback state version applied in the current room; null until the first one arrives
+  private playbackVersion: number | null = null;
+  private playbackResync: Promise<void> | null = null;
   private eventListeners = new Map<string, Set<EventCallback>>();
   private connectionPromise: Promise<void> | null = null;
 
+  // Clock synchronization (NTP-style offset estimation against the server)
+  private clockOffset = 0;
+  private clockRoundTripTime = 0;
+  private clockSampleCount = 0;
+  private clockLastSyncedAt: number | null = null;
+  private clockSyncTimer: ReturnType<typeof setInterval> | null = null;
+  private clockSyncPromise: Promise<ClockSyncState> | null = null;
+  private clockSamplesPerSync = 8;
+  private clockSampleSpacing = 100;
+  private clockResyncInterval = 30000;
+
   private getServerUrl(): string {
     // Priority: Environment variable > Production detection > Development fallback
     if (import.meta.env.VITE_SOCKET_SERVER_URL) {
@@ -73,11 +319,24 @@ class RealSocketService {
       this.log('info', 'WebSocket connected successfully');
       this._connected = true;
       this.reconnectAttempts = 0;
+      this.startClockSync();
+
+      // A reconnect gets a new socket id - rejoin the room we were in
+      if (this.currentRoomCode) {
+        const roomCode = this.currentRoomCode;
+        this.restoreRoom(roomCode).catch(error => {
+          this.log('error', `Failed to restore room ${roomCode}`, error.message);
+        });
+      }
     });
 
     this.socket.on('disconnect', (reason: string) => {
       this.log('warn', `WebSocket disconnected: ${reason}`);
       this._connected = false;
+      this.stopClockSync();
+
+      // The server forgets lobby entries with the socket
+      this.cancelLobbyWait?.('Connection lost while waiting to be let in');
       
       // Don't log manual disconnects as errors
       if (reason !== 'io client disconnect') {
@@ -111,6 +370,21 @@ class RealSocketService {
       }
     });
 
+    // This device was signed out elsewhere - the server closes the socket right after
+    this.socket.on('session-revoked', (data: { message: string }) => {
+      this.log('warn', 'Session revoked', data?.message);
+      this.currentRoomCode = null;
+      this.emitToListeners('session-revoked', data);
+    });
+
+    // Being kicked or banned ends our membership - don't rejoin on the next reconnect
+    this.socket.on('room-error', (data: { roomCode?: string; removal?: RoomRemoval }) => {
+      if (data?.removal && data.roomCode === this.currentRoomCode) {
+        this.log('warn', `Removed from room ${data.roomCode} (${data.removal})`);
+        this.currentRoomCode = null;
+      }
+    });
+
     // Set up forwarding for tracked events
     this.setupEventForwarding();
   }
@@ -120,22 +394,93 @@ class RealSocketService {
 
     const events = [
       'playback-sync',
+      'playback-heartbeat',
       'user-joined', 
       'user-left',
+      'participants-updated',
       'room-update',
       'host-changed',
       'room-error',
-      'video-load-sync' 
+      'video-load-sync',
+      'queue-updated',
+      'requests-updated',
+      'request-status',
+      'room-settings-updated',
+      'roles-updated',
+      'role-changed',
+      'bans-updated',
+      'mutes-updated',
+      'lobby-updated',
+      'lobby-status',
+      'chat-message',
+      'chat-history',
+      'reaction',
+      'reaction-stats',
+      'skip-votes-updated',
+      'skip-vote-passed',
+      'dj-rotation-updated',
+      'ready-barrier-updated'
     ];
 
     events.forEach(eventName => {
       this.socket!.on(eventName, (data: any) => {
         console.log(`📡 Received ${eventName}:`, data);
+        if (VERSIONED_EVENTS.includes(eventName) && !this.acceptPlaybackVersion(eventName, data)) return;
         this.emitToListeners(eventName, data);
       });
     });
   }
 
+  // Drop stale or repeated playback updates. A version we skipped over means an update
+  // went missing, so fetch the whole current state instead of applying this one.
+  // Heartbeats repeat the latest version rather than creating a new one.
+  private acceptPlaybackVersion(eventName: string, data: { version?: number }): boolean {
+    const version = data?.version;
+    if (typeof version !== 'number' || this.playbackVersion === null) {
+      if (typeof version === 'number') this.playbackVersion = version;
+      return true;
+    }
+
+    const expected = eventName === 'playback-heartbeat' ? this.playbackVersion : this.playbackVersion + 1;
+    if (version < expected) {
+      this.log('warn', `Dropping stale ${eventName} v${version} (at v${this.playbackVersion})`);
+      return false;
+    }
+
+    if (version > expected) {
+      this.log('warn', `Missed playback updates (v${this.playbackVersion} -> v${version}), fetching full state`);
+      this.resyncPlaybackState();
+      return false;
+    }
+
+    this.playbackVersion = version;
+    return true;
+  }
+
+  private resyncPlaybackState(): void {
+    if (this.playbackResync) return;
+
+    this.playbackResync = this.requestPlaybackState()
+      .then(({ state, version }) => {
+        // Something newer may have arrived in order while we were asking
+        if (this.playbackVersion !== null && version <= this.playbackVersion) return;
+
+        this.playbackVersion = version;
+        if (state) this.emitToListeners('playback-sync', state);
+      })
+      .catch(error => {
+        this.log('error', 'Failed to resync playback state', error);
+      })
+      .finally(() => {
+        this.playbackResync = null;
+      });
+  }
+
+  async requestPlaybackState(): Promise<{ state: PlaybackState | null; version: number }> {
+    const response = await this.emitWithAck('request-playback-state', {}, 'Failed to fetch playback state');
+    return { state: response.state, version: response.version };
+  }
+
   private emitToListeners(eventName: string, data: any): void {
     const listeners = this.eventListeners.get(eventName);
     if (listeners) {
@@ -251,6 +596,8 @@ class RealSocketService {
   disconnect(): void {
     this.log('info', 'Disconnecting WebSocket...');
     
+    this.stopClockSync();
+
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -265,7 +612,7 @@ class RealSocketService {
     this.eventListeners.clear();
   }
 
-  async createRoom(roomCode: string): Promise<RoomData> {
+  async createRoom(options: CreateRoomOptions = {}): Promise<RoomData> {
     if (!this.socket || !this._connected) {
       throw new Error('Not connected to server');
     }
@@ -275,13 +622,14 @@ class RealSocketService {
         reject(new Error('Room creation timeout'));
       }, 10000);
 
-      this.socket!.emit('create-room', { roomCode }, (response: RoomResponse) => {
+      this.socket!.emit('create-room', options, (response: RoomResponse) => {
         clearTimeout(timeout);
         
         if (response?.success && response.room) {
-          this.currentRoomCode = roomCode;
-          this.log('info', `Room created: ${roomCode}`);
-          resolve(response.room);
+          this.playbackVersion = null;
+          this.currentRoomCode = response.room.roomCode;
+          this.log('info', `Room created: ${response.room.roomCode}`);
+          resolve({ ...response.room, isHost: response.isHost, role: response.role });
         } else {
           this.log('error', 'Failed to create room', response?.error);
           reject(new Error(response?.error || 'Failed to create room'));
@@ -290,62 +638,155 @@ class RealSocketService {
     });
   }
 
-  async joinRoom(roomCode: string): Promise<RoomData> {
+  async joinRoom(roomCode: string, credentials: JoinCredentials = {}): Promise<RoomData> {
+    if (!this.socket || !this._connected) {
+      throw new Error('Not connected to server');
+    }
+
+    return new Promise((resolve, reject) => {
+      const attemptJoin = () => {
+        const timeout = setTimeout(() => {
+          reject(new Error('Room join timeout'));
+        }, 10000);
+
+        this.socket!.emit('join-room', { roomCode, ...credentials }, (response: RoomResponse) => {
+          clearTimeout(timeout);
+
+          if (response?.success && response.room) {
+            this.playbackVersion = response.room.playbackVersion ?? null;
+            this.currentRoomCode = roomCode;
+            this.log('info', `Joined room: ${roomCode}`);
+            resolve({ ...response.room, isHost: response.isHost, role: response.role });
+          } else if (response?.waiting) {
+            this.log('info', `Waiting in the lobby of room ${roomCode} (position ${response.position})`);
+            this.emitToListeners('lobby-status', { roomCode, status: 'waiting', position: response.position });
+            waitForAdmission();
+          } else {
+            this.log('error', 'Failed to join room', response?.error);
+            reject(new Error(response?.error || 'Failed to join room'));
+          }
+        });
+      };
+
+      // Lobby rooms hold the join open until a moderator decides - admitted users simply retry
+      const waitForAdmission = () => {
+        const stopListening = this.addListener('lobby-status', (status: LobbyStatus) => {
+          if (status.roomCode !== roomCode || status.status === 'waiting') return;
+
+          stopWaiting();
+          if (status.status === 'admitted') {
+            attemptJoin();
+          } else {
+            reject(new Error(status.reason || 'The host did not let you in'));
+          }
+        });
+
+        const stopWaiting = () => {
+          stopListening();
+          this.cancelLobbyWait = null;
+        };
+
+        this.cancelLobbyWait = (reason: string) => {
+          stopWaiting();
+          reject(new Error(reason));
+        };
+      };
+
+      attemptJoin();
+    });
+  }
+
+  // Rejoin a room after a reconnect or page refresh, keeping host rights if we held them
+  async restoreRoom(roomCode: string): Promise<RoomData> {
     if (!this.socket || !this._connected) {
       throw new Error('Not connected to server');
     }
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
-        reject(new Error('Room join timeout'));
+        reject(new Error('Room restore timeout'));
       }, 10000);
 
-      this.socket!.emit('join-room', { roomCode }, (response: RoomResponse) => {
+      this.socket!.emit('restore-room', { roomCode }, (response: RoomResponse) => {
         clearTimeout(timeout);
-        
+
         if (response?.success && response.room) {
+          this.playbackVersion = response.room.playbackVersion ?? null;
           this.currentRoomCode = roomCode;
-          this.log('info', `Joined room: ${roomCode}`);
-          resolve(response.room);
+          this.log('info', `Restored room: ${roomCode}${response.isHost ? ' (host)' : ''}`);
+          resolve({ ...response.room, isHost: response.isHost, role: response.role });
         } else {
-          this.log('error', 'Failed to join room', response?.error);
-          reject(new Error(response?.error || 'Failed to join room'));
+          this.log('error', 'Failed to restore room', response?.error);
+          reject(new Error(response?.error || 'Failed to restore room'));
         }
       });
     });
   }
 
   leaveRoom(): void {
+    if (this.cancelLobbyWait) {
+      this.socket?.emit('leave-room');
+      this.cancelLobbyWait('You left the waiting room');
+    }
+
     if (this.socket && this._connected && this.currentRoomCode) {
       this.log('info', `Leaving room: ${this.currentRoomCode}`);
       this.socket.emit('leave-room');
       this.currentRoomCode = null;
+      this.playbackVersion = null;
     }
   }
 
   // Sync operations with validation
-  syncPlay(videoId: string, currentTime: number): void {
+  // playbackRate is optional - the server keeps the room's current rate when it's left out
+  syncPlay(videoId: string, currentTime: number, playbackRate?: number): void {
     if (!this.validateSyncParams(videoId, currentTime)) return;
     
     this.log('info', `Syncing PLAY: ${videoId} at ${currentTime}s`);
-    this.socket!.emit('sync-play', { videoId, currentTime: Math.max(0, currentTime) });
+    this.socket!.emit('sync-play', { videoId, currentTime: Math.max(0, currentTime), playbackRate });
   }
 
-  syncPause(videoId: string, currentTime: number): void {
+  syncPause(videoId: string, currentTime: number, playbackRate?: number): void {
     if (!this.validateSyncParams(videoId, currentTime)) return;
     
     this.log('info', `Syncing PAUSE: ${videoId} at ${currentTime}s`);
-    this.socket!.emit('sync-pause', { videoId, currentTime: Math.max(0, currentTime) });
+    this.socket!.emit('sync-pause', { videoId, currentTime: Math.max(0, currentTime), playbackRate });
   }
 
-  syncSeek(videoId: string, currentTime: number, isPlaying: boolean): void {
+  // "Play at" starts from currentTime at the given server time; "pause at" keeps playing until then
+  schedulePlayback(action: ScheduledAction, videoId: string, currentTime: number, at: number, playbackRate?: number): void {
+    if (!this.validateSyncParams(videoId, currentTime)) return;
+
+    this.log('info', `Scheduling ${action.toUpperCase()}: ${videoId} in ${((at - this.serverNow()) / 1000).toFixed(1)}s`);
+    this.socket!.emit(action === 'play' ? 'sync-play' : 'sync-pause', {
+      videoId,
+      currentTime: Math.max(0, currentTime),
+      playbackRate,
+      at
+    });
+  }
+
+  syncRate(videoId: string, currentTime: number, playbackRate: number, isPlaying: boolean): void {
+    if (!this.validateSyncParams(videoId, currentTime)) return;
+
+    this.log('info', `Syncing RATE: ${videoId} at ${playbackRate}x from ${currentTime}s`);
+    this.socket!.emit('sync-rate', {
+      videoId,
+      currentTime: Math.max(0, currentTime),
+      playbackRate,
+      isPlaying
+    });
+  }
+
+  syncSeek(videoId: string, currentTime: number, isPlaying: boolean, playbackRate?: number): void {
     if (!this.validateSyncParams(videoId, currentTime)) return;
     
     this.log('info', `Syncing SEEK: ${videoId} to ${currentTime}s (${isPlaying ? 'playing' : 'paused'})`);
     this.socket!.emit('sync-seek', { 
       videoId, 
       currentTime: Math.max(0, currentTime), 
-      isPlaying 
+      isPlaying,
+      playbackRate
     });
   }
 
@@ -368,34 +809,296 @@ class RealSocketService {
     return true;
   }
     // Add this method to RealSocketService class
-  syncVideoLoad(videoId: string): void {
+  // Track metadata lets the server remember what's playing across restarts
+  syncVideoLoad(videoId: string, track?: QueueTrack): void {
     if (!this.socket?.connected) {
       console.warn('Cannot sync video load: Not connected');
       return;
     }
     
     this.log('info', `Syncing VIDEO LOAD: ${videoId}`);
-    this.socket.emit('sync-video-load', { videoId });
+    this.socket.emit('sync-video-load', { videoId, track });
   }
 
   // Add this event listener method
-  onVideoLoadSync(callback: EventCallback<{ videoId: string }>): () => void {
+  onVideoLoadSync(callback: EventCallback<VideoLoadEvent>): () => void {
     return this.addListener('video-load-sync', callback);
   }
+
+  // Tell the server this player has buffered the track and can start on cue
+  reportTrackReady(videoId: string): void {
+    if (!this.socket?.connected) return;
+
+    this.log('info', `Ready to start: ${videoId}`);
+    this.socket.emit('track-ready', { videoId });
+  }
+
+  onReadyBarrierUpdated(callback: EventCallback<{ roomCode: string; barrier: ReadyBarrierStatus | null }>): () => void {
+    return this.addListener('ready-barrier-updated', callback);
+  }
+
+  onSessionRevoked(callback: EventCallback<{ message: string }>): () => void {
+    return this.addListener('session-revoked', callback);
+  }
+
+  // Emit a room command and resolve with the server's acknowledgement
+  private emitWithAck<T extends AckResponse = AckResponse>(eventName: string, payload: object, failureMessage: string): Promise<T> {
+    if (!this.socket || !this._connected) {
+      return Promise.reject(new Error('Not connected to server'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`${failureMessage}: timeout`));
+      }, 10000);
+
+      this.socket!.emit(eventName, payload, (response: T) => {
+        clearTimeout(timeout);
+
+        if (response?.success) {
+          resolve(response);
+        } else {
+          this.log('warn', failureMessage, response?.error);
+          reject(new Error(response?.error || failureMessage));
+        }
+      });
+    });
+  }
+
+  // Queue operations
+  async addToQueue(track: QueueTrack): Promise<QueueItem[]> {
+    const response = await this.emitWithAck('queue-add', { track }, 'Failed to add track to queue');
+    return response.queue;
+  }
+
+  async removeFromQueue(itemId: string): Promise<QueueItem[]> {
+    const response = await this.emitWithAck('queue-remove', { itemId }, 'Failed to remove track from queue');
+    return response.queue;
+  }
+
+  async moveQueueItem(itemId: string, toIndex: number): Promise<QueueItem[]> {
+    const response = await this.emitWithAck('queue-reorder', { itemId, toIndex }, 'Failed to reorder queue');
+    return response.queue;
+  }
+
+  async clearQueue(): Promise<void> {
+    await this.emitWithAck('queue-clear', {}, 'Failed to clear queue');
+  }
+
+  async playNext(): Promise<QueueItem> {
+    const response = await this.emitWithAck('queue-play-next', {}, 'Failed to play next track');
+    return response.track;
+  }
+
+  notifyTrackEnded(videoId: string): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('queue-track-ended', { videoId });
+  }
+
+  onQueueUpdated(callback: EventCallback<{ roomCode: string; queue: QueueItem[] }>): () => void {
+    return this.addListener('queue-updated', callback);
+  }
+
+  // Song requests
+  async submitRequest(track: QueueTrack): Promise<SongRequest> {
+    const response = await this.emitWithAck('request-submit', { track }, 'Failed to submit request');
+    return response.request;
+  }
+
+  async approveRequest(requestId: string): Promise<SongRequest> {
+    const response = await this.emitWithAck('request-approve', { requestId }, 'Failed to approve request');
+    return response.request;
+  }
+
+  async rejectRequest(requestId: string, reason?: string): Promise<SongRequest> {
+    const response = await this.emitWithAck('request-reject', { requestId, reason }, 'Failed to reject request');
+    return response.request;
+  }
+
+  onRequestsUpdated(callback: EventCallback<{ roomCode: string; requests: SongRequest[] }>): () => void {
+    return this.addListener('requests-updated', callback);
+  }
+
+  onRequestStatus(callback: EventCallback<{ roomCode: string; request: SongRequest }>): () => void {
+    return this.addListener('request-status', callback);
+  }
+
+  // Room settings
+  async updateRoomSettings(settings: Partial<RoomSettings>): Promise<RoomSettings> {
+    const response = await this.emitWithAck('update-room-settings', settings, 'Failed to update room settings');
+    return response.settings;
+  }
+
+  async setRoomPassword(password: string | null): Promise<boolean> {
+    const response = await this.emitWithAck('set-room-password', { password }, 'Failed to update room password');
+    return response.requiresPassword;
+  }
+
+  async createInvite(): Promise<RoomInvite> {
+    const response = await this.emitWithAck('create-invite', {}, 'Failed to create invite link');
+    return { token: response.token, expiresAt: response.expiresAt };
+  }
+
+  onRoomSettingsUpdated(callback: EventCallback<{ roomCode: string; settings: RoomSettings }>): () => void {
+    return this.addListener('room-settings-updated', callback);
+  }
+
+  // Roles
+  async setParticipantRole(userId: string, role: Exclude<RoomRole, 'owner'>): Promise<void> {
+    await this.emitWithAck('set-role', { userId, role }, 'Failed to change role');
+  }
+
+  onRolesUpdated(callback: EventCallback<{ roomCode: string; members: RoomMember[] }>): () => void {
+    return this.addListener('roles-updated', callback);
+  }
+
+  onRoleChanged(callback: EventCallback<{ roomCode: string; userId: string; username: string; role: RoomRole }>): () => void {
+    return this.addListener('role-changed', callback);
+  }
+
+  // Chat
+  async sendChatMessage(text: string): Promise<ChatMessage> {
+    const response = await this.emitWithAck('chat-message', { text }, 'Failed to send message');
+    return response.message;
+  }
+
+  onChatMessage(callback: EventCallback<{ roomCode: string; message: ChatMessage }>): () => void {
+    return this.addListener('chat-message', callback);
+  }
+
+  onChatHistory(callback: EventCallback<{ roomCode: string; messages: ChatMessage[] }>): () => void {
+    return this.addListener('chat-history', callback);
+  }
+
+  // DJ rotation
+  async setDjRotation(enabled: boolean): Promise<DjRotationState> {
+    const response = await this.emitWithAck('dj-rotation-set', { enabled }, 'Failed to update DJ rotation');
+    return response.rotation;
+  }
+
+  async joinDjRotation(): Promise<DjRotationState> {
+    const response = await this.emitWithAck('dj-rotation-join', {}, 'Failed to join the DJ rotation');
+    return response.rotation;
+  }
+
+  async leaveDjRotation(): Promise<DjRotationState> {
+    const response = await this.emitWithAck('dj-rotation-leave', {}, 'Failed to leave the DJ rotation');
+    return response.rotation;
+  }
+
+  async pickDjTrack(track: QueueTrack): Promise<QueueItem> {
+    const response = await this.emitWithAck('dj-pick', { track }, 'Failed to play your pick');
+    return response.track;
+  }
+
+  async skipDjTurn(): Promise<void> {
+    await this.emitWithAck('dj-skip-turn', {}, 'Failed to skip the DJ turn');
+  }
+
+  onDjRotationUpdated(callback: EventCallback<{ roomCode: string; rotation: DjRotationState }>): () => void {
+    return this.addListener('dj-rotation-updated', callback);
+  }
+
+  // Skip voting
+  async voteToSkip(videoId: string, vote: boolean = true): Promise<void> {
+    await this.emitWithAck('skip-vote', { videoId, vote }, 'Failed to record your vote');
+  }
+
+  // tally is null while skip voting is off or nothing is playing
+  onSkipVotesUpdated(callback: EventCallback<{ roomCode: string; tally: SkipVoteTally | null }>): () => void {
+    return this.addListener('skip-votes-updated', callback);
+  }
+
+  onSkipVotePassed(callback: EventCallback<{ roomCode: string; videoId: string; votes: number }>): () => void {
+    return this.addListener('skip-vote-passed', callback);
+  }
+
+  // Reactions
+  async sendReaction(type: ReactionType): Promise<void> {
+    await this.emitWithAck('send-reaction', { type }, 'Failed to send reaction');
+  }
+
+  onReaction(callback: EventCallback<{ roomCode: string } & Reaction>): () => void {
+    return this.addListener('reaction', callback);
+  }
+
+  onReactionStats(callback: EventCallback<{ roomCode: string; tracks: TrackReactions[]; totals: ReactionCounts }>): () => void {
+    return this.addListener('reaction-stats', callback);
+  }
+
+  // Lobby
+  async admitFromLobby(userId: string): Promise<void> {
+    await this.emitWithAck('lobby-admit', { userId }, 'Failed to let user in');
+  }
+
+  async admitAllFromLobby(): Promise<void> {
+    await this.emitWithAck('lobby-admit-all', {}, 'Failed to let everyone in');
+  }
+
+  async denyFromLobby(userId: string, reason?: string): Promise<void> {
+    await this.emitWithAck('lobby-deny', { userId, reason }, 'Failed to turn user away');
+  }
+
+  onLobbyUpdated(callback: EventCallback<{ roomCode: string; lobby: LobbyEntry[] }>): () => void {
+    return this.addListener('lobby-updated', callback);
+  }
+
+  onLobbyStatus(callback: EventCallback<LobbyStatus>): () => void {
+    return this.addListener('lobby-status', callback);
+  }
+
+  // Moderation
+  async kickParticipant(userId: string, reason?: string): Promise<void> {
+    await this.emitWithAck('kick-participant', { userId, reason }, 'Failed to remove participant');
+  }
+
+  async banParticipant(userId: string, reason?: string, durationMinutes?: number): Promise<RoomBan> {
+    const response = await this.emitWithAck('ban-participant', { userId, reason, durationMinutes }, 'Failed to ban participant');
+    return response.ban;
+  }
+
+  async unbanParticipant(userId: string): Promise<void> {
+    await this.emitWithAck('unban-participant', { userId }, 'Failed to lift ban');
+  }
+
+  onBansUpdated(callback: EventCallback<{ roomCode: string; bans: RoomBan[] }>): () => void {
+    return this.addListener('bans-updated', callback);
+  }
+
+  async muteUser(userId: string): Promise<void> {
+    await this.emitWithAck('mute-user', { userId }, 'Failed to mute participant');
+  }
+
+  async unmuteUser(userId: string): Promise<void> {
+    await this.emitWithAck('unmute-user', { userId }, 'Failed to unmute participant');
+  }
+
+  onMutesUpdated(callback: EventCallback<{ roomCode: string; userIds: string[] }>): () => void {
+    return this.addListener('mutes-updated', callback);
+  }
+
   // Event subscription methods with cleanup
   onPlaybackSync(callback: EventCallback<PlaybackState>): () => void {
     console.log('🎯 Setting up playback sync listener');
     return this.addListener('playback-sync', callback);
   }
 
-  onUserJoined(callback: EventCallback<{ userId: string; roomCode: string; participantCount: number }>): () => void {
+  onPlaybackHeartbeat(callback: EventCallback<PlaybackState>): () => void {
+    return this.addListener('playback-heartbeat', callback);
+  }
+
+  onUserJoined(callback: EventCallback<ParticipantEvent>): () => void {
     return this.addListener('user-joined', callback);
   }
 
-  onUserLeft(callback: EventCallback<{ userId: string; roomCode: string; participantCount: number }>): () => void {
+  onUserLeft(callback: EventCallback<ParticipantEvent>): () => void {
     return this.addListener('user-left', callback);
   }
 
+  onParticipantsUpdated(callback: EventCallback<{ roomCode: string; participants: RoomParticipant[] }>): () => void {
+    return this.addListener('participants-updated', callback);
+  }
+
   onRoomUpdate(callback: EventCallback<RoomData>): () => void {
     return this.addListener('room-update', callback);
   }
@@ -404,31 +1107,133 @@ class RealSocketService {
     return this.addListener('host-changed', callback);
   }
 
-  onRoomError(callback: EventCallback<{ error: string; roomCode?: string }>): () => void {
+  onRoomError(callback: EventCallback<{ error: string; roomCode?: string; removal?: RoomRemoval }>): () => void {
     return this.addListener('room-error', callback);
   }
 
-  // Health check
+  onClockSync(callback: EventCallback<ClockSyncState>): () => void {
+    return this.addListener('clock-sync', callback);
+  }
+
+  // Health check - returns round-trip latency in ms
   async ping(): Promise<number> {
+    const sample = await this.requestClockSample();
+    return sample.roundTripTime;
+  }
+
+  // Single NTP-style exchange: t0 = client send, t1/t2 = server receive/send, t3 = client receive
+  private requestClockSample(): Promise<ClockSample> {
     if (!this.socket || !this._connected) {
-      throw new Error('Not connected');
+      return Promise.reject(new Error('Not connected'));
     }
 
-    const startTime = Date.now();
-    
+    const clientSendTime = Date.now();
+
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         reject(new Error('Ping timeout'));
       }, 5000);
 
-      this.socket!.emit('ping', (response: any) => {
+      this.socket!.emit('ping', { clientTime: clientSendTime }, (response: ClockPingResponse) => {
         clearTimeout(timeout);
-        const latency = Date.now() - startTime;
-        resolve(latency);
+        const clientReceiveTime = Date.now();
+
+        // Older servers answer without timestamps - treat as zero offset
+        if (typeof response?.serverReceiveTime !== 'number' || typeof response?.serverSendTime !== 'number') {
+          resolve({ offset: 0, roundTripTime: clientReceiveTime - clientSendTime });
+          return;
+        }
+
+        const { serverReceiveTime, serverSendTime } = response;
+        const offset = ((serverReceiveTime - clientSendTime) + (serverSendTime - clientReceiveTime)) / 2;
+        const roundTripTime = (clientReceiveTime - clientSendTime) - (serverSendTime - serverReceiveTime);
+
+        resolve({ offset, roundTripTime: Math.max(0, roundTripTime) });
       });
     });
   }
 
+  // Estimate the server clock offset from several samples
+  async syncClock(): Promise<ClockSyncState> {
+    if (this.clockSyncPromise) {
+      return this.clockSyncPromise;
+    }
+
+    this.clockSyncPromise = this.performClockSync();
+
+    try {
+      return await this.clockSyncPromise;
+    } finally {
+      this.clockSyncPromise = null;
+    }
+  }
+
+  private async performClockSync(): Promise<ClockSyncState> {
+    const samples: ClockSample[] = [];
+
+    for (let i = 0; i < this.clockSamplesPerSync; i++) {
+      if (!this.isConnected) break;
+
+      try {
+        samples.push(await this.requestClockSample());
+      } catch (error) {
+        this.log('warn', 'Clock sample failed', (error as Error).message);
+      }
+
+      if (i < this.clockSamplesPerSync - 1) {
+        await new Promise(resolve => setTimeout(resolve, this.clockSampleSpacing));
+      }
+    }
+
+    if (samples.length === 0) {
+      return this.clockState;
+    }
+
+    // Keep the fastest half: low-RTT samples are least skewed by asymmetric network delay
+    const fastest = [...samples]
+      .sort((a, b) => a.roundTripTime - b.roundTripTime)
+      .slice(0, Math.max(1, Math.ceil(samples.length / 2)));
+    const offsets = fastest.map(sample => sample.offset).sort((a, b) => a - b);
+    const medianOffset = offsets[Math.floor(offsets.length / 2)];
+    const averageRoundTrip = fastest.reduce((sum, sample) => sum + sample.roundTripTime, 0) / fastest.length;
+
+    this.clockOffset = Math.round(medianOffset);
+    this.clockRoundTripTime = Math.round(averageRoundTrip);
+    this.clockSampleCount = samples.length;
+    this.clockLastSyncedAt = Date.now();
+
+    this.log('info', `Clock synced: offset ${this.clockOffset}ms, RTT ${this.clockRoundTripTime}ms (${samples.length} samples)`);
+    this.emitToListeners('clock-sync', this.clockState);
+
+    return this.clockState;
+  }
+
+  private startClockSync(): void {
+    this.stopClockSync();
+
+    this.syncClock().catch(error => {
+      this.log('warn', 'Initial clock sync failed', error);
+    });
+
+    this.clockSyncTimer = setInterval(() => {
+      this.syncClock().catch(error => {
+        this.log('warn', 'Periodic clock sync failed', error);
+      });
+    }, this.clockResyncInterval);
+  }
+
+  private stopClockSync(): void {
+    if (this.clockSyncTimer) {
+      clearInterval(this.clockSyncTimer);
+      this.clockSyncTimer = null;
+    }
+  }
+
+  // Current time on the server's clock, in ms
+  serverNow(): number {
+    return Date.now() + this.clockOffset;
+  }
+
   // Getters
   get isConnected(): boolean {
     return this._connected && Boolean(this.socket?.connected);
@@ -442,6 +1247,15 @@ class RealSocketService {
     return this.currentRoomCode;
   }
 
+  get clockState(): ClockSyncState {
+    return {
+      offset: this.clockOffset,
+      roundTripTime: this.clockRoundTripTime,
+      sampleCount: this.clockSampleCount,
+      lastSyncedAt: this.clockLastSyncedAt
+    };
+  }
+
   get connectionState(): string {
     if (!this.socket) return 'disconnected';
     if (this._connecting) return 'connecting';
@@ -459,6 +1273,7 @@ class RealSocketService {
       serverUrl: this.serverUrl,
       socketId: this.socket?.id || null,
       activeListeners: Array.from(this.eventListeners.keys()),
+      clock: this.clockState,
       environment: {
         isProd: import.meta.env.PROD,
         hostname: window.location.hostname,
@@ -0,0 +1,16 @@
+import type { ReactionType } from '../services/realSocketService';
+
+export const REACTION_EMOJI: Record<ReactionType, string> = {
+  fire: '🔥',
+  heart: '❤️',
+  dance: '💃'
+};
+
+export const REACTION_TYPES = Object.keys(REACTION_EMOJI) as ReactionType[];
+
+// "1:05" style position within a track
+export const formatTrackPosition = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,38 @@
+import type { RoomRole } from '../services/realSocketService';
+
+// Mirrors server/permissions.ts - the server stays authoritative, this only gates UI
+export type RoomPermission = 'playback' | 'queue' | 'requests' | 'moderate' | 'settings' | 'roles';
+
+const ROLE_PERMISSIONS: Record<RoomRole, RoomPermission[]> = {
+  owner: ['playback', 'queue', 'requests', 'moderate', 'settings', 'roles'],
+  cohost: ['playback', 'queue', 'requests', 'moderate'],
+  dj: ['queue'],
+  moderator: ['requests', 'moderate'],
+  listener: []
+};
+
+export const ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  cohost: 'Co-host',
+  dj: 'DJ',
+  moderator: 'Moderator',
+  listener: 'Listener'
+};
+
+export const ASSIGNABLE_ROLES: Exclude<RoomRole, 'owner'>[] = ['cohost', 'dj', 'moderator', 'listener'];
+
+export const hasPermission = (role: RoomRole | null | undefined, permission: RoomPermission): boolean => {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+};
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  owner: 4,
+  cohost: 3,
+  moderator: 2,
+  dj: 1,
+  listener: 0
+};
+
+export const outranks = (actor: RoomRole, target: RoomRole): boolean => {
+  return ROLE_RANK[actor] > ROLE_RANK[target];
+};
@@ -0,0 +1,21 @@
+import type { PlaybackState, ScheduledAction } from '../services/realSocketService';
+
+export interface PendingCommand {
+  action: ScheduledAction;
+  at: number; // Server time
+}
+
+// A start or pause the room is counting down to, if any
+export const pendingCommand = (state: PlaybackState | null, now: number): PendingCommand | null => {
+  if (!state) return null;
+  if (state.isPlaying && state.timestamp > now) return { action: 'play', at: state.timestamp };
+  if (state.isPlaying && state.pauseAt !== undefined && state.pauseAt > now) return { action: 'pause', at: state.pauseAt };
+  return null;
+};
+
+// "2:05" above a minute, plain seconds below
+export const formatCountdown = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  if (seconds < 60) return `${seconds}`;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
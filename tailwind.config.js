@@ -12,6 +12,16 @@ export default {
           850: '#1f2937',
           950: '#111827',
         }
+      },
+      keyframes: {
+        'float-up': {
+          '0%': { transform: 'translateY(0) scale(0.8)', opacity: '0' },
+          '15%': { transform: 'translateY(-10%) scale(1.1)', opacity: '1' },
+          '100%': { transform: 'translateY(-300%) scale(1)', opacity: '0' },
+        }
+      },
+      animation: {
+        'float-up': 'float-up 2s ease-out forwards',
       }
     },
   },